@@ -1,7 +1,7 @@
 // @vitest-environment jsdom
 
-import { describe, expect, it, beforeEach, vi } from 'vitest'
-import { render, screen } from '@testing-library/react'
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest'
+import { act, cleanup, render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import App from './App'
 import { fetchInteractions } from './lib/starknetClient'
@@ -17,7 +17,7 @@ const mockRow: FetchInteractionsReturn['rows'][number] = {
   entrypoint: 'do_something',
   caller: '0x1111222233334444',
   to: '0x9999',
-  fee: 42,
+  fee: { amount: '42', unit: 'WEI' },
   status: 'ACCEPTED',
   network: 'mainnet'
 }
@@ -33,6 +33,11 @@ beforeEach(() => {
   mockFetch.mockResolvedValue({ rows: [mockRow], totalEstimated: 1, hasMore: false })
 })
 
+afterEach(() => {
+  cleanup()
+  window.history.replaceState(null, '', '/')
+})
+
 describe('App date filters', () => {
   it('omits invalid date ranges and still loads data', async () => {
     const user = userEvent.setup()
@@ -57,3 +62,98 @@ describe('App date filters', () => {
     expect(params.to).toBeUndefined()
   })
 })
+
+describe('App load cancellation', () => {
+  it('aborts the running load from the Cancel button', async () => {
+    const user = userEvent.setup()
+    let receivedSignal: AbortSignal | undefined
+    mockFetch.mockImplementation((params: FetchInteractionsParams) => new Promise((_, reject) => {
+      receivedSignal = params.signal
+      params.signal?.addEventListener('abort', () => reject(params.signal?.reason))
+    }))
+
+    render(<App />)
+
+    await user.type(screen.getByPlaceholderText('0x… contract address'), '0xCAFEBABE')
+    await user.click(screen.getByRole('button', { name: /load data/i }))
+
+    const [cancelButton] = await screen.findAllByRole('button', { name: /^cancel$/i })
+    await user.click(cancelButton)
+
+    await screen.findByText(/Anulowano: przerwano ładowanie danych\./)
+    expect(receivedSignal?.aborted).toBe(true)
+    expect(screen.queryByText('Loading…')).toBeNull()
+  })
+})
+
+describe('App URL state', () => {
+  it('loads a shared link and restores earlier filters on back navigation', async () => {
+    const user = userEvent.setup()
+    window.history.replaceState(null, '', '/?address=0xcafe&network=sepolia&from=2024-05-01&to=2024-05-03&method=transfer&status=REJECTED')
+
+    render(<App />)
+
+    await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1))
+    const params = mockFetch.mock.calls[0][0]
+    expect(params.address).toBe('0xcafe')
+    expect(params.network).toBe('sepolia')
+    expect(params.filters).toMatchObject({ method: 'transfer', status: 'REJECTED' })
+    expect(params.from).toBe(Date.parse('2024-05-01') / 1000)
+    await screen.findByText(/Sukces: pobrano 1 rekordów\./)
+
+    const [statusSelect] = screen.getAllByDisplayValue('REJECTED')
+    await user.selectOptions(statusSelect, 'ACCEPTED')
+    expect(new URLSearchParams(window.location.search).get('status')).toBe('ACCEPTED')
+
+    await act(async () => {
+      window.history.back()
+      await new Promise((resolve) => window.addEventListener('popstate', resolve, { once: true }))
+    })
+
+    expect(new URLSearchParams(window.location.search).get('status')).toBe('REJECTED')
+    await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2))
+    expect(mockFetch.mock.calls[1][0].filters).toMatchObject({ status: 'REJECTED' })
+  })
+  it('loads every page up to the one in a shared link', async () => {
+    window.history.replaceState(null, '', '/?address=0xcafe&page=3')
+    const row = (txHash: string) => ({ ...mockRow, txHash })
+    mockFetch
+      .mockResolvedValueOnce({ rows: [row('0x1')], hasMore: true, cursor: { page: 2 } as any })
+      .mockResolvedValueOnce({ rows: [row('0x2')], hasMore: true, cursor: { page: 3 } as any })
+      .mockResolvedValueOnce({ rows: [row('0x3')], hasMore: true, cursor: { page: 4 } as any })
+
+    render(<App />)
+
+    await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(3))
+    expect(mockFetch.mock.calls.map(([params]) => [params.page, params.cursor])).toEqual([[1, undefined], [2, { page: 2 }], [3, { page: 3 }]])
+    await waitFor(() => expect(document.body.textContent).toContain('0x3'))
+    for (const txHash of ['0x1', '0x2', '0x3']) expect(screen.getAllByText(new RegExp(`^${txHash}`)).length).toBeGreaterThan(0)
+    expect(new URLSearchParams(window.location.search).get('page')).toBe('3')
+  })
+})
+
+describe('App fee filters', () => {
+  it('needs a single fee unit and a valid amount before it loads with fee bounds', async () => {
+    const user = userEvent.setup()
+    window.history.replaceState(null, '', '/?address=0xcafe&minFee=0.5')
+
+    render(<App />)
+
+    expect((await screen.findByRole('alert')).textContent).toBe('Pick ETH or STRK to filter by fee.')
+    expect(screen.getByRole('button', { name: /load data/i })).toHaveProperty('disabled', true)
+    expect(mockFetch).not.toHaveBeenCalled()
+
+    await user.selectOptions(screen.getByDisplayValue('ETH + STRK'), 'WEI')
+    const maxFee = screen.getByPlaceholderText('max fee')
+    await user.type(maxFee, '0.1.2')
+    expect(screen.getByRole('alert').textContent).toBe('Invalid fee "0.1.2": enter an amount in ETH with at most 18 decimals.')
+
+    await user.clear(maxFee)
+    await user.type(maxFee, '2')
+    expect(screen.queryByRole('alert')).toBeNull()
+    await user.click(screen.getByRole('button', { name: /load data/i }))
+
+    await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1))
+    expect(mockFetch.mock.calls[0][0].filters).toMatchObject({ feeUnit: 'WEI', minFee: 5n * 10n ** 17n, maxFee: 2n * 10n ** 18n })
+  })
+})
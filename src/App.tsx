@@ -1,14 +1,37 @@
-import { useEffect, useMemo, useState } from 'react'
-import { Filters, Network, TxRow, ActivityLogEntry, ActivityLogLevel } from './types'
-import { fetchInteractions } from './lib/starknetClient'
-import { kpis, methodCounts, topCallers } from './lib/aggregations'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Filters, Network, TxRow, ContractEvent, ActivityLogEntry } from './types'
+import { fetchInteractions, CoverageReport, FetchCursor, FetchProgress, clearNetworkData, clearRpcCache, getRpcCacheStats, getWebSocketUrl } from './lib/starknetClient'
+import { clearScanWatermarks } from './lib/scanWatermarks'
+import { FEE_TOKENS, FEE_UNITS, feeBoundError, parseUnits } from './lib/fees'
+import { fmtAddr } from './lib/format'
+import { NetworkConfig, isKnownNetwork, listNetworks, loadCustomNetworks, saveCustomNetworks, staleNetworkIds } from './lib/networks'
+import { FOLLOW_REORG_DEPTH, FollowCheckpoint, mergeFollowRows, pollFollow, seedFollowCheckpoint } from './lib/follow'
+import { EventSubscription } from './lib/eventSubscription'
+import { CollectedRows, ExportFormat, ExportKind, buildExport, collectAllRows, downloadFile } from './lib/export'
+import { ActivityLog, appendLogEntries, emptyActivityLog, nextLoadId } from './lib/activityLog'
+import { RetryLogEntry } from './lib/rpcTransport'
+import { VIEWS, View, parseUrlState, serializeUrlState, withoutPage } from './lib/urlState'
+import { StackBy, UNKNOWN_METHOD, activityBuckets, addrKey, contractKpis, failureGroups, kpis, methodBuckets, pickBucketSize, sharedCallers, topCallers } from './lib/aggregations'
+import { Watchlist, WatchlistContractResult, fetchWatchlist, loadWatchlists, mergeWatchlistRows, saveWatchlists } from './lib/watchlists'
 import KpiCards from './components/KpiCards'
 import TxTable from './components/TxTable'
 import TopCallers from './components/TopCallers'
 import MethodsHeatmap from './components/MethodsHeatmap'
 import ActivityPanel from './components/ActivityPanel'
+import ScanProgress from './components/ScanProgress'
+import CoverageBanner from './components/CoverageBanner'
+import ExportMenu from './components/ExportMenu'
+import ActivityChart from './components/ActivityChart'
+import CallerProfile from './components/CallerProfile'
+import TxDetailDrawer from './components/TxDetailDrawer'
+import FailuresPanel from './components/FailuresPanel'
+import EventsPanel from './components/EventsPanel'
+import WatchlistMenu from './components/WatchlistMenu'
+import ContractComparison from './components/ContractComparison'
+import NetworkSettings from './components/NetworkSettings'
 
 const last7=()=>{ const to=new Date(), from=new Date(Date.now()-7*24*3600*1000); return {fromDate:from.toISOString().slice(0,10), toDate:to.toISOString().slice(0,10)} }
+const defaultFilters=():Filters=>({ address:'', network:'mainnet', ...last7(), type:'ALL', status:'ALL', feeUnit:'ALL' })
 
 const parseDateToSeconds=(value?:string,{ endOfDay=false }={})=>{
   if(!value) return undefined
@@ -18,61 +41,326 @@ const parseDateToSeconds=(value?:string,{ endOfDay=false }={})=>{
   return endOfDay?seconds+86399:seconds
 }
 
+const FOLLOW_INTERVALS=[5_000,15_000,30_000,60_000]
+const LOG_FLUSH_MS=200
+const VIEW_LABELS:Record<View,string>={ transactions:'Transactions', events:'Events', failures:'Failures' }
+
+// Bounds only apply with one fee unit selected; `feeBoundError` reports the cases where they cannot be applied.
+const parseFeeBound=(value:string|undefined, unit:Filters['feeUnit'])=>{
+  if(!value||!unit||unit==='ALL') return undefined
+  return parseUnits(value, FEE_TOKENS[unit].decimals)
+}
+
 export default function App(){
-  const [filters,setFilters]=useState<Filters>({ address:'', network:'mainnet', ...last7(), type:'ALL', status:'ALL' })
+  const [initialUrl]=useState(()=>parseUrlState(window.location.search))
+  const [filters,setFilters]=useState<Filters>({ ...defaultFilters(), ...initialUrl.filters })
+  const feeError=feeBoundError(filters)
   const [page,setPage]=useState(1); const pageSize=50
-  const [rows,setRows]=useState<TxRow[]>([]); const [total,setTotal]=useState<number|undefined>(); const [loading,setLoading]=useState(false); const [error,setError]=useState<string|null>(null)
-  const [logs,setLogs]=useState<ActivityLogEntry[]>([])
+  const [view,setView]=useState<View>(initialUrl.view??'transactions')
+  // Page to load once the state from a shared link or history entry has been applied.
+  const [autoLoad,setAutoLoad]=useState<number|undefined>(initialUrl.filters.address? initialUrl.page??1 : undefined)
+  const committedSearch=useRef<string>()
+  const [selectedCaller,setSelectedCaller]=useState<string>()
+  const [selectedTx,setSelectedTx]=useState<string>()
+  const [stackBy,setStackBy]=useState<StackBy>('method')
+  const [exportFormat,setExportFormat]=useState<ExportFormat>('csv')
+  const [exporting,setExporting]=useState(false)
+  const exportController=useRef<AbortController>()
+  // Rows collected for the last export, reused while the filters stay the same.
+  const exportCache=useRef<{ key:string; collected:CollectedRows }>()
+  const [rows,setRows]=useState<TxRow[]>([]); const [loading,setLoading]=useState(false); const [error,setError]=useState<string|null>(null)
+  const [cursor,setCursor]=useState<FetchCursor|undefined>()
+  const [events,setEvents]=useState<ContractEvent[]>([])
+  const [progress,setProgress]=useState<FetchProgress|undefined>()
+  const [coverage,setCoverage]=useState<CoverageReport>()
+  const [logs,setLogs]=useState<ActivityLog>(()=>emptyActivityLog())
+  // Entries arrive with every RPC call; they are added to the state in batches so a scan does not re-render per call.
+  const pendingLogs=useRef<ActivityLogEntry[]>([])
+  const logFlush=useRef<ReturnType<typeof setTimeout>>()
   const [panelOpen,setPanelOpen]=useState(false)
   const [lastError,setLastError]=useState<string|null>(null)
+  const loadController=useRef<AbortController>()
+  const [follow,setFollow]=useState(false)
+  const [followInterval,setFollowInterval]=useState(15_000)
+  const [freshTxs,setFreshTxs]=useState<Set<string>>(new Set())
+  const followCheckpoint=useRef<FollowCheckpoint>()
+  // Chain head of the last load; the transaction drawer uses it to tell final blocks apart.
+  const [chainHead,setChainHead]=useState<{ network:Network; block:number }>()
+  const [wsUnsupported,setWsUnsupported]=useState(false)
+  const rowsRef=useRef(rows); rowsRef.current=rows
+  const [watchlists,setWatchlists]=useState<Watchlist[]>(()=>loadWatchlists())
+  // While a watchlist is loaded the table holds the merged rows of all its contracts instead of the address filter.
+  const [activeWatchlist,setActiveWatchlist]=useState<Watchlist>()
+  const [watchlistResults,setWatchlistResults]=useState<WatchlistContractResult[]>([])
+  const viewNetwork=activeWatchlist?.network??filters.network
+  const [customNetworks,setCustomNetworks]=useState<NetworkConfig[]>(()=>loadCustomNetworks())
+  const [networksOpen,setNetworksOpen]=useState(false)
+  const networks=useMemo(()=>listNetworks(),[customNetworks])
 
-  const appendLog=(entry:Omit<ActivityLogEntry,'id'>)=>{
-    setLogs(prev=>[...prev,{...entry,id:`${entry.timestamp}-${Math.random().toString(36).slice(2,8)}` }])
+  const appendLog=(entry:Omit<ActivityLogEntry,'id'|'category'>&Partial<Pick<ActivityLogEntry,'category'>>)=>{
+    pendingLogs.current.push({ category:'app', ...entry, id:`${entry.timestamp}-${Math.random().toString(36).slice(2,8)}` })
+    logFlush.current??=setTimeout(()=>{
+      const added=pendingLogs.current; pendingLogs.current=[]; logFlush.current=undefined
+      setLogs(prev=>appendLogEntries(prev,added))
+    },LOG_FLUSH_MS)
   }
-  const logWithTimestamp=(entry:{ level:ActivityLogLevel; message:string })=>{
-    appendLog({ ...entry, timestamp:Date.now() })
+  const loggerFor=(loadId?:string)=>(entry:RetryLogEntry)=>appendLog({ ...entry, loadId, timestamp:Date.now() })
+  const logWithTimestamp=loggerFor()
+  useEffect(()=>()=>clearTimeout(logFlush.current),[])
+
+  const dateBounds=()=>{
+    const from=parseDateToSeconds(filters.fromDate), to=parseDateToSeconds(filters.toDate,{ endOfDay:true })
+    return { ...(from!==undefined&&{ from }), ...(to!==undefined&&{ to }) }
   }
+  const fetchFilters=()=>({ type:filters.type==='ALL'?undefined:filters.type, method:filters.method||undefined, status:filters.status==='ALL'?undefined:filters.status, feeUnit:filters.feeUnit==='ALL'?undefined:filters.feeUnit, minFee:parseFeeBound(filters.minFee,filters.feeUnit), maxFee:parseFeeBound(filters.maxFee,filters.feeUnit) })
 
-  async function load(targetPage:number, reset=false){
-    if(!filters.address) return
-    setLoading(true); setError(null); setPanelOpen(true)
+  // Resolves to the cursor of the next page once this one is in the table, so pages can be loaded one after another.
+  async function load(targetPage:number, reset=false, resumeFrom?:FetchCursor):Promise<FetchCursor|undefined>{
+    if(!filters.address||feeError) return
+    loadController.current?.abort()
+    const controller=new AbortController(); loadController.current=controller
+    const log=loggerFor(nextLoadId('load'))
+    setLoading(true); setError(null); setPanelOpen(true); setProgress(undefined)
+    committedSearch.current=serializeUrlState({ filters, page:targetPage, view })
+    // Rows already in the table before this page; read from the state itself, since consecutive loads share one render.
+    let baseCount:number|undefined
+    if(reset){ setRows([]); setEvents([]); setCoverage(undefined); setActiveWatchlist(undefined); setWatchlistResults([]) }
     const startMessage=reset?'Start: rozpoczynam odświeżone ładowanie danych.':`Start: pobieram stronę ${targetPage}.`
-    appendLog({ level:'info', message:startMessage, timestamp:Date.now() })
+    log({ level:'info', message:startMessage })
     try{
-      const fromSec=parseDateToSeconds(filters.fromDate)
-      const toSec=parseDateToSeconds(filters.toDate,{ endOfDay:true })
-      const params:Parameters<typeof fetchInteractions>[0]={ address:filters.address, network:filters.network, page:targetPage, pageSize, filters:{ type:filters.type==='ALL'?undefined:filters.type, method:filters.method||undefined, status:filters.status==='ALL'?undefined:filters.status, minFee:filters.minFee, maxFee:filters.maxFee }, log:logWithTimestamp }
-      if(fromSec!==undefined) params.from=fromSec
-      if(toSec!==undefined) params.to=toSec
-      const { rows:r, totalEstimated } = await fetchInteractions(params)
-      setRows(prev=> reset? r : [...prev, ...r]); setTotal(totalEstimated)
-      appendLog({ level:'info', message:`Sukces: pobrano ${r.length} rekordów.`, timestamp:Date.now() })
+      const params:Parameters<typeof fetchInteractions>[0]={ address:filters.address, network:filters.network, ...dateBounds(), page:targetPage, pageSize, filters:fetchFilters(), log, signal:controller.signal, collectEvents:true,
+        onBatch:(batch)=>{ if(!controller.signal.aborted) setRows(prev=>{ baseCount??=prev.length; return [...prev, ...batch] }) },
+        onProgress:(next)=>{ if(!controller.signal.aborted) setProgress(next) } }
+      if(!reset) params.cursor=resumeFrom??cursor
+      const { rows:r, cursor:next, range, coverage:report, events:walkedEvents=[] } = await fetchInteractions(params)
+      const seedCheckpoint=range && (reset || !followCheckpoint.current)
+      const seeded=seedCheckpoint? await seedFollowCheckpoint({ network:filters.network, lastBlock:range.latestBlockNumber, log, signal:controller.signal }).catch(()=>undefined) : undefined
+      if(controller.signal.aborted) return
+      if(seeded) followCheckpoint.current=seeded
+      if(range) setChainHead({ network:filters.network, block:range.latestBlockNumber })
+      // Streamed batches were appended unsorted; replace them with the final sorted page.
+      setRows(prev=>[...prev.slice(0,baseCount??=prev.length), ...r]); setCursor(next); setCoverage(report)
+      setEvents(prev=>reset? walkedEvents : [...prev, ...walkedEvents])
+      log({ level:'info', message:`Sukces: pobrano ${r.length} rekordów.` })
       setLastError(null)
+      return next
     }catch(e:any){
+      if(controller.signal.aborted){
+        log({ level:'warn', message:'Anulowano: przerwano ładowanie danych.' })
+        return
+      }
       const message=e?.message||'Load failed'
       setError(message)
       setLastError(message)
-      appendLog({ level:'error', message:`Błąd: ${message}`, timestamp:Date.now() })
+      log({ level:'error', message:`Błąd: ${message}` })
       setPanelOpen(true)
-    } finally{ setLoading(false) }
+    } finally{ if(loadController.current===controller){ loadController.current=undefined; setLoading(false) } }
+  }
+
+  async function loadWatchlist(watchlist:Watchlist, more=false){
+    if(feeError) return
+    loadController.current?.abort()
+    const controller=new AbortController(); loadController.current=controller
+    const log=loggerFor(nextLoadId('watchlist'))
+    setLoading(true); setError(null); setPanelOpen(true); setProgress(undefined)
+    if(!more){ setActiveWatchlist(watchlist); setWatchlistResults([]); setRows([]); setEvents([]); setCursor(undefined); setCoverage(undefined); setFollow(false) }
+    log({ level:'info', message:more?`Watchlista ${watchlist.name}: pobieram kolejną stronę.`:`Watchlista ${watchlist.name}: ładuję ${watchlist.contracts.length} kontraktów.` })
+    try{
+      const cursors=more? Object.fromEntries(watchlistResults.map(r=>[r.address,r.cursor])) : undefined
+      const results=await fetchWatchlist({ watchlist, cursors, ...dateBounds(), pageSize, filters:fetchFilters(), log, signal:controller.signal })
+      if(controller.signal.aborted) return
+      // Contracts that were already complete keep their rows and drop out of further paging.
+      const merged=more? watchlistResults.map(prev=>{ const next=results.find(r=>r.address===prev.address); return next? { ...next, rows:[...prev.rows, ...next.rows] } : { ...prev, cursor:undefined, hasMore:false } }) : results
+      setWatchlistResults(merged); setRows(mergeWatchlistRows(merged))
+      const failed=results.filter(r=>r.error).length
+      log({ level:failed?'warn':'info', message:`Watchlista ${watchlist.name}: pobrano ${results.reduce((s,r)=>s+r.rows.length,0)} rekordów${failed?`, ${failed} kontraktów z błędem`:''}.` })
+      setLastError(null)
+    }catch(e:any){
+      if(controller.signal.aborted){
+        log({ level:'warn', message:'Anulowano: przerwano ładowanie watchlisty.' })
+        return
+      }
+      const message=e?.message||'Load failed'
+      setError(message); setLastError(message)
+      log({ level:'error', message:`Błąd: ${message}` })
+    } finally{ if(loadController.current===controller){ loadController.current=undefined; setLoading(false) } }
+  }
+  const updateWatchlists=(next:Watchlist[])=>{ setWatchlists(next); saveWatchlists(next) }
+  const updateNetworks=(next:NetworkConfig[])=>{
+    // A deleted or re-pointed network may come back as another chain under the same id.
+    const stale=staleNetworkIds(customNetworks,next)
+    saveCustomNetworks(next); setCustomNetworks(next)
+    if(stale.length){
+      exportCache.current=undefined
+      Promise.all(stale.map(clearNetworkData))
+        .then(()=>logWithTimestamp({ level:'info', message:`Cache: usunięto dane sieci ${stale.join(', ')}.` }))
+        .catch(e=>logWithTimestamp({ level:'error', message:`Cache: nie udało się usunąć danych sieci ${stale.join(', ')} (${e?.message||e}).` }))
+    }
+    if(!isKnownNetwork(filters.network)) setFilters({ ...filters, network:'mainnet' })
+  }
+
+  const cancelLoad=()=>{ loadController.current?.abort(); exportController.current?.abort() }
+
+  async function runExport(kind:ExportKind){
+    if(!filters.address||exporting||feeError) return
+    const query=withoutPage(serializeUrlState({ filters, page:1, view }))
+    const controller=new AbortController(); exportController.current=controller
+    const log=loggerFor(nextLoadId('export'))
+    setExporting(true)
+    try{
+      let collected=exportCache.current?.key===query? exportCache.current.collected : undefined
+      if(!collected){
+        log({ level:'info', message:'Eksport: pobieram wszystkie transakcje pasujące do filtrów.' })
+        collected=await collectAllRows({ address:filters.address, network:filters.network, ...dateBounds(), filters:fetchFilters(), log, signal:controller.signal,
+          onPage:(n,count)=>log({ level:'info', message:`Eksport: strona ${n}, ${count} transakcji.` }) })
+        exportCache.current={ key:query, collected }
+      }
+      const { address, network, ...exportFilters }=Object.fromEntries(new URLSearchParams(query))
+      downloadFile(buildExport(kind, exportFormat, collected, { network:filters.network, address:filters.address, filters:exportFilters }))
+      log({ level:collected.complete?'info':'warn', message:`Eksport: zapisano ${kind}.${exportFormat} (${collected.rows.length} transakcji${collected.complete?'':', skan niepełny'}).` })
+    }catch(e:any){
+      log({ level:controller.signal.aborted?'warn':'error', message:controller.signal.aborted? 'Eksport: anulowano.' : `Eksport: ${e?.message||e}` })
+    }finally{
+      if(exportController.current===controller) exportController.current=undefined
+      setExporting(false)
+    }
+  }
+
+  async function clearCache(){
+    try{
+      const { entries } = await getRpcCacheStats()
+      await clearRpcCache(); clearScanWatermarks()
+      appendLog({ level:'info', message:`Cache: usunięto ${entries} wpisów i zapisane postępy skanu bloków.`, timestamp:Date.now() })
+    }catch(e:any){
+      appendLog({ level:'error', message:`Cache: nie udało się wyczyścić (${e?.message||e}).`, timestamp:Date.now() })
+    }
   }
 
-  useEffect(()=>{ setPage(1) },[filters.address,filters.network,filters.fromDate,filters.toDate])
+  useEffect(()=>{ setPage(1); cancelLoad() },[filters.address,filters.network,filters.fromDate,filters.toDate])
+  useEffect(()=>{
+    if(autoLoad===undefined) return
+    setAutoLoad(undefined); setPage(autoLoad)
+    // The table holds every page up to the one in the link, as if "Load more" had been used.
+    const pages=autoLoad
+    void (async()=>{
+      let next=await load(1,true)
+      for(let n=2; n<=pages && next; n++) next=await load(n,false,next)
+    })()
+  },[autoLoad])
+
+  // Mirror the state into the query string. Editing after a load keeps the loaded state as its own history entry.
+  useEffect(()=>{
+    const search=serializeUrlState({ filters, page, view })
+    if(search===window.location.search) return
+    const url=`${window.location.pathname}${search}${window.location.hash}`
+    const keepEntry=window.location.search===committedSearch.current && withoutPage(search)!==withoutPage(window.location.search)
+    if(keepEntry) window.history.pushState(null,'',url); else window.history.replaceState(null,'',url)
+  },[filters,page,view])
+  useEffect(()=>{
+    const onPopState=()=>{
+      const state=parseUrlState(window.location.search)
+      committedSearch.current=window.location.search
+      setFilters({ ...defaultFilters(), ...state.filters }); setView(state.view??'transactions')
+      if(state.filters.address) setAutoLoad(state.page??1); else { cancelLoad(); setRows([]); setCursor(undefined) }
+    }
+    window.addEventListener('popstate',onPopState)
+    return ()=>window.removeEventListener('popstate',onPopState)
+  },[])
+  useEffect(()=>{ setFollow(false); setSelectedCaller(undefined); setSelectedTx(undefined); followCheckpoint.current=undefined },[filters.address,filters.network])
+  useEffect(()=>{ setWsUnsupported(false) },[filters.network])
+
+  // Follow mode: poll for blocks produced since the last scan, paused while the tab is hidden.
+  // With a WebSocket endpoint configured, new events are pushed instead and polling only catches up after (re)connects.
+  useEffect(()=>{
+    if(!follow||!filters.address||activeWatchlist) return
+    const wsUrl=wsUnsupported? undefined : getWebSocketUrl(filters.network)
+    const controller=new AbortController()
+    const log=loggerFor(nextLoadId('follow'))
+    let timer:ReturnType<typeof setTimeout>|undefined
+    let polling=false
+    const schedule=()=>{ clearTimeout(timer); timer=setTimeout(tick,followInterval) }
+    const tick=async()=>{
+      if(polling||document.visibilityState==='hidden') return
+      const checkpoint=followCheckpoint.current
+      if(!checkpoint){ schedule(); return }
+      polling=true
+      try{
+        const update=await pollFollow({ address:filters.address, network:filters.network, filters:fetchFilters(), log, signal:controller.signal, checkpoint })
+        if(controller.signal.aborted) return
+        followCheckpoint.current=update.checkpoint
+        const merged=mergeFollowRows(rowsRef.current, update)
+        setRows(merged.rows); setFreshTxs(new Set(merged.added))
+        if(merged.added.length||merged.removed) log({ level:'info', message:`Follow: +${merged.added.length} nowych, -${merged.removed} po reorgu (blok ${update.checkpoint.lastBlock}).` })
+      }catch(e:any){
+        if(!controller.signal.aborted) log({ level:'error', message:`Follow: ${e?.message||e}` })
+      }finally{
+        polling=false
+        if(!controller.signal.aborted&&!wsUrl) schedule()
+      }
+    }
+    const subscription=wsUrl? new EventSubscription({
+      url:wsUrl, address:filters.address, network:filters.network, filters:fetchFilters(), log,
+      onRows:(pushed)=>{
+        const merged=mergeFollowRows(rowsRef.current, { rows:pushed, rescannedFrom:Number.MAX_SAFE_INTEGER })
+        if(!merged.added.length) return
+        setRows(merged.rows); setFreshTxs(new Set(merged.added))
+        log({ level:'info', message:`Follow (ws): +${merged.added.length} nowych.` })
+      },
+      onHead:({ blockNumber, blockHash })=>{
+        const checkpoint=followCheckpoint.current
+        if(!checkpoint||blockNumber<=checkpoint.lastBlock) return
+        const hashes=Object.fromEntries(Object.entries(checkpoint.hashes).filter(([n])=>Number(n)>blockNumber-FOLLOW_REORG_DEPTH))
+        followCheckpoint.current={ lastBlock:blockNumber, hashes:{ ...hashes, [blockNumber]:blockHash } }
+      },
+      onReorg:(fromBlock)=>{
+        const merged=mergeFollowRows(rowsRef.current, { rows:[], rescannedFrom:fromBlock })
+        setRows(merged.rows)
+        log({ level:'warn', message:`Follow (ws): reorg od bloku ${fromBlock}, -${merged.removed} transakcji.` })
+      },
+      onStatus:(status)=>{
+        if(status==='subscribed') tick()
+        if(status==='unsupported'){ log({ level:'warn', message:'Follow: WebSocket niedostępny, przełączam na polling.' }); setWsUnsupported(true) }
+      }
+    }) : undefined
+    const onVisibility=()=>{ if(document.visibilityState==='visible'){ clearTimeout(timer); tick() } }
+    document.addEventListener('visibilitychange',onVisibility)
+    if(subscription) subscription.start(); else schedule()
+    return ()=>{ controller.abort(); clearTimeout(timer); subscription?.stop(); document.removeEventListener('visibilitychange',onVisibility) }
+  },[follow,followInterval,filters,wsUnsupported,activeWatchlist])
+  // A cursor only resumes the scan it was created for; any filter change needs a fresh load.
+  useEffect(()=>{ setCursor(undefined) },[filters])
 
   const metrics = useMemo(()=>kpis(rows),[rows])
+  const comparison = useMemo(()=>{
+    if(!activeWatchlist) return undefined
+    const perContract=contractKpis(rows, watchlistResults.map(r=>r.address))
+    return { contracts:watchlistResults.map((r,i)=>({ ...perContract[i], label:r.label, error:r.error, hasMore:r.hasMore })), shared:sharedCallers(rows) }
+  },[rows,watchlistResults,activeWatchlist])
+  const contractLabel = useMemo(()=>{
+    if(!activeWatchlist) return undefined
+    const labels=new Map(activeWatchlist.contracts.map(c=>[addrKey(c.address),c.label||fmtAddr(c.address)]))
+    return (address:string)=>labels.get(addrKey(address))??fmtAddr(address)
+  },[activeWatchlist])
   const top = useMemo(()=>topCallers(rows,100),[rows])
-  const methods = useMemo(()=>methodCounts(rows,20),[rows])
+  const activity = useMemo(()=>{ const { from, to }=dateBounds(); return activityBuckets(rows,{ size:pickBucketSize(from,to), stackBy, from, to }) },[rows,stackBy,filters.fromDate,filters.toDate])
+  const failures = useMemo(()=>{ const { from, to }=dateBounds(); return failureGroups(rows,{ size:pickBucketSize(from,to), from, to }) },[rows,filters.fromDate,filters.toDate])
+  const heatmap = useMemo(()=>{ const { from, to }=dateBounds(); return methodBuckets(rows,{ size:pickBucketSize(from,to), from, to }) },[rows,filters.fromDate,filters.toDate])
+  // Brushing the chart or clicking a heatmap cell narrows the filters and reloads.
+  const narrowTo=(from:number,to:number,changes:Partial<Filters>={})=>{
+    const day=(ts:number)=>new Date(ts*1000).toISOString().slice(0,10)
+    setFilters({ ...filters, ...changes, fromDate:day(from), toDate:day(to) }); setAutoLoad(1)
+  }
 
   return (<div>
     <div className="sticky top-0 z-30 bg-white/80 dark:bg-slate-950/80 backdrop-blur border-b border-slate-200 dark:border-slate-800">
       <div className="container grid md:grid-cols-2 gap-3 py-3">
         <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
           <input className="col-span-2 md:col-span-3 w-full px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-900 font-mono" placeholder="0x… contract address" value={filters.address} onChange={e=>setFilters({...filters,address:e.target.value})}/>
-          <select className="px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-900" value={filters.network} onChange={e=>setFilters({...filters,network:e.target.value as Network})}><option value="mainnet">Mainnet</option><option value="sepolia">Sepolia</option></select>
+          <select className="px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-900" value={filters.network} onChange={e=>setFilters({...filters,network:e.target.value as Network})}>{networks.map(n=> <option key={n.id} value={n.id}>{n.name}</option>)}</select>
           <input type="date" className="px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-900" value={filters.fromDate} onChange={e=>setFilters({...filters,fromDate:e.target.value})}/>
           <input type="date" className="px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-900" value={filters.toDate} onChange={e=>setFilters({...filters,toDate:e.target.value})}/>
         </div>
-        <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-center">
+        <div className="grid grid-cols-2 md:grid-cols-7 gap-2 items-center">
           <select className="px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-900" value={filters.type} onChange={e=>setFilters({...filters,type:e.target.value as any})}>
             {['ALL','INVOKE','DECLARE','DEPLOY','L1_HANDLER'].map(t=> <option key={t} value={t}>{t}</option>)}
           </select>
@@ -80,18 +368,24 @@ export default function App(){
           <select className="px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-900" value={filters.status} onChange={e=>setFilters({...filters,status:e.target.value as any})}>
             {['ALL','ACCEPTED','REJECTED'].map(s=> <option key={s} value={s}>{s}</option>)}
           </select>
-          <input type="number" inputMode="numeric" className="px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-900" placeholder="min fee" value={filters.minFee??''} onChange={e=>setFilters({...filters,minFee:e.target.value?Number(e.target.value):undefined})}/>
-          <input type="number" inputMode="numeric" className="px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-900" placeholder="max fee" value={filters.maxFee??''} onChange={e=>setFilters({...filters,maxFee:e.target.value?Number(e.target.value):undefined})}/>
-          <button onClick={()=>{ setPage(1); load(1,true) }} className="px-4 py-2 rounded-lg bg-accent text-white">Load data</button>
+          <select className="px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-900" value={filters.feeUnit} onChange={e=>setFilters({...filters,feeUnit:e.target.value as any})}>
+            <option value="ALL">ETH + STRK</option>
+            {FEE_UNITS.map(u=> <option key={u} value={u}>{FEE_TOKENS[u].symbol}</option>)}
+          </select>
+          <input inputMode="decimal" aria-invalid={!!feeError} disabled={filters.feeUnit==='ALL'&&!filters.minFee} title={filters.feeUnit==='ALL'?'Pick ETH or STRK first':undefined} className={`px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-900 disabled:opacity-50 ${feeError?'ring-1 ring-red-500':''}`} placeholder="min fee" value={filters.minFee??''} onChange={e=>setFilters({...filters,minFee:e.target.value||undefined})}/>
+          <input inputMode="decimal" aria-invalid={!!feeError} disabled={filters.feeUnit==='ALL'&&!filters.maxFee} title={filters.feeUnit==='ALL'?'Pick ETH or STRK first':undefined} className={`px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-900 disabled:opacity-50 ${feeError?'ring-1 ring-red-500':''}`} placeholder="max fee" value={filters.maxFee??''} onChange={e=>setFilters({...filters,maxFee:e.target.value||undefined})}/>
+          <button onClick={()=>{ setPage(1); load(1,true) }} disabled={!!feeError} className="px-4 py-2 rounded-lg bg-accent text-white disabled:opacity-50">Load data</button>
+          {feeError && <p role="alert" className="col-span-full text-sm text-red-600 dark:text-red-400">{feeError}</p>}
         </div>
       </div>
     </div>
 
     <main className="container py-6 grid md:grid-cols-5 gap-6">
       <section className="md:col-span-2 space-y-6">
-        <KpiCards total={metrics.total} callers={metrics.callers} avgFee={metrics.avgFee} lastTs={metrics.lastTs}/>
-        <TopCallers items={top}/>
-        <MethodsHeatmap items={methods}/>
+        <KpiCards total={metrics.total} callers={metrics.callers} fees={metrics.fees} lastTs={metrics.lastTs}/>
+        <ActivityChart buckets={activity.buckets} series={activity.series} step={activity.step} stackBy={stackBy} onStackBy={setStackBy} onBrush={narrowTo}/>
+        <TopCallers items={top} onSelect={setSelectedCaller}/>
+        <MethodsHeatmap methods={heatmap.methods} starts={heatmap.starts} cells={heatmap.cells} max={heatmap.max} step={heatmap.step} onSelect={(method,from,to)=>narrowTo(from,to,{ method:method===UNKNOWN_METHOD? undefined : method })}/>
       </section>
       <section className="md:col-span-3 space-y-4">
         {error && (
@@ -100,11 +394,33 @@ export default function App(){
             <button onClick={()=>setPanelOpen(true)} className="text-sm font-medium underline">Pokaż log</button>
           </div>
         )}
-        <div className="rounded-2xl border border-slate-200 dark:border-slate-800"><TxTable rows={rows}/></div>
-        {!loading && rows.length>0 && <div className="flex justify-center py-4"><button onClick={()=>{ const next=page+1; setPage(next); load(next) }} className="px-4 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700">Load more</button></div>}
-        {loading && <div className="text-sm text-slate-500">Loading…</div>}
+        <div className="flex flex-wrap justify-end gap-2 text-sm">
+          <div className="mr-auto flex gap-1 rounded-lg bg-slate-100 dark:bg-slate-800 p-1">{VIEWS.map(v=> <button key={v} onClick={()=>setView(v)} className={`px-3 py-0.5 rounded-md ${view===v?'bg-white dark:bg-slate-950 shadow-sm':'text-slate-500'}`}>{VIEW_LABELS[v]}{v==='failures'&&failures.total>0&&` (${failures.total})`}</button>)}</div>
+          <label className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800"><input type="checkbox" checked={follow} onChange={e=>setFollow(e.target.checked)}/>Follow</label>
+          <select aria-label="follow interval" className="px-2 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800" value={followInterval} onChange={e=>setFollowInterval(Number(e.target.value))}>
+            {FOLLOW_INTERVALS.map(ms=> <option key={ms} value={ms}>{ms/1000}s</option>)}
+          </select>
+          <button onClick={()=>setPanelOpen(true)} className="px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700">Activity log</button>
+          <WatchlistMenu watchlists={watchlists} networks={networks} active={activeWatchlist?.id} busy={loading} onChange={updateWatchlists} onLoad={w=>loadWatchlist(w)}/>
+          <ExportMenu format={exportFormat} disabled={!filters.address||!!activeWatchlist} busy={exporting} onFormat={setExportFormat} onExport={runExport}/>
+          <button onClick={()=>setNetworksOpen(true)} className="px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700">Networks</button>
+          <button onClick={clearCache} className="px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700">Clear cache</button>
+        </div>
+        {activeWatchlist && comparison && <div className="space-y-3"><div className="flex items-center justify-between text-sm"><span>Watchlist <span className="font-semibold">{activeWatchlist.name}</span> · {activeWatchlist.network}</span><button onClick={()=>{ cancelLoad(); setActiveWatchlist(undefined); setWatchlistResults([]); setRows([]) }} className="text-slate-500 hover:underline">Close</button></div>
+          <ContractComparison network={activeWatchlist.network} contracts={comparison.contracts} shared={comparison.shared} labelOf={contractLabel!} onCaller={setSelectedCaller}/></div>}
+        {view==='transactions' && !loading && !activeWatchlist && coverage && <CoverageBanner coverage={coverage} shown={rows.length}/>}
+        {view==='transactions' && <div className="rounded-2xl border border-slate-200 dark:border-slate-800"><TxTable rows={rows} highlighted={freshTxs} onCaller={setSelectedCaller} onSelect={r=>setSelectedTx(r.txHash)} contractLabel={contractLabel}/></div>}
+        {view==='events' && <EventsPanel events={events} onSelectTx={setSelectedTx}/>}
+        {view==='failures' && <FailuresPanel groups={failures.groups} starts={failures.starts} step={failures.step} total={failures.total} onSelectTx={setSelectedTx}/>}
+        {!loading && !activeWatchlist && cursor && <div className="flex justify-center py-4"><button onClick={()=>{ const next=page+1; setPage(next); load(next) }} className="px-4 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700">Load more</button></div>}
+        {!loading && activeWatchlist && watchlistResults.some(r=>r.hasMore) && <div className="flex justify-center py-4"><button onClick={()=>loadWatchlist(activeWatchlist,true)} className="px-4 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700">Load more</button></div>}
+        {loading && progress && <ScanProgress progress={progress}/>}
+        {loading && <div className="flex items-center gap-3 text-sm text-slate-500">Loading… <button onClick={cancelLoad} className="px-3 py-1 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700">Cancel</button></div>}
       </section>
     </main>
-    <ActivityPanel open={panelOpen} logs={logs} lastError={lastError} onClose={()=>setPanelOpen(false)}/>
+    {selectedTx && <TxDetailDrawer txHash={selectedTx} network={viewNetwork} latestBlockNumber={chainHead?.network===viewNetwork? chainHead.block : undefined} log={logWithTimestamp} onClose={()=>setSelectedTx(undefined)}/>}
+    {selectedCaller && <CallerProfile address={selectedCaller} network={viewNetwork} rows={rows} onClose={()=>setSelectedCaller(undefined)}/>}
+    {networksOpen && <NetworkSettings networks={customNetworks} log={logWithTimestamp} onChange={updateNetworks} onClose={()=>setNetworksOpen(false)}/>}
+    <ActivityPanel open={panelOpen} log={logs} lastError={lastError} loading={loading} onCancel={cancelLoad} onClose={()=>setPanelOpen(false)}/>
   </div>)
 }
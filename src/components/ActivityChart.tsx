@@ -0,0 +1,41 @@
+import { useState } from 'react'
+import { ActivityBucket, StackBy } from '../lib/aggregations'
+import { fmtBucket, fmtFee, fmtNum } from '../lib/format'
+import { FEE_UNITS } from '../lib/fees'
+
+const COLORS=['#0E7AFE','#14B8A6','#F59E0B','#8B5CF6','#EC4899','#94A3B8']
+const W=600, H=160, PAD=4
+
+type ActivityChartProps = {
+  buckets:ActivityBucket[]
+  series:string[]
+  step:number
+  stackBy:StackBy
+  onStackBy:(stackBy:StackBy)=>void
+  /** Called with the brushed range in unix seconds (inclusive). */
+  onBrush:(from:number,to:number)=>void
+}
+
+export default function ActivityChart({ buckets, series, step, stackBy, onStackBy, onBrush }:ActivityChartProps){
+  const [brush,setBrush]=useState<{ a:number; b:number }|null>(null)
+  const max=Math.max(1,...buckets.map(b=>Object.values(b.series).reduce((sum,v)=>sum+v,0))); const bw=buckets.length? (W-PAD*2)/buckets.length : 0
+  const indexAt=(e:React.PointerEvent<SVGSVGElement>)=>{ const box=e.currentTarget.getBoundingClientRect(); const x=((e.clientX-box.left)/box.width)*W; return Math.max(0,Math.min(buckets.length-1,Math.floor((x-PAD)/(bw||1)))) }
+  const finishBrush=()=>{ if(brush&&buckets.length){ const lo=Math.min(brush.a,brush.b), hi=Math.max(brush.a,brush.b); if(hi>lo) onBrush(buckets[lo].start, buckets[hi].start+step-1) } setBrush(null) }
+  const rejected=buckets.map((b,i)=>`${PAD+i*bw+bw/2},${H-PAD-b.rejectedShare*(H-PAD*2)}`).join(' ')
+  return (<div className="rounded-2xl border border-slate-200 dark:border-slate-800 p-3 space-y-2">
+    <div className="flex items-center justify-between gap-2"><h3 className="text-sm font-semibold">Activity over time</h3>
+      <select aria-label="stack by" className="text-xs px-2 py-1 rounded-lg bg-slate-100 dark:bg-slate-800" value={stackBy} onChange={e=>onStackBy(e.target.value as StackBy)}><option value="method">By method</option><option value="type">By tx type</option></select></div>
+    {buckets.length===0? <p className="text-xs text-slate-500">No data loaded.</p> : <>
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-40 select-none touch-none cursor-crosshair" onPointerDown={e=>{ const i=indexAt(e); setBrush({ a:i, b:i }) }} onPointerMove={e=>{ if(brush) setBrush({ ...brush, b:indexAt(e) }) }} onPointerUp={finishBrush} onPointerLeave={()=>setBrush(null)}>
+        {buckets.map((b,i)=>{ let y=H-PAD; return (<g key={b.start}><title>{`${fmtBucket(b.start,step)}\n${b.count} calls · ${b.callers} callers · ${(b.rejectedShare*100).toFixed(1)}% rejected\n${FEE_UNITS.filter(u=>b.fees[u]>0n).map(u=>fmtFee(b.fees[u],u)).join(' + ')||'no fees'}`}</title>
+          <rect x={PAD+i*bw} y={PAD} width={bw} height={H-PAD*2} fill="transparent"/>
+          {series.map((s,si)=>{ const v=b.series[s]||0; if(!v) return null; const h=(v/max)*(H-PAD*2); y-=h; return <rect key={s} x={PAD+i*bw+bw*0.1} y={y} width={bw*0.8} height={h} fill={COLORS[si%COLORS.length]}/> })}</g>) })}
+        {buckets.length>1 && <polyline points={rejected} fill="none" stroke="#EF4444" strokeWidth={1.5} strokeDasharray="4 3"/>}
+        {brush && <rect x={PAD+Math.min(brush.a,brush.b)*bw} y={0} width={(Math.abs(brush.a-brush.b)+1)*bw} height={H} fill="#0E7AFE" opacity={0.15}/>}
+      </svg>
+      <div className="flex flex-wrap justify-between gap-2 text-xs text-slate-500"><span>{fmtBucket(buckets[0].start,step)}</span><span>max {fmtNum(max)} / {step<86400?'h':'d'}</span><span>{fmtBucket(buckets[buckets.length-1].start,step)}</span></div>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">{series.map((s,si)=> <span key={s} className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm" style={{background:COLORS[si%COLORS.length]}}/>{s}</span>)}<span className="flex items-center gap-1 text-red-500">- - rejected %</span></div>
+      <p className="text-xs text-slate-500">Drag across the chart to narrow the date range.</p>
+    </>}
+  </div>)
+}
@@ -1,25 +1,86 @@
-import { ActivityLogEntry } from '../types'
+import { useEffect, useMemo, useState } from 'react'
+import { ACTIVITY_LOG_CATEGORIES, ACTIVITY_LOG_LEVELS, ActivityLog, buildLogExport, filterLogEntries, summarizeLatency } from '../lib/activityLog'
+import { downloadFile } from '../lib/export'
+import { getLimiterStats } from '../lib/rpcTransport'
+import { ActivityLogCategory, ActivityLogLevel } from '../types'
+
+const LIMITER_REFRESH_MS=500
+// Only the newest matching entries are rendered; the export holds all retained ones.
+const MAX_RENDERED_ENTRIES=300
+
+function LimiterStats(){
+  const [stats,setStats]=useState(()=>getLimiterStats())
+  useEffect(()=>{ const timer=setInterval(()=>setStats(getLimiterStats()),LIMITER_REFRESH_MS); return ()=>clearInterval(timer) },[])
+  if(!stats.length) return null
+  return (<div className="border-b border-slate-200 dark:border-slate-800 px-5 py-3 space-y-1 text-xs text-slate-500">
+    {stats.map((s,i)=>(<div key={`${s.url}-${i}`} className="flex flex-wrap items-center gap-x-3">
+      <span className="font-mono text-slate-700 dark:text-slate-300">{s.label}</span>
+      <span>{s.requestsPerSecond.toFixed(2)} req/s{s.adaptive&&' (adaptive)'}</span>
+      <span>in flight {s.inFlight}/{s.maxConcurrency}</span>
+      <span>queued {s.queued.high+s.queued.normal+s.queued.bulk}{(s.queued.high||s.queued.bulk)>0&&` (high ${s.queued.high} · normal ${s.queued.normal} · bulk ${s.queued.bulk})`}</span>
+      {s.rateLimited>0 && <span className="text-amber-600 dark:text-amber-400">429 × {s.rateLimited}</span>}
+      {s.pausedUntil && <span className="text-amber-600 dark:text-amber-400">paused {Math.ceil((s.pausedUntil-Date.now())/1000)}s</span>}
+    </div>))}
+  </div>)
+}
+
+function LatencySummary({ log }:{ log:ActivityLog }){
+  const summary=useMemo(()=>summarizeLatency(log.entries),[log])
+  if(!summary.length) return null
+  return (<div className="border-b border-slate-200 dark:border-slate-800 px-5 py-3 max-h-40 overflow-y-auto">
+    <table className="w-full text-xs text-slate-500">
+      <thead><tr className="text-left"><th className="font-medium">Method</th><th className="font-medium text-right">Calls</th><th className="font-medium text-right">p50</th><th className="font-medium text-right">p95</th><th className="font-medium text-right">Errors</th></tr></thead>
+      <tbody>{summary.map(m=>(<tr key={m.method}>
+        <td className="font-mono text-slate-700 dark:text-slate-300">{m.method}</td><td className="text-right">{m.count}</td><td className="text-right">{m.p50}ms</td><td className="text-right">{m.p95}ms</td>
+        <td className={`text-right ${m.errors>0?'text-amber-600 dark:text-amber-400':''}`}>{m.errors}</td>
+      </tr>))}</tbody>
+    </table>
+  </div>)
+}
+
+const toggle=<T,>(list:T[], value:T)=>list.includes(value)? list.filter(v=>v!==value) : [...list, value]
 
 type ActivityPanelProps = {
   open:boolean
-  logs:ActivityLogEntry[]
+  log:ActivityLog
   lastError:string|null
+  loading?:boolean
+  onCancel?:()=>void
   onClose:()=>void
 }
 
-export default function ActivityPanel({ open, logs, lastError, onClose }:ActivityPanelProps){
+export default function ActivityPanel({ open, log, lastError, loading, onCancel, onClose }:ActivityPanelProps){
+  const [levels,setLevels]=useState<ActivityLogLevel[]>(ACTIVITY_LOG_LEVELS)
+  const [categories,setCategories]=useState<ActivityLogCategory[]>(ACTIVITY_LOG_CATEGORIES)
+  const [query,setQuery]=useState('')
+  const filtered=useMemo(()=>filterLogEntries(log.entries,{ levels, categories, query }),[log,levels,categories,query])
   if(!open) return null
+  const shown=filtered.slice(-MAX_RENDERED_ENTRIES)
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/60 p-4">
       <div className="w-full max-w-2xl rounded-2xl bg-white dark:bg-slate-900 shadow-xl border border-slate-200 dark:border-slate-800">
         <div className="flex items-center justify-between px-5 py-4 border-b border-slate-200 dark:border-slate-800">
           <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Activity log</h2>
-          <button onClick={onClose} className="text-sm text-slate-500 hover:text-slate-800 dark:hover:text-slate-200">Close</button>
+          <div className="flex items-center gap-4">
+            <button onClick={()=>downloadFile(buildLogExport(log))} disabled={!log.entries.length} className="text-sm text-slate-500 hover:text-slate-800 dark:hover:text-slate-200 disabled:opacity-40">Export JSON</button>
+            {loading && onCancel && <button onClick={onCancel} className="text-sm font-medium text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300">Cancel</button>}
+            <button onClick={onClose} className="text-sm text-slate-500 hover:text-slate-800 dark:hover:text-slate-200">Close</button>
+          </div>
+        </div>
+        <LimiterStats/>
+        <LatencySummary log={log}/>
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 border-b border-slate-200 dark:border-slate-800 px-5 py-2 text-xs text-slate-500">
+          {ACTIVITY_LOG_LEVELS.map(l=>(<label key={l} className="flex items-center gap-1"><input type="checkbox" checked={levels.includes(l)} onChange={()=>setLevels(toggle(levels,l))}/>{l}</label>))}
+          <span className="text-slate-300 dark:text-slate-700">|</span>
+          {ACTIVITY_LOG_CATEGORIES.map(c=>(<label key={c} className="flex items-center gap-1"><input type="checkbox" checked={categories.includes(c)} onChange={()=>setCategories(toggle(categories,c))}/>{c}</label>))}
+          <input value={query} onChange={e=>setQuery(e.target.value)} placeholder="Search" aria-label="Search log" className="ml-auto w-36 rounded-md border border-slate-200 dark:border-slate-700 bg-transparent px-2 py-0.5"/>
         </div>
         <div className="max-h-96 overflow-y-auto px-5 py-4 space-y-3 text-sm">
-          {logs.length===0 && <p className="text-slate-500">No activity yet.</p>}
-          {logs.map(entry=> {
+          {log.entries.length===0 && <p className="text-slate-500">No activity yet.</p>}
+          {log.entries.length>0 && filtered.length===0 && <p className="text-slate-500">No entries match the filters.</p>}
+          {(filtered.length>shown.length||log.dropped>0) && <p className="text-xs text-slate-500">{filtered.length>shown.length&&`Showing the latest ${shown.length} of ${filtered.length} entries. `}{log.dropped>0&&`${log.dropped} older entries were dropped.`}</p>}
+          {shown.map(entry=> {
             const color = entry.level==='error'
               ? 'bg-red-500'
               : entry.level==='warn'
@@ -31,7 +92,7 @@ export default function ActivityPanel({ open, logs, lastError, onClose }:Activit
                 <span className={`mt-0.5 h-2.5 w-2.5 rounded-full ${color}`}></span>
                 <div>
                   <p className="font-medium text-slate-900 dark:text-slate-100">{new Date(entry.timestamp).toLocaleTimeString()} – {entry.message}</p>
-                  <p className="text-xs text-slate-500">{entry.level.toUpperCase()}</p>
+                  <p className="text-xs text-slate-500">{[entry.level.toUpperCase(), entry.category, entry.method, entry.endpoint, entry.attempt&&entry.attempt>1&&`attempt ${entry.attempt}`, entry.durationMs!=null&&`${entry.durationMs}ms`, entry.loadId].filter(Boolean).join(' · ')}</p>
                 </div>
               </div>
             )
@@ -0,0 +1,33 @@
+import { callerProfile } from '../lib/aggregations'
+import { addrLink } from '../lib/explorer'
+import { FEE_TOKENS, FEE_UNITS } from '../lib/fees'
+import { fmtBucket, fmtFee, fmtNum, fmtTime } from '../lib/format'
+import { Network, TxRow } from '../types'
+import TxTable from './TxTable'
+
+type CallerProfileProps = {
+  address:string
+  network:Network
+  rows:TxRow[]
+  onClose:()=>void
+}
+
+export default function CallerProfile({ address, network, rows, onClose }:CallerProfileProps){
+  const p=callerProfile(rows,address)
+  const peak=Math.max(1,...p.timeline.buckets.map(b=>b.count))
+  const methodTotal=p.methods.reduce((s,m)=>s+m.count,0)||1
+  const items=[{label:'Interakcje',value:fmtNum(p.total)},{label:'Revert rate',value:`${(p.revertRate*100).toFixed(1)}%`},{label:'Pierwsza interakcja',value:p.first?fmtTime(p.first):'—'},{label:'Ostatnia interakcja',value:p.last?fmtTime(p.last):'—'},
+    ...FEE_UNITS.filter(u=>p.fees[u].count).map(u=>({label:`Suma fee (${FEE_TOKENS[u].symbol})`,value:fmtFee(p.fees[u].total,u)}))]
+  return (<div className="fixed inset-0 z-40 flex justify-end bg-slate-950/40" onClick={onClose}>
+    <aside className="w-full max-w-3xl h-full overflow-y-auto bg-white dark:bg-slate-900 border-l border-slate-200 dark:border-slate-800 p-5 space-y-5" onClick={e=>e.stopPropagation()}>
+      <div className="flex items-start justify-between gap-4"><div className="min-w-0"><h2 className="text-lg font-semibold">Caller</h2><div className="font-mono text-sm break-all">{address}</div>{addrLink(network,address) && <a className="text-sm text-accent hover:underline" target="_blank" href={addrLink(network,address)}>Open in explorer</a>}</div>
+        <button onClick={onClose} className="text-sm text-slate-500 hover:text-slate-800 dark:hover:text-slate-200">Close</button></div>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">{items.map(it=>(<div key={it.label} className="rounded-2xl p-3 bg-slate-50 dark:bg-slate-900/60 border border-slate-200 dark:border-slate-800"><div className="text-xs text-slate-500">{it.label}</div><div className="text-lg font-semibold mt-1">{it.value}</div></div>))}</div>
+      <div><h3 className="text-sm font-semibold mb-2">Activity</h3>
+        <div className="flex items-end gap-px h-16">{p.timeline.buckets.map(b=>(<div key={b.start} className="flex-1 bg-accent rounded-t-sm min-h-px" style={{height:`${(b.count/peak)*100}%`, opacity:b.count?1:0.15}} title={`${fmtBucket(b.start,p.timeline.step)}: ${b.count} tx`}/>))}</div></div>
+      <div><h3 className="text-sm font-semibold mb-2">Method mix</h3>
+        <div className="space-y-1">{p.methods.map(m=>(<div key={m.name} className="grid grid-cols-12 items-center gap-2 text-xs"><span className="col-span-4 truncate" title={m.name}>{m.name}</span><div className="col-span-7 h-2 bg-slate-100 dark:bg-slate-800 rounded"><div className="h-2 bg-accent rounded" style={{width:`${(m.count/methodTotal)*100}%`}}/></div><span className="col-span-1 text-right">{m.count}</span></div>))}</div></div>
+      <div><h3 className="text-sm font-semibold mb-2">Transactions</h3><TxTable rows={p.rows}/></div>
+    </aside>
+  </div>)
+}
@@ -0,0 +1,35 @@
+import { FeeSummary } from '../lib/aggregations'
+import { addrLink } from '../lib/explorer'
+import { FEE_TOKENS, FEE_UNITS } from '../lib/fees'
+import { fmtAddr, fmtFee, fmtNum, fmtTime } from '../lib/format'
+import { FeeUnit, Network } from '../types'
+
+type ContractStats = { address:string; label?:string; total:number; callers:number; fees:Record<FeeUnit,FeeSummary>; lastTs:number; error?:string; hasMore?:boolean }
+
+type ContractComparisonProps = {
+  network:Network
+  contracts:ContractStats[]
+  shared:{ address:string; contracts:string[]; count:number }[]
+  labelOf:(address:string)=>string
+  onCaller?:(address:string)=>void
+}
+
+export default function ContractComparison({ network, contracts, shared, labelOf, onCaller }:ContractComparisonProps){
+  return (<div className="space-y-4">
+    <div className="flex gap-3 overflow-x-auto pb-1">{contracts.map(c=>(<div key={c.address} className="min-w-[12rem] flex-1 rounded-2xl p-4 bg-slate-50 dark:bg-slate-900/60 border border-slate-200 dark:border-slate-800 space-y-2">
+      <div><div className="font-semibold truncate" title={c.address}>{c.label||fmtAddr(c.address)}</div><a className="text-xs font-mono text-accent hover:underline" target="_blank" href={addrLink(network,c.address)}>{fmtAddr(c.address)}</a></div>
+      {c.error? <div className="text-xs text-red-600 dark:text-red-400">{c.error}</div> : <div className="grid grid-cols-2 gap-2 text-xs">
+        <div><div className="text-slate-500">Interakcje</div><div className="text-lg font-semibold">{fmtNum(c.total)}{c.hasMore&&'+'}</div></div>
+        <div><div className="text-slate-500">Unikalni callerzy</div><div className="text-lg font-semibold">{fmtNum(c.callers)}</div></div>
+        {FEE_UNITS.filter(u=>c.fees[u].count).map(u=>(<div key={u}><div className="text-slate-500">Suma fee ({FEE_TOKENS[u].symbol})</div><div className="font-medium">{fmtFee(c.fees[u].total,u)}</div></div>))}
+        <div className="col-span-2"><div className="text-slate-500">Ostatnia aktywność</div><div>{c.lastTs?fmtTime(c.lastTs):'—'}</div></div>
+      </div>}
+    </div>))}</div>
+    <div><h3 className="text-sm font-semibold mb-2">Callers across contracts</h3>
+      {shared.length===0? <p className="text-xs text-slate-500">No caller interacts with more than one contract.</p> :
+      <div className="space-y-1 text-xs">{shared.slice(0,10).map(s=>(<div key={s.address} className="flex items-center justify-between gap-2">
+        {onCaller? <button onClick={()=>onCaller(s.address)} className="font-mono text-accent hover:underline" title={s.address}>{fmtAddr(s.address)}</button> : <span className="font-mono" title={s.address}>{fmtAddr(s.address)}</span>}
+        <span className="truncate text-slate-500">{s.contracts.map(labelOf).join(', ')}</span><span>{fmtNum(s.count)}</span></div>))}</div>}
+    </div>
+  </div>)
+}
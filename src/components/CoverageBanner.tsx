@@ -0,0 +1,11 @@
+import { describeCoverage } from '../lib/coverage'
+import { CoverageReport } from '../lib/starknetClient'
+
+export default function CoverageBanner({ coverage, shown }:{ coverage:CoverageReport; shown:number }){
+  const { headline, details }=describeCoverage(coverage,shown)
+  const skips=coverage.skipped.map(s=>`${s.txHash??`block ${s.blockNumber}`}: ${s.reason}`).join('\n')
+  return (<div className={`rounded-2xl border px-4 py-2 text-sm ${coverage.exact?'border-slate-200 dark:border-slate-800 text-slate-600 dark:text-slate-300':'border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200'}`}>
+    <div className="font-medium">{headline.charAt(0).toUpperCase()+headline.slice(1)}</div>
+    <div className="text-xs opacity-80" title={skips||undefined}>{details.join(' · ')}</div>
+  </div>)
+}
@@ -0,0 +1,30 @@
+import { useMemo, useState } from 'react'
+import { eventCounts } from '../lib/aggregations'
+import { filterEvents } from '../lib/events'
+import { fmtHash, fmtNum, fmtTime } from '../lib/format'
+import { ContractEvent } from '../types'
+
+const MAX_VISIBLE=500
+
+type EventsPanelProps = {
+  events:ContractEvent[]
+  onSelectTx:(txHash:string)=>void
+}
+
+export default function EventsPanel({ events, onSelectTx }:EventsPanelProps){
+  const [name,setName]=useState('')
+  const [field,setField]=useState('')
+  const counts=useMemo(()=>eventCounts(events),[events])
+  const visible=useMemo(()=>filterEvents(events,{ name:name||undefined, field }),[events,name,field])
+  if(!events.length) return <div className="text-sm text-slate-500 py-6">Brak zdarzeń w wybranym zakresie.</div>
+  return (<div className="space-y-3">
+    <div className="flex flex-wrap gap-2">{counts.map(c=> <button key={c.name} onClick={()=>setName(name===c.name?'':c.name)} className={`px-2 py-1 rounded-lg text-xs ${name===c.name?'bg-accent text-white':'bg-slate-100 dark:bg-slate-800'}`}>{c.name} · {fmtNum(c.count)}</button>)}</div>
+    <input className="w-full px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-900 text-sm font-mono" placeholder="field value, or field=value (e.g. to=0x…)" value={field} onChange={e=>setField(e.target.value)}/>
+    <div className="text-xs text-slate-500">{fmtNum(visible.length)} / {fmtNum(events.length)} events</div>
+    <div className="rounded-2xl border border-slate-200 dark:border-slate-800 overflow-x-auto"><table className="min-w-full text-sm"><thead className="text-left text-slate-500"><tr><th className="py-2 px-3">time</th><th className="py-2 pr-4">event</th><th className="py-2 pr-4">fields</th><th className="py-2 pr-4">tx hash</th><th className="py-2 pr-4">block</th></tr></thead>
+      <tbody>{visible.slice(0,MAX_VISIBLE).map(e=>(<tr key={e.id} className="border-t border-slate-100 dark:border-slate-800 align-top"><td className="py-2 px-3 whitespace-nowrap">{e.timestamp?fmtTime(e.timestamp):'—'}</td><td className="py-2 pr-4">{e.nameResolved? e.name : <span className="font-mono text-slate-400" title={`Unresolved selector ${e.name}`}>{fmtHash(e.name)}</span>}</td>
+        <td className="py-2 pr-4 text-xs">{e.fields? e.fields.map(f=>(<div key={f.name}><span className="text-slate-500">{f.name}</span> <span className="font-mono break-all">{f.value}</span></div>)) : <span className="font-mono text-slate-500 break-all">{[...e.keys.slice(1),...e.data].join(', ')||'—'}</span>}</td>
+        <td className="py-2 pr-4"><button onClick={()=>onSelectTx(e.txHash)} className="font-mono text-accent hover:underline">{fmtHash(e.txHash)}</button></td><td className="py-2 pr-4">{e.blockNumber ?? '—'}</td></tr>))}</tbody></table></div>
+    {visible.length>MAX_VISIBLE && <div className="text-xs text-slate-500">Showing the newest {MAX_VISIBLE} matching events.</div>}
+  </div>)
+}
@@ -0,0 +1,22 @@
+import { ExportFormat, ExportKind } from '../lib/export'
+
+const KINDS:{ kind:ExportKind; label:string }[]=[{ kind:'transactions', label:'Transactions' },{ kind:'callers', label:'Top callers' },{ kind:'methods', label:'Methods' }]
+
+type ExportMenuProps = {
+  format:ExportFormat
+  disabled?:boolean
+  busy?:boolean
+  onFormat:(format:ExportFormat)=>void
+  onExport:(kind:ExportKind)=>void
+}
+
+export default function ExportMenu({ format, disabled, busy, onFormat, onExport }:ExportMenuProps){
+  return (<details className="relative">
+    <summary className="list-none cursor-pointer px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700">{busy? 'Exporting…' : 'Export'}</summary>
+    <div className="absolute right-0 z-20 mt-2 w-56 rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-lg p-3 space-y-2">
+      <div className="flex gap-2">{(['csv','ndjson'] as ExportFormat[]).map(f=> <label key={f} className="flex items-center gap-1"><input type="radio" name="export-format" checked={format===f} onChange={()=>onFormat(f)}/>{f.toUpperCase()}</label>)}</div>
+      {KINDS.map(({ kind, label })=> <button key={kind} disabled={disabled||busy} onClick={()=>onExport(kind)} className="block w-full text-left px-2 py-1 rounded hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50">{label}</button>)}
+      <p className="text-xs text-slate-500">Exports every transaction matching the filters, not only the loaded page.</p>
+    </div>
+  </details>)
+}
@@ -0,0 +1,22 @@
+import { FailureGroup } from '../lib/aggregations'
+import { fmtBucket, fmtHash, fmtNum, fmtTime } from '../lib/format'
+
+type FailuresPanelProps = {
+  groups:FailureGroup[]
+  starts:number[]
+  step:number
+  total:number
+  onSelectTx:(txHash:string)=>void
+}
+
+export default function FailuresPanel({ groups, starts, step, total, onSelectTx }:FailuresPanelProps){
+  if(!groups.length) return <div className="text-sm text-slate-500 py-6">Brak odrzuconych transakcji w wybranym zakresie.</div>
+  return (<div className="space-y-3">
+    <div className="text-xs text-slate-500">{fmtNum(total)} rejected transactions in {groups.length} groups{starts.length>0 && ` · ${fmtBucket(starts[0],step)} – ${fmtBucket(starts[starts.length-1],step)}`}</div>
+    {groups.map(g=>{ const peak=Math.max(1,...g.buckets); return (<div key={`${g.reason}-${g.method}`} className="rounded-xl border border-slate-200 dark:border-slate-800 p-3 space-y-2">
+      <div className="flex items-start justify-between gap-3"><div className="min-w-0"><div className="font-medium text-red-700 dark:text-red-300 break-words">{g.reason}</div><div className="text-xs text-slate-500">{g.method} · {fmtNum(g.callers)} callers · {fmtTime(g.first)} – {fmtTime(g.last)}</div></div><div className="text-2xl font-semibold">{fmtNum(g.count)}</div></div>
+      <div className="flex items-end gap-px h-8">{g.buckets.map((n,i)=>(<div key={starts[i]} className="flex-1 bg-red-400 rounded-t-sm min-h-px" style={{height:`${(n/peak)*100}%`, opacity:n?1:0.15}} title={`${fmtBucket(starts[i],step)}: ${n}`}/>))}</div>
+      <div className="flex flex-wrap gap-2 text-xs">{g.examples.map(h=> <button key={h} onClick={()=>onSelectTx(h)} className="font-mono text-accent hover:underline">{fmtHash(h)}</button>)}</div>
+    </div>) })}
+  </div>)
+}
@@ -1,5 +1,9 @@
 import { fmtFee, fmtNum, fmtTime } from '../lib/format'
-export default function KpiCards({ total, callers, avgFee, lastTs }:{ total:number; callers:number; avgFee:number; lastTs:number }){
-  const items=[{label:'Interakcje',value:fmtNum(total)},{label:'Unikalni callerzy',value:fmtNum(callers)},{label:'Średnie fee',value:fmtFee(avgFee)},{label:'Ostatnia aktywność',value:lastTs?fmtTime(lastTs):'—'}]
+import { FEE_TOKENS, FEE_UNITS } from '../lib/fees'
+import { FeeSummary } from '../lib/aggregations'
+import { FeeUnit } from '../types'
+export default function KpiCards({ total, callers, fees, lastTs }:{ total:number; callers:number; fees:Record<FeeUnit,FeeSummary>; lastTs:number }){
+  const feeItems=FEE_UNITS.flatMap(u=>{ const f=fees[u], s=FEE_TOKENS[u].symbol; return [{label:`Średnie fee (${s})`,value:f.count?fmtFee(f.avg,u):'—'},{label:`Suma fee (${s})`,value:f.count?fmtFee(f.total,u):'—'}] })
+  const items=[{label:'Interakcje',value:fmtNum(total)},{label:'Unikalni callerzy',value:fmtNum(callers)},{label:'Ostatnia aktywność',value:lastTs?fmtTime(lastTs):'—'},...feeItems]
   return (<div className="grid grid-cols-2 md:grid-cols-4 gap-3">{items.map((it,i)=>(<div key={i} className="rounded-2xl p-4 bg-slate-50 dark:bg-slate-900/60 border border-slate-200 dark:border-slate-800"><div className="text-xs text-slate-500">{it.label}</div><div className="text-2xl font-semibold mt-1">{it.value}</div></div>))}</div>)
 }
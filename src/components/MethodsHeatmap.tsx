@@ -1,4 +1,25 @@
-export default function MethodsHeatmap({ items }:{ items:{ name:string; count:number }[]}){
-  const total = items.reduce((s,i)=>s+i.count,0)||1
-  return (<div><h3 className="text-sm font-semibold mb-2">Contract methods</h3><div className="grid grid-cols-4 gap-2">{items.map(it=>(<div key={it.name} className="rounded-xl border border-slate-200 dark:border-slate-800 p-3"><div className="text-xs text-slate-500 truncate" title={it.name}>{it.name}</div><div className="mt-2 h-2 bg-slate-100 dark:bg-slate-800 rounded"><div className="h-2 bg-accent rounded" style={{width:`${(it.count/total)*100}%`}}/></div><div className="text-xs mt-1">{it.count}</div></div>))}</div></div>)
+import { MethodCell } from '../lib/aggregations'
+import { fmtBucket } from '../lib/format'
+
+type MethodsHeatmapProps = {
+  methods:string[]
+  starts:number[]
+  cells:MethodCell[][]
+  max:number
+  step:number
+  /** Called with the clicked method and its bucket in unix seconds (inclusive). */
+  onSelect:(method:string,from:number,to:number)=>void
+}
+
+export default function MethodsHeatmap({ methods, starts, cells, max, step, onSelect }:MethodsHeatmapProps){
+  return (<div><h3 className="text-sm font-semibold mb-2">Contract methods</h3>
+    {methods.length===0? <p className="text-xs text-slate-500">No data loaded.</p> :
+    <div className="overflow-x-auto"><div className="grid gap-px text-xs" style={{gridTemplateColumns:`minmax(6rem,8rem) repeat(${starts.length},minmax(0.5rem,1fr))`}}>
+      {methods.map((name,mi)=>[
+        <div key={name} className="truncate pr-2 text-slate-500" title={name}>{name}</div>,
+        ...starts.map((start,si)=>{ const c=cells[mi][si]; return (<button key={`${name}-${start}`} aria-label={`${name} ${fmtBucket(start,step)}`} onClick={()=>onSelect(name,start,start+step-1)} className="h-5 rounded-sm bg-slate-100 dark:bg-slate-800 hover:ring-1 hover:ring-accent" style={c.count? {background:`rgba(14,122,254,${0.15+0.85*(c.count/(max||1))})`} : undefined} title={`${name} · ${fmtBucket(start,step)}\n${c.count} calls · ${c.callers} callers · ${(c.revertRate*100).toFixed(1)}% reverted`}/>) })
+      ])}
+    </div>
+    <div className="flex justify-between text-xs text-slate-500 mt-1 pl-32"><span>{fmtBucket(starts[0],step)}</span><span>{fmtBucket(starts[starts.length-1],step)}</span></div></div>}
+  </div>)
 }
@@ -0,0 +1,101 @@
+import { useState } from 'react'
+import { BUILTIN_NETWORKS, NetworkConfig, formatEndpoints, networkIdFor, parseEndpoints, parseHeaders, validateNetwork } from '../lib/networks'
+import { EndpointHealth, endpointLabel, getEndpointHealth } from '../lib/rpcTransport'
+import { EndpointCheck, checkRpcEndpoint } from '../lib/starknetClient'
+import { ActivityLogLevel } from '../types'
+
+type EndpointResult = { url:string; result?:EndpointCheck; error?:string }
+type CheckState = { running:true } | { running:false; results:EndpointResult[] }
+
+type NetworkSettingsProps = {
+  networks:NetworkConfig[]
+  log?:(entry:{ level:ActivityLogLevel; message:string })=>void
+  onChange:(networks:NetworkConfig[])=>void
+  onClose:()=>void
+}
+
+const FORM_KEY='form'
+
+function CheckResult({ state }:{ state?:CheckState }){
+  if(!state) return null
+  if(state.running) return <p className="text-xs text-slate-500">Sprawdzam połączenie…</p>
+  return (<div className="text-xs space-y-1">{state.results.map(({ url, result:r, error })=>(<div key={url}><span className="font-mono">{endpointLabel(url)}</span>{' '}
+    {error? <span className="text-red-600 dark:text-red-400">{error}</span> : r && <><span className="text-slate-500">spec <span className="font-mono">{r.specVersion}</span> · chain <span className="font-mono">{r.chainName??r.chainId}</span></span>
+      {r.warnings.map(w=> <div key={w} className="text-amber-600 dark:text-amber-400">{w}</div>)}</>}</div>))}</div>)
+}
+
+const STATE_TONE:Record<EndpointHealth['state'],string>={ closed:'bg-emerald-500', 'half-open':'bg-amber-500', open:'bg-red-500' }
+
+function HealthList({ health }:{ health:EndpointHealth[] }){
+  return (<div className="space-y-0.5">{health.map(h=>(<div key={h.url} className="flex items-center gap-2 text-xs text-slate-500" title={h.lastError}>
+    <span className={`h-2 w-2 rounded-full ${STATE_TONE[h.state]}`}/><span className="font-mono truncate">{h.label}</span>
+    {health.length>1 && <span>w{h.weight}</span>}<span className="ml-auto whitespace-nowrap">{h.successes} ok · {h.failures} failed{h.state!=='closed'&&` · ${h.state}`}</span></div>))}</div>)
+}
+
+export default function NetworkSettings({ networks, log, onChange, onClose }:NetworkSettingsProps){
+  const [editing,setEditing]=useState<string>()
+  const [name,setName]=useState('')
+  const [endpoints,setEndpoints]=useState('')
+  const [explorerUrl,setExplorerUrl]=useState('')
+  const [headers,setHeaders]=useState('')
+  const [error,setError]=useState<string|null>(null)
+  const [checks,setChecks]=useState<Record<string,CheckState>>({})
+
+  const reset=()=>{ setEditing(undefined); setName(''); setEndpoints(''); setExplorerUrl(''); setHeaders(''); setError(null); setChecks(({ [FORM_KEY]:_, ...rest })=>rest) }
+  const edit=(n:NetworkConfig)=>{ setEditing(n.id); setName(n.name); setEndpoints(formatEndpoints(n.endpoints)); setExplorerUrl(n.explorerUrl??''); setHeaders(Object.entries(n.headers??{}).map(([k,v])=>`${k}: ${v}`).join('\n')); setError(null) }
+  const formNetwork=():NetworkConfig=>validateNetwork({ id:editing??networkIdFor(name,networks.map(n=>n.id)), name:name.trim(), endpoints:parseEndpoints(endpoints), explorerUrl:explorerUrl.trim()||undefined, headers:parseHeaders(headers) })
+
+  const test=async(key:string, network:()=>NetworkConfig)=>{
+    let target:NetworkConfig
+    try{ target=network() }catch(e:any){ setError(e?.message||String(e)); return }
+    setChecks(prev=>({ ...prev, [key]:{ running:true } }))
+    const results:EndpointResult[]=[]
+    for(const endpoint of target.endpoints){
+      const { url }=endpoint
+      try{
+        const result=await checkRpcEndpoint({ endpoint, headers:target.headers, log })
+        log?.({ level:result.warnings.length?'warn':'info', message:`Sieć ${target.name} (${endpointLabel(url)}): spec ${result.specVersion}, chain ${result.chainName??result.chainId}.` })
+        results.push({ url, result })
+      }catch(e:any){
+        const error=e?.message||String(e)
+        log?.({ level:'error', message:`Sieć ${target.name} (${endpointLabel(url)}): brak połączenia (${error}).` })
+        results.push({ url, error })
+      }
+    }
+    setChecks(prev=>({ ...prev, [key]:{ running:false, results } }))
+  }
+  const save=()=>{
+    try{
+      const network=formNetwork()
+      onChange(editing? networks.map(n=>n.id===editing? network : n) : [...networks, network])
+      reset()
+    }catch(e:any){ setError(e?.message||String(e)) }
+  }
+
+  const row=(n:NetworkConfig, custom:boolean)=>(<div key={n.id} className="rounded-lg border border-slate-200 dark:border-slate-800 p-3 space-y-1">
+    <div className="flex items-center gap-2 text-sm"><div className="min-w-0 flex-1"><div className="font-medium">{n.name} <span className="text-xs font-mono text-slate-400">{n.id}</span></div><HealthList health={getEndpointHealth(n.id)}/></div>
+      <button onClick={()=>test(n.id,()=>n)} className="text-xs text-accent hover:underline">Test</button>
+      {custom && <><button onClick={()=>edit(n)} className="text-xs text-slate-500 hover:underline">Edit</button><button onClick={()=>onChange(networks.filter(x=>x.id!==n.id))} className="text-xs text-red-600 hover:underline">Delete</button></>}</div>
+    <CheckResult state={checks[n.id]}/>
+  </div>)
+
+  return (<div className="fixed inset-0 z-40 flex justify-end bg-slate-950/40" onClick={onClose}>
+    <aside className="w-full max-w-xl h-full overflow-y-auto bg-white dark:bg-slate-900 border-l border-slate-200 dark:border-slate-800 p-5 space-y-5" onClick={e=>e.stopPropagation()}>
+      <div className="flex items-start justify-between gap-4"><h2 className="text-lg font-semibold">Networks</h2><button onClick={onClose} className="text-sm text-slate-500 hover:text-slate-800 dark:hover:text-slate-200">Close</button></div>
+      <div className="space-y-2">{Object.values(BUILTIN_NETWORKS).map(n=>row(n,false))}{networks.map(n=>row(n,true))}</div>
+      <div className="space-y-2 border-t border-slate-200 dark:border-slate-800 pt-4">
+        <h3 className="text-sm font-semibold">{editing?`Edit ${editing}`:'Add network'}</h3>
+        <input className="w-full px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 text-sm" placeholder="name (e.g. Devnet)" value={name} onChange={e=>setName(e.target.value)}/>
+        <textarea rows={3} className="w-full px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 text-xs font-mono" placeholder={'RPC endpoints, one per line\nhttps://…/rpc/v0_8 weight=2 rps=5 concurrency=2'} value={endpoints} onChange={e=>setEndpoints(e.target.value)}/>
+        <input className="w-full px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 text-sm font-mono" placeholder="explorer base URL (optional)" value={explorerUrl} onChange={e=>setExplorerUrl(e.target.value)}/>
+        <textarea rows={3} className="w-full px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 text-xs font-mono" placeholder={'auth headers (optional), one per line\nx-api-key: …'} value={headers} onChange={e=>setHeaders(e.target.value)}/>
+        <p className="text-xs text-slate-500">Nagłówki są zapisywane w localStorage tej przeglądarki.</p>
+        {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+        <CheckResult state={checks[FORM_KEY]}/>
+        <div className="flex gap-2"><button onClick={()=>test(FORM_KEY,formNetwork)} className="px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 text-sm">Test connection</button>
+          <button onClick={save} className="flex-1 px-3 py-1.5 rounded-lg bg-accent text-white text-sm">{editing?'Save changes':'Add network'}</button>
+          {editing && <button onClick={reset} className="px-3 py-1.5 rounded-lg text-sm text-slate-500">Cancel</button>}</div>
+      </div>
+    </aside>
+  </div>)
+}
@@ -0,0 +1,14 @@
+import { FetchProgress } from '../lib/starknetClient'
+import { fmtNum } from '../lib/format'
+
+const fmtEta=(ms?:number)=> ms==null? '—' : ms<1000? '<1s' : ms<60_000? `~${Math.round(ms/1000)}s` : `~${Math.round(ms/60_000)} min`
+
+export default function ScanProgress({ progress }:{ progress:FetchProgress }){
+  const share=progress.blocksTotal>0? Math.min(100,(progress.blocksScanned/progress.blocksTotal)*100) : 0
+  const phaseLabel={ range:'Resolving block range', events:'Reading events', fallback:'Scanning blocks', done:'Finishing' }[progress.phase]
+  return (<div className="rounded-2xl border border-slate-200 dark:border-slate-800 p-3 space-y-2 text-xs text-slate-500">
+    <div className="flex flex-wrap justify-between gap-2"><span className="font-medium text-slate-700 dark:text-slate-200">{phaseLabel}</span><span>ETA {fmtEta(progress.etaMs)}</span></div>
+    <div className="h-2 bg-slate-100 dark:bg-slate-800 rounded"><div className="h-2 bg-accent rounded transition-all" style={{width:`${share}%`}}/></div>
+    <div className="flex flex-wrap gap-x-4 gap-y-1"><span>Blocks {fmtNum(progress.blocksScanned)} / {fmtNum(progress.blocksTotal)}{progress.blocksSkipped>0&&` (${fmtNum(progress.blocksSkipped)} from an earlier scan)`}</span><span>Events pages {progress.eventsPages}</span><span>Trace budget {progress.remainingTraceLookups} / {progress.traceBudget}</span></div>
+  </div>)
+}
@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react'
+import { DecodedValue } from '../lib/abi'
+import { TxCallNode, TxDetails, fetchTransactionDetails } from '../lib/starknetClient'
+import { addrLink, txLink } from '../lib/explorer'
+import { fmtAddr, fmtFee, fmtHash } from '../lib/format'
+import { ActivityLogLevel, Network } from '../types'
+import Badge from './Badge'
+
+type TxDetailDrawerProps = {
+  txHash:string
+  network:Network
+  latestBlockNumber?:number
+  log?:(entry:{ level:ActivityLogLevel; message:string })=>void
+  onClose:()=>void
+}
+
+function Values({ values }:{ values:DecodedValue[] }){
+  return (<ul className="pl-3 border-l border-slate-200 dark:border-slate-700 space-y-0.5">{values.map((v,i)=>(<li key={i}><span className="text-slate-500">{v.name}</span> <span className="text-slate-400 text-[10px]">{v.type.split('::').pop()}</span>{typeof v.value==='string'? <span className="font-mono break-all"> {v.value}</span> : <Values values={v.value}/>}</li>))}</ul>)
+}
+
+const Raw=({ values }:{ values:string[] })=> <div className="font-mono break-all text-slate-500">{values.length? values.join(', ') : '—'}</div>
+
+function CallNode({ node, network }:{ node:TxCallNode; network:Network }){
+  return (<li className="space-y-1">
+    <div><span className="font-medium">{node.entrypointResolved? node.entrypoint : <span className="font-mono">{fmtHash(node.entrypoint)}</span>}</span> <a className="font-mono text-accent hover:underline" target="_blank" href={addrLink(network,node.to)}>{fmtAddr(node.to)}</a>{node.callType && <span className="text-slate-400"> · {node.callType}</span>}</div>
+    {node.args? <Values values={node.args}/> : node.calldata.length>0 && <Raw values={node.calldata}/>}
+    {node.children.length>0 && <ul className="pl-4 border-l border-slate-200 dark:border-slate-700 space-y-2">{node.children.map((child,i)=> <CallNode key={i} node={child} network={network}/>)}</ul>}
+  </li>)
+}
+
+const Section=({ title, children }:{ title:string; children:React.ReactNode })=> <section className="space-y-2"><h3 className="text-sm font-semibold">{title}</h3><div className="text-xs space-y-2">{children}</div></section>
+
+export default function TxDetailDrawer({ txHash, network, latestBlockNumber, log, onClose }:TxDetailDrawerProps){
+  const [details,setDetails]=useState<TxDetails>()
+  const [error,setError]=useState<string|null>(null)
+  useEffect(()=>{
+    const controller=new AbortController()
+    setDetails(undefined); setError(null)
+    fetchTransactionDetails({ network, txHash, latestBlockNumber, log, signal:controller.signal }).then(setDetails).catch(e=>{ if(!controller.signal.aborted) setError(e?.message||String(e)) })
+    return ()=>controller.abort()
+  },[txHash,network])
+
+  const overview=details? [['Block',details.blockNumber ?? '—'],['Position',details.txIndex ?? '—'],['Block hash',details.blockHash? fmtHash(details.blockHash) : '—'],['Type',details.type],['Finality',details.finality ?? '—'],['Fee',fmtFee(details.fee.amount,details.fee.unit)],['Sender',details.sender? fmtAddr(details.sender) : '—']] : []
+  return (<div className="fixed inset-0 z-40 flex justify-end bg-slate-950/40" onClick={onClose}>
+    <aside className="w-full max-w-3xl h-full overflow-y-auto bg-white dark:bg-slate-900 border-l border-slate-200 dark:border-slate-800 p-5 space-y-5" onClick={e=>e.stopPropagation()}>
+      <div className="flex items-start justify-between gap-4"><div className="min-w-0"><h2 className="text-lg font-semibold">Transaction</h2><div className="font-mono text-sm break-all">{txHash}</div>{txLink(network,txHash) && <a className="text-sm text-accent hover:underline" target="_blank" href={txLink(network,txHash)}>Open in explorer</a>}</div>
+        <button onClick={onClose} className="text-sm text-slate-500 hover:text-slate-800 dark:hover:text-slate-200">Close</button></div>
+      {!details && !error && <p className="text-sm text-slate-500">Loading…</p>}
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {details && <>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">{overview.map(([label,value])=>(<div key={label}><div className="text-slate-500">{label}</div><div className="font-medium">{value}</div></div>))}<div><div className="text-slate-500">Status</div><Badge tone={details.status==='ACCEPTED'?'green':'red'}>{details.status}</Badge></div></div>
+        {details.revertReason && <Section title="Revert reason"><pre className="whitespace-pre-wrap break-all rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 p-3">{details.revertReason}</pre></Section>}
+        <Section title={`Calls (${details.calls.length})`}>{details.calls.map((c,i)=>(<div key={i} className="rounded-lg border border-slate-200 dark:border-slate-800 p-2 space-y-1"><div><span className="font-medium">{c.entrypointResolved? c.entrypoint : <span className="font-mono">{fmtHash(c.entrypoint)}</span>}</span> → <a className="font-mono text-accent hover:underline" target="_blank" href={addrLink(network,c.to)}>{fmtAddr(c.to)}</a></div>{c.args? <Values values={c.args}/> : <Raw values={c.calldata}/>}</div>))}</Section>
+        <Section title={`Events (${details.events.length})`}>{details.events.map((ev,i)=>(<div key={i} className="rounded-lg border border-slate-200 dark:border-slate-800 p-2 space-y-1"><div><span className="font-medium">{ev.name ?? <span className="font-mono">{ev.keys[0]? fmtHash(ev.keys[0]) : '—'}</span>}</span> · <span className="font-mono text-slate-500">{fmtAddr(ev.from)}</span></div>{ev.fields? <Values values={ev.fields}/> : <><Raw values={ev.keys}/><Raw values={ev.data}/></>}</div>))}</Section>
+        {details.callTree.length>0 && <Section title="Call tree">{details.callTree.map(({ label, node })=>(<div key={label}><div className="text-slate-500 uppercase tracking-wide text-[10px] mb-1">{label}</div><ul><CallNode node={node} network={network}/></ul></div>))}</Section>}
+        {details.messages.length>0 && <Section title="L1 / L2 messages">{details.messages.map((m,i)=>(<div key={i} className="rounded-lg border border-slate-200 dark:border-slate-800 p-2"><div>{m.direction==='L1_TO_L2'? 'L1 → L2' : 'L2 → L1'} · <span className="font-mono">{fmtAddr(m.from)}</span> → <span className="font-mono">{fmtAddr(m.to)}</span></div><Raw values={m.payload}/></div>))}</Section>}
+        {details.executionResources && <Section title="Execution resources"><pre className="whitespace-pre-wrap break-all rounded-lg bg-slate-50 dark:bg-slate-800/60 p-3">{JSON.stringify(details.executionResources,null,2)}</pre></Section>}
+      </>}
+    </aside>
+  </div>)
+}
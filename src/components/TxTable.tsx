@@ -1,8 +1,9 @@
+import { clsx } from 'clsx'
 import { fmtAddr, fmtFee, fmtHash, fmtTime } from '../lib/format'
 import { txLink } from '../lib/explorer'
 import { TxRow } from '../types'
 import Badge from './Badge'
-export default function TxTable({ rows }:{ rows:TxRow[] }){
+export default function TxTable({ rows, highlighted, onCaller, onSelect, contractLabel }:{ rows:TxRow[]; highlighted?:Set<string>; onCaller?:(address:string)=>void; onSelect?:(row:TxRow)=>void; contractLabel?:(address:string)=>string }){
   if(!rows.length) return <div className="text-sm text-slate-500 py-6">Brak danych w wybranym zakresie.</div>
-  return (<div className="overflow-x-auto"><table className="min-w-full text-sm"><thead className="text-left text-slate-500"><tr><th className="py-2 pr-4">time</th><th className="py-2 pr-4">tx hash</th><th className="py-2 pr-4">type</th><th className="py-2 pr-4">method</th><th className="py-2 pr-4">caller</th><th className="py-2 pr-4">fee</th><th className="py-2 pr-4">status</th><th className="py-2 pr-4">explorer</th></tr></thead><tbody>{rows.map(r=>(<tr key={r.txHash} className="border-t border-slate-100 dark:border-slate-800"><td className="py-2 pr-4 whitespace-nowrap">{fmtTime(r.timestamp)}</td><td className="py-2 pr-4"><span className="font-mono">{fmtHash(r.txHash)}</span></td><td className="py-2 pr-4"><Badge tone={{INVOKE:'blue',DECLARE:'slate',DEPLOY:'green',L1_HANDLER:'red'}[r.type] as any}>{r.type}</Badge></td><td className="py-2 pr-4">{r.entrypoint||'—'}</td><td className="py-2 pr-4"><span className="font-mono">{fmtAddr(r.caller)}</span></td><td className="py-2 pr-4">{fmtFee(r.fee)}</td><td className="py-2 pr-4">{r.status}</td><td className="py-2 pr-4"><a className="text-accent hover:underline" target="_blank" href={txLink(r.network, r.txHash)}>Open</a></td></tr>))}</tbody></table></div>)
+  return (<div className="overflow-x-auto"><table className="min-w-full text-sm"><thead className="text-left text-slate-500"><tr><th className="py-2 pr-4">time</th><th className="py-2 pr-4">tx hash</th>{contractLabel && <th className="py-2 pr-4">contract</th>}<th className="py-2 pr-4">type</th><th className="py-2 pr-4">method</th><th className="py-2 pr-4">caller</th><th className="py-2 pr-4">fee</th><th className="py-2 pr-4">status</th><th className="py-2 pr-4">explorer</th></tr></thead><tbody>{rows.map(r=>(<tr key={`${r.txHash}-${r.to}`} onClick={onSelect&&(()=>onSelect(r))} className={clsx('border-t border-slate-100 dark:border-slate-800', onSelect && 'cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-900/60', highlighted?.has(r.txHash) && 'bg-amber-50 dark:bg-amber-900/20')}><td className="py-2 pr-4 whitespace-nowrap">{fmtTime(r.timestamp)}</td><td className="py-2 pr-4"><span className="font-mono">{fmtHash(r.txHash)}</span></td>{contractLabel && <td className="py-2 pr-4 whitespace-nowrap" title={r.to}>{contractLabel(r.to)}</td>}<td className="py-2 pr-4"><Badge tone={{INVOKE:'blue',DECLARE:'slate',DEPLOY:'green',L1_HANDLER:'red'}[r.type] as any}>{r.type}</Badge></td><td className="py-2 pr-4">{r.calls && r.calls.length>1 ? <span title={r.calls.map(c=>c.entrypoint).join('\n')}>{r.calls.map(c=>c.entrypointResolved?c.entrypoint:fmtHash(c.entrypoint)).join(', ')}</span> : r.entrypoint && r.entrypointResolved===false ? <span className="font-mono text-slate-400" title={`Unresolved selector ${r.entrypoint}`}>{fmtHash(r.entrypoint)}</span> : r.entrypoint||'—'}</td><td className="py-2 pr-4">{onCaller? <button onClick={e=>{ e.stopPropagation(); onCaller(r.caller) }} className="font-mono text-accent hover:underline" title={r.caller}>{fmtAddr(r.caller)}</button> : <span className="font-mono">{fmtAddr(r.caller)}</span>}</td><td className="py-2 pr-4">{fmtFee(r.fee.amount,r.fee.unit)}</td><td className="py-2 pr-4">{r.status}</td><td className="py-2 pr-4">{txLink(r.network, r.txHash)? <a className="text-accent hover:underline" target="_blank" href={txLink(r.network, r.txHash)} onClick={e=>e.stopPropagation()}>Open</a> : '—'}</td></tr>))}</tbody></table></div>)
 }
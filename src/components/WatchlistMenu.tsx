@@ -0,0 +1,44 @@
+import { useState } from 'react'
+import { NetworkConfig } from '../lib/networks'
+import { Watchlist, newWatchlistId, parseWatchlistContracts } from '../lib/watchlists'
+import { Network } from '../types'
+
+type WatchlistMenuProps = {
+  watchlists:Watchlist[]
+  networks:NetworkConfig[]
+  active?:string
+  busy?:boolean
+  onChange:(watchlists:Watchlist[])=>void
+  onLoad:(watchlist:Watchlist)=>void
+}
+
+export default function WatchlistMenu({ watchlists, networks, active, busy, onChange, onLoad }:WatchlistMenuProps){
+  const [name,setName]=useState('')
+  const [network,setNetwork]=useState<Network>('mainnet')
+  const [text,setText]=useState('')
+  const [error,setError]=useState<string|null>(null)
+  const save=()=>{
+    try{
+      const contracts=parseWatchlistContracts(text)
+      if(!name.trim()||!contracts.length) throw new Error('Name and at least one address are required')
+      onChange([...watchlists.filter(w=>w.name!==name.trim()||w.network!==network),{ id:newWatchlistId(), name:name.trim(), network, contracts }])
+      setName(''); setText(''); setError(null)
+    }catch(e:any){ setError(e?.message||String(e)) }
+  }
+  const edit=(w:Watchlist)=>{ setName(w.name); setNetwork(w.network); setText(w.contracts.map(c=>[c.address,c.label].filter(Boolean).join(' ')).join('\n')) }
+  return (<details className="relative">
+    <summary className="list-none cursor-pointer px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700">Watchlists{watchlists.length>0&&` (${watchlists.length})`}</summary>
+    <div className="absolute right-0 z-20 mt-2 w-80 rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-lg p-3 space-y-3">
+      {watchlists.length===0 && <p className="text-xs text-slate-500">No watchlists yet.</p>}
+      {watchlists.map(w=>(<div key={w.id} className="flex items-center gap-2 text-sm"><div className="min-w-0 flex-1"><div className={`truncate ${active===w.id?'font-semibold text-accent':''}`}>{w.name}</div><div className="text-xs text-slate-500">{networks.find(n=>n.id===w.network)?.name??w.network} · {w.contracts.length} contracts</div></div>
+        <button disabled={busy} onClick={()=>onLoad(w)} className="text-xs text-accent hover:underline disabled:opacity-50">Load</button><button onClick={()=>edit(w)} className="text-xs text-slate-500 hover:underline">Edit</button><button onClick={()=>onChange(watchlists.filter(x=>x.id!==w.id))} className="text-xs text-red-600 hover:underline">Delete</button></div>))}
+      <div className="space-y-2 border-t border-slate-200 dark:border-slate-800 pt-3">
+        <div className="flex gap-2"><input className="flex-1 min-w-0 px-2 py-1 rounded-lg bg-slate-100 dark:bg-slate-800 text-sm" placeholder="watchlist name" value={name} onChange={e=>setName(e.target.value)}/>
+          <select className="px-2 py-1 rounded-lg bg-slate-100 dark:bg-slate-800 text-sm" value={network} onChange={e=>setNetwork(e.target.value as Network)}>{networks.map(n=> <option key={n.id} value={n.id}>{n.name}</option>)}</select></div>
+        <textarea rows={4} className="w-full px-2 py-1 rounded-lg bg-slate-100 dark:bg-slate-800 text-xs font-mono" placeholder={'0x… router\n0x… pool'} value={text} onChange={e=>setText(e.target.value)}/>
+        {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+        <button onClick={save} className="w-full px-3 py-1.5 rounded-lg bg-accent text-white text-sm">Save watchlist</button>
+      </div>
+    </div>
+  </details>)
+}
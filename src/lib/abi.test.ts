@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { decodeFunctionCalldata } from './abi'
+
+const abi = [
+  { type: 'struct', name: 'pkg::Order', members: [{ name: 'id', type: 'core::integer::u64' }, { name: 'side', type: 'pkg::Side' }] },
+  { type: 'enum', name: 'pkg::Side', variants: [{ name: 'Buy', type: '()' }, { name: 'Sell', type: '()' }] },
+  {
+    type: 'interface',
+    name: 'pkg::IExchange',
+    items: [{
+      type: 'function',
+      name: 'place',
+      inputs: [
+        { name: 'orders', type: 'core::array::Span::<pkg::Order>' },
+        { name: 'memo', type: 'core::byte_array::ByteArray' }
+      ]
+    }]
+  },
+  { type: 'function', name: 'legacy', inputs: [{ name: 'values_len', type: 'felt' }, { name: 'values', type: 'felt*' }] }
+]
+
+describe('decodeFunctionCalldata', () => {
+  it('decodes spans of structs, enums and byte arrays', () => {
+    const memo = `0x${Buffer.from('hi').toString('hex')}`
+    const decoded = decodeFunctionCalldata(abi, 'place', ['0x2', '0x7', '0x0', '0x8', '0x1', '0x0', memo, '0x2'])
+
+    expect(decoded).toEqual([
+      {
+        name: 'orders',
+        type: 'core::array::Span::<pkg::Order>',
+        value: [
+          { name: '[0]', type: 'pkg::Order', value: [{ name: 'id', type: 'core::integer::u64', value: '7' }, { name: 'side', type: 'pkg::Side', value: 'Buy' }] },
+          { name: '[1]', type: 'pkg::Order', value: [{ name: 'id', type: 'core::integer::u64', value: '8' }, { name: 'side', type: 'pkg::Side', value: 'Sell' }] }
+        ]
+      },
+      { name: 'memo', type: 'core::byte_array::ByteArray', value: 'hi' }
+    ])
+  })
+
+  it('decodes legacy length-prefixed arrays and rejects calldata of the wrong length', () => {
+    expect(decodeFunctionCalldata(abi, 'legacy', ['0x2', '0xa', '0xb'])?.[1].value).toEqual([
+      { name: '[0]', type: 'felt', value: '0xa' },
+      { name: '[1]', type: 'felt', value: '0xb' }
+    ])
+    expect(decodeFunctionCalldata(abi, 'legacy', ['0x2', '0xa'])).toBeUndefined()
+    expect(decodeFunctionCalldata(abi, 'missing', [])).toBeUndefined()
+  })
+})
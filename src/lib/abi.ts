@@ -0,0 +1,296 @@
+import { hash } from 'starknet'
+
+export interface SelectorNames {
+  functions: Map<string, string>
+  events: Map<string, string>
+}
+
+export const emptySelectorNames = (): SelectorNames => ({ functions: new Map(), events: new Map() })
+
+export const normalizeSelector = (value?: string): string | undefined => {
+  if (!value) return undefined
+  try {
+    return `0x${BigInt(value).toString(16)}`
+  } catch {
+    return undefined
+  }
+}
+
+export const isHexValue = (value: string): boolean => /^0x[0-9a-f]*$/i.test(value)
+
+// Sierra classes expose the ABI as a JSON string, legacy classes as an array.
+export const parseAbi = (raw: unknown): any[] => {
+  if (Array.isArray(raw)) return raw
+  if (typeof raw !== 'string' || !raw) return []
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+// Cairo 1 event names are fully qualified paths, but the key selector is derived from the last segment only.
+export const shortName = (name: string): string => {
+  const segments = name.split('::')
+  return segments[segments.length - 1] || name
+}
+
+export function buildSelectorNames(rawAbi: unknown): SelectorNames {
+  const names = emptySelectorNames()
+
+  const addFunction = (name?: string) => {
+    if (!name) return
+    names.functions.set(normalizeSelector(hash.getSelectorFromName(name))!, name)
+  }
+
+  const addEvent = (name?: string) => {
+    if (!name) return
+    const short = shortName(name)
+    names.events.set(normalizeSelector(hash.getSelectorFromName(short))!, short)
+  }
+
+  for (const entry of parseAbi(rawAbi)) {
+    if (!entry || typeof entry !== 'object') continue
+
+    switch (entry.type) {
+      case 'function':
+      case 'l1_handler':
+      case 'constructor':
+        addFunction(entry.name)
+        break
+      case 'interface':
+        for (const item of Array.isArray(entry.items) ? entry.items : []) {
+          if (item?.type === 'function') addFunction(item.name)
+        }
+        break
+      case 'event':
+        if (entry.kind === 'enum') {
+          for (const variant of Array.isArray(entry.variants) ? entry.variants : []) {
+            addEvent(variant?.name)
+          }
+        } else {
+          addEvent(entry.name)
+        }
+        break
+      default:
+        break
+    }
+  }
+
+  return names
+}
+
+export interface ResolvedSelector {
+  name: string
+  resolved: boolean
+}
+
+export const resolveSelector = (
+  names: SelectorNames,
+  value: string | undefined,
+  kind: 'function' | 'event'
+): ResolvedSelector | undefined => {
+  if (!value) return undefined
+  if (!isHexValue(value)) return { name: value, resolved: true }
+
+  const normalized = normalizeSelector(value)
+  const lookup = kind === 'function' ? names.functions : names.events
+  const name = normalized ? lookup.get(normalized) : undefined
+  return name ? { name, resolved: true } : { name: value, resolved: false }
+}
+
+export interface DecodedValue {
+  name: string
+  type: string
+  /** Scalars are rendered as strings; structs, arrays, tuples and enum payloads as nested values. */
+  value: string | DecodedValue[]
+}
+
+const ARRAY_TYPE = /^core::array::(?:Array|Span)::<(.+)>$/
+const ONE_FELT_INTEGERS = /^core::integer::(?:u8|u16|u32|u64|u128|usize|i8|i16|i32|i64|i128)$/
+const BYTE_ARRAY = 'core::byte_array::ByteArray'
+
+const abiItems = (rawAbi: unknown): any[] => parseAbi(rawAbi).flatMap((entry) => (
+  entry?.type === 'interface' && Array.isArray(entry.items) ? [entry, ...entry.items] : [entry]
+))
+
+// Splits `(A, B<C, D>)` into its top-level members.
+const tupleMembers = (type: string): string[] => {
+  const inner = type.slice(1, -1)
+  const members: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of inner) {
+    if (char === '<' || char === '(') depth += 1
+    if (char === '>' || char === ')') depth -= 1
+    if (char === ',' && depth === 0) {
+      members.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (current.trim()) members.push(current.trim())
+  return members
+}
+
+const decodeShortString = (felt: bigint, length?: number): string => {
+  let hex = felt.toString(16)
+  if (hex.length % 2) hex = `0${hex}`
+  if (length != null) hex = hex.padStart(length * 2, '0')
+  return hex.match(/../g)?.map((byte) => String.fromCharCode(parseInt(byte, 16))).join('') ?? ''
+}
+
+class CalldataReader {
+  private index = 0
+
+  constructor(private readonly values: string[]) {}
+
+  next(): bigint {
+    if (this.index >= this.values.length) throw new Error('Calldata is shorter than the ABI expects')
+    return BigInt(this.values[this.index++])
+  }
+
+  get done(): boolean {
+    return this.index >= this.values.length
+  }
+}
+
+/** Decodes felts against Cairo 1 and legacy Cairo 0 ABI types. */
+class AbiDecoder {
+  private readonly structs = new Map<string, any>()
+
+  private readonly enums = new Map<string, any>()
+
+  constructor(readonly items: any[]) {
+    for (const item of items) {
+      if (item?.type === 'struct') this.structs.set(item.name, item)
+      if (item?.type === 'enum') this.enums.set(item.name, item)
+    }
+  }
+
+  decodeList(members: { name: string; type: string }[], reader: CalldataReader): DecodedValue[] {
+    const decoded: DecodedValue[] = []
+    for (const member of members) {
+      // Cairo 0 passes arrays as `x_len: felt, x: felt*`.
+      if (member.type.endsWith('*')) {
+        const length = Number(decoded[decoded.length - 1]?.value ?? 0)
+        const itemType = member.type.slice(0, -1)
+        const items = Array.from({ length }, (_, i) => this.decode(`[${i}]`, itemType, reader))
+        decoded.push({ name: member.name, type: member.type, value: items })
+        continue
+      }
+      decoded.push(this.decode(member.name, member.type, reader))
+    }
+    return decoded
+  }
+
+  decode(name: string, rawType: string, reader: CalldataReader): DecodedValue {
+    const type = rawType.replace(/^@/, '')
+
+    if (type === 'core::integer::u256' || type === 'Uint256') {
+      const low = reader.next()
+      const high = reader.next()
+      return { name, type, value: (low + (high << 128n)).toString() }
+    }
+    if (ONE_FELT_INTEGERS.test(type)) return { name, type, value: reader.next().toString() }
+    if (type === 'core::bool') return { name, type, value: reader.next() === 0n ? 'false' : 'true' }
+    if (type === BYTE_ARRAY) return { name, type, value: this.decodeByteArray(reader) }
+    if (type === '()') return { name, type, value: [] }
+
+    const array = ARRAY_TYPE.exec(type)
+    if (array) {
+      const length = Number(reader.next())
+      return { name, type, value: Array.from({ length }, (_, i) => this.decode(`[${i}]`, array[1], reader)) }
+    }
+
+    if (type.startsWith('(') && type.endsWith(')')) {
+      return { name, type, value: tupleMembers(type).map((member, i) => this.decode(`${i}`, member, reader)) }
+    }
+
+    const struct = this.structs.get(type)
+    if (struct && Array.isArray(struct.members)) {
+      return { name, type, value: this.decodeList(struct.members, reader) }
+    }
+
+    const enumType = this.enums.get(type)
+    if (enumType && Array.isArray(enumType.variants)) {
+      const variant = enumType.variants[Number(reader.next())]
+      if (!variant) throw new Error(`Unknown variant of ${type}`)
+      const payload = this.decode(variant.name, variant.type ?? '()', reader)
+      return { name, type, value: Array.isArray(payload.value) && payload.value.length === 0 ? variant.name : [payload] }
+    }
+
+    return { name, type, value: `0x${reader.next().toString(16)}` }
+  }
+
+  private decodeByteArray(reader: CalldataReader): string {
+    const words = Number(reader.next())
+    let text = ''
+    for (let i = 0; i < words; i += 1) text += decodeShortString(reader.next(), 31)
+    const pendingWord = reader.next()
+    const pendingLength = Number(reader.next())
+    return text + (pendingLength > 0 ? decodeShortString(pendingWord, pendingLength) : '')
+  }
+}
+
+const decodeAll = (decode: (reader: CalldataReader) => DecodedValue[], values: string[]): DecodedValue[] | undefined => {
+  try {
+    const reader = new CalldataReader(values)
+    const decoded = decode(reader)
+    return reader.done ? decoded : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Decodes the calldata of a call to `functionName`. Returns undefined when the function is not in the ABI
+ * or the calldata does not match its inputs exactly.
+ */
+export function decodeFunctionCalldata(rawAbi: unknown, functionName: string, calldata: string[]): DecodedValue[] | undefined {
+  const items = abiItems(rawAbi)
+  const fn = items.find((item) => ['function', 'l1_handler', 'constructor'].includes(item?.type) && item.name === functionName)
+  if (!fn || !Array.isArray(fn.inputs)) return undefined
+  const decoder = new AbiDecoder(items)
+  return decodeAll((reader) => decoder.decodeList(fn.inputs, reader), calldata)
+}
+
+/** Flattens nested decoded values into dotted field names, e.g. `order.id` or `recipients.[0]`. */
+export const flattenDecoded = (values: DecodedValue[], prefix = ''): { name: string; value: string }[] => values.flatMap((v) => (
+  typeof v.value === 'string'
+    ? [{ name: `${prefix}${v.name}`, value: v.value }]
+    : flattenDecoded(v.value, `${prefix}${v.name}.`)
+))
+
+export interface DecodedEvent {
+  name: string
+  fields: DecodedValue[]
+}
+
+/** Decodes an emitted event from its keys and data; the first key is the event selector. */
+export function decodeEvent(rawAbi: unknown, keys: string[], data: string[]): DecodedEvent | undefined {
+  const selector = normalizeSelector(keys[0])
+  if (!selector) return undefined
+
+  const items = abiItems(rawAbi)
+  const event = items.find((item) => item?.type === 'event'
+    && item.kind !== 'enum'
+    && normalizeSelector(hash.getSelectorFromName(shortName(item.name))) === selector)
+  if (!event) return undefined
+
+  const decoder = new AbiDecoder(items)
+  const name = shortName(event.name)
+
+  // Legacy Cairo 0 events only describe their data.
+  if (!Array.isArray(event.members)) {
+    const fields = decodeAll((reader) => decoder.decodeList(Array.isArray(event.data) ? event.data : [], reader), data)
+    return fields ? { name, fields } : undefined
+  }
+
+  const keyFields = decodeAll((reader) => decoder.decodeList(event.members.filter((m: any) => m.kind === 'key'), reader), keys.slice(1))
+  const dataFields = decodeAll((reader) => decoder.decodeList(event.members.filter((m: any) => m.kind !== 'key'), reader), data)
+  if (!keyFields || !dataFields) return undefined
+  return { name, fields: [...keyFields, ...dataFields] }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { ActivityLogEntry } from '../types'
+import { appendLogEntries, buildLogExport, emptyActivityLog, filterLogEntries, summarizeLatency } from './activityLog'
+
+const entry = (id: number, overrides: Partial<ActivityLogEntry> = {}): ActivityLogEntry => ({
+  id: String(id),
+  level: 'info',
+  category: 'app',
+  message: `entry ${id}`,
+  timestamp: 1_000 + id,
+  ...overrides
+})
+
+const rpc = (id: number, method: string, durationMs: number, level: ActivityLogEntry['level'] = 'info') => (
+  entry(id, { level, category: 'rpc', method, durationMs, endpoint: 'rpc.example', attempt: 1 })
+)
+
+describe('activity log', () => {
+  it('keeps only the newest entries and counts the dropped ones', () => {
+    let log = emptyActivityLog()
+    log = appendLogEntries(log, [entry(1), entry(2), entry(3)], 4)
+    log = appendLogEntries(log, [entry(4), entry(5), entry(6)], 4)
+
+    expect(log.entries.map((e) => e.id)).toEqual(['3', '4', '5', '6'])
+    expect(log.dropped).toBe(2)
+  })
+
+  it('keeps successful RPC calls to their own limit so they do not push out warnings and errors', () => {
+    let log = appendLogEntries(emptyActivityLog(), [entry(1, { level: 'warn' }), rpc(2, 'getBlockWithTxs', 10), entry(3, { level: 'error' })], 2, 2)
+    log = appendLogEntries(log, [rpc(4, 'getBlockWithTxs', 10), rpc(5, 'getBlockWithTxs', 10), rpc(6, 'getBlockWithTxs', 10, 'warn')], 2, 2)
+
+    expect(log.entries.map((e) => e.id)).toEqual(['3', '4', '5', '6'])
+    expect(log.dropped).toBe(2)
+  })
+
+  it('filters by level, category and text', () => {
+    const entries = [
+      entry(1, { message: 'Start: pobieram stronę 2.', loadId: 'load-7' }),
+      entry(2, { level: 'warn', category: 'limiter', method: 'getBlockWithTxs' }),
+      rpc(3, 'getTransactionReceipt', 40, 'warn')
+    ]
+
+    expect(filterLogEntries(entries, { levels: ['warn'], categories: ['app', 'rpc', 'retry', 'limiter'] }).map((e) => e.id)).toEqual(['2', '3'])
+    expect(filterLogEntries(entries, { levels: ['info', 'warn', 'error'], categories: ['rpc'] }).map((e) => e.id)).toEqual(['3'])
+    expect(filterLogEntries(entries, { levels: ['info', 'warn', 'error'], categories: ['app', 'rpc', 'retry', 'limiter'], query: 'LOAD-7' }).map((e) => e.id)).toEqual(['1'])
+  })
+
+  it('summarizes latency per method with nearest-rank percentiles and failed calls', () => {
+    const durations = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120, 130, 140, 150, 160, 170, 180, 190, 1_000]
+    const entries = [
+      ...durations.map((ms, i) => rpc(i, 'getTransactionReceipt', ms, i === 19 ? 'warn' : 'info')),
+      rpc(20, 'getBlockWithTxs', 300),
+      entry(21, { category: 'retry', method: 'getBlockWithTxs', attempt: 2 })
+    ]
+
+    expect(summarizeLatency(entries)).toEqual([
+      { method: 'getTransactionReceipt', count: 20, p50: 100, p95: 190, errors: 1 },
+      { method: 'getBlockWithTxs', count: 1, p50: 300, p95: 300, errors: 0 }
+    ])
+  })
+
+  it('exports the retained entries with the summary as JSON', () => {
+    const log = appendLogEntries({ entries: [], dropped: 5 }, [rpc(1, 'getClassAt', 25)])
+    const file = buildLogExport(log)
+
+    expect(file.mime).toBe('application/json')
+    expect(file.filename).toMatch(/^activity-log-.+\.json$/)
+    expect(JSON.parse(file.content)).toMatchObject({
+      retained: 1,
+      dropped: 5,
+      latency: [{ method: 'getClassAt', count: 1, p50: 25, p95: 25, errors: 0 }],
+      entries: [{ id: '1', category: 'rpc', method: 'getClassAt', durationMs: 25 }]
+    })
+  })
+})
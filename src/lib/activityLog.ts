@@ -0,0 +1,100 @@
+import { ActivityLogCategory, ActivityLogEntry, ActivityLogLevel } from '../types'
+
+// Every RPC call adds an entry, so the log keeps only the newest ones.
+export const MAX_LOG_ENTRIES = 2_000
+// Successful RPC calls are retained apart from, and fewer than, the rest, so a scan does not push warnings and errors out.
+export const MAX_ROUTINE_RPC_ENTRIES = 500
+
+export const ACTIVITY_LOG_LEVELS: ActivityLogLevel[] = ['info', 'warn', 'error']
+export const ACTIVITY_LOG_CATEGORIES: ActivityLogCategory[] = ['app', 'rpc', 'retry', 'limiter']
+
+export interface ActivityLog {
+  entries: ActivityLogEntry[]
+  /** Entries pushed out of the buffer since the session started. */
+  dropped: number
+}
+
+export const emptyActivityLog = (): ActivityLog => ({ entries: [], dropped: 0 })
+
+let loadCounter = 0
+
+/** Id shared by the entries of one load, e.g. `load-3`; `kind` tells loads, exports and follow sessions apart. */
+export const nextLoadId = (kind: string): string => `${kind}-${(loadCounter += 1)}`
+
+const isRoutineRpc = (entry: ActivityLogEntry): boolean => entry.category === 'rpc' && entry.level === 'info'
+
+/**
+ * Appends entries with ring-buffer retention: the oldest successful RPC calls are dropped beyond `maxRoutine`,
+ * the oldest of every other entry beyond `max`.
+ */
+export function appendLogEntries(log: ActivityLog, added: ActivityLogEntry[], max = MAX_LOG_ENTRIES, maxRoutine = MAX_ROUTINE_RPC_ENTRIES): ActivityLog {
+  const entries = [...log.entries, ...added]
+  const routine = entries.filter(isRoutineRpc).length
+  let routineOverflow = Math.max(0, routine - maxRoutine)
+  let otherOverflow = Math.max(0, entries.length - routine - max)
+  const overflow = routineOverflow + otherOverflow
+  if (!overflow) return { entries, dropped: log.dropped }
+  const kept = entries.filter((entry) => {
+    if (isRoutineRpc(entry)) return routineOverflow-- <= 0
+    return otherOverflow-- <= 0
+  })
+  return { entries: kept, dropped: log.dropped + overflow }
+}
+
+export interface LogFilter {
+  levels: ActivityLogLevel[]
+  categories: ActivityLogCategory[]
+  /** Case-insensitive match on the message, method, endpoint and load id. */
+  query?: string
+}
+
+export function filterLogEntries(entries: ActivityLogEntry[], filter: LogFilter): ActivityLogEntry[] {
+  const query = filter.query?.trim().toLowerCase()
+  return entries.filter((entry) => filter.levels.includes(entry.level)
+    && filter.categories.includes(entry.category)
+    && (!query || [entry.message, entry.method, entry.endpoint, entry.loadId].some((field) => field?.toLowerCase().includes(query))))
+}
+
+export interface MethodLatency {
+  method: string
+  count: number
+  p50: number
+  p95: number
+  /** Calls that failed or were rejected by the endpoint. */
+  errors: number
+}
+
+// Nearest-rank percentile of an ascending list.
+const percentile = (sorted: number[], p: number): number => sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]
+
+/** Latency per RPC method over the retained `rpc` entries, busiest method first. */
+export function summarizeLatency(entries: ActivityLogEntry[]): MethodLatency[] {
+  const byMethod = new Map<string, { durations: number[]; errors: number }>()
+  for (const entry of entries) {
+    if (entry.category !== 'rpc' || !entry.method || entry.durationMs == null) continue
+    const stats = byMethod.get(entry.method) ?? { durations: [], errors: 0 }
+    stats.durations.push(entry.durationMs)
+    if (entry.level !== 'info') stats.errors += 1
+    byMethod.set(entry.method, stats)
+  }
+  return [...byMethod.entries()]
+    .map(([method, { durations, errors }]) => {
+      const sorted = [...durations].sort((a, b) => a - b)
+      return { method, count: sorted.length, p50: percentile(sorted, 50), p95: percentile(sorted, 95), errors }
+    })
+    .sort((a, b) => b.count - a.count || a.method.localeCompare(b.method))
+}
+
+/** JSON file of the retained entries and their latency summary, meant to be attached to bug reports. */
+export function buildLogExport(log: ActivityLog): { content: string; mime: string; filename: string } {
+  const exportedAt = new Date().toISOString()
+  const content = JSON.stringify({
+    exportedAt,
+    userAgent: typeof navigator === 'undefined' ? undefined : navigator.userAgent,
+    retained: log.entries.length,
+    dropped: log.dropped,
+    latency: summarizeLatency(log.entries),
+    entries: log.entries
+  }, null, 2)
+  return { content, mime: 'application/json', filename: `activity-log-${exportedAt.replace(/[:.]/g, '-')}.json` }
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest'
+import { TxRow } from '../types'
+import { OTHER_SERIES, UNKNOWN_REASON, activityBuckets, callerProfile, contractKpis, failureGroups, methodBuckets, pickBucketSize, sharedCallers } from './aggregations'
+
+const row = (timestamp: number, extra: Partial<TxRow> = {}): TxRow => ({
+  timestamp,
+  txHash: `0x${timestamp.toString(16)}`,
+  type: 'INVOKE',
+  entrypoint: 'transfer',
+  caller: '0x1',
+  to: '0xcafe',
+  fee: { amount: '10', unit: 'WEI' },
+  status: 'ACCEPTED',
+  network: 'mainnet',
+  ...extra
+})
+
+describe('pickBucketSize', () => {
+  it('uses hourly buckets for short ranges only', () => {
+    expect(pickBucketSize(0, 2 * 86400)).toBe('hour')
+    expect(pickBucketSize(0, 7 * 86400)).toBe('day')
+    expect(pickBucketSize()).toBe('day')
+  })
+})
+
+describe('activityBuckets', () => {
+  it('aggregates per bucket and fills gaps across the range', () => {
+    const rows = [
+      row(3600 + 10),
+      row(3600 + 20, { caller: '0x2', status: 'REJECTED', fee: { amount: '5', unit: 'FRI' } }),
+      row(3 * 3600 + 5, { type: 'L1_HANDLER' })
+    ]
+
+    const { buckets, series } = activityBuckets(rows, { size: 'hour', stackBy: 'type', from: 0, to: 4 * 3600 - 1 })
+
+    expect(buckets.map((b) => b.start)).toEqual([0, 3600, 7200, 10800])
+    expect(buckets[1]).toMatchObject({ count: 2, callers: 2, rejectedShare: 0.5, fees: { WEI: 10n, FRI: 5n }, series: { INVOKE: 2 } })
+    expect(buckets[2].count).toBe(0)
+    expect(series).toEqual(['INVOKE', 'L1_HANDLER'])
+  })
+
+  it('groups methods outside the top five into one series', () => {
+    const rows = ['a', 'b', 'c', 'd', 'e', 'f'].flatMap((name, i) => Array.from({ length: 6 - i }, (_, j) => row(i * 10 + j, { entrypoint: name })))
+
+    const { series, buckets } = activityBuckets(rows, { size: 'day', stackBy: 'method' })
+
+    expect(series).toEqual(['a', 'b', 'c', 'd', 'e', OTHER_SERIES])
+    expect(buckets[0].series[OTHER_SERIES]).toBe(1)
+  })
+})
+
+describe('methodBuckets', () => {
+  it('counts calls, callers and reverts per method and bucket', () => {
+    const rows = [
+      row(10, { entrypoint: 'swap' }),
+      row(20, { entrypoint: 'swap', caller: '0x2', status: 'REJECTED' }),
+      row(2 * 86400, { calls: [{ entrypoint: 'approve', entrypointResolved: true, calldata: [] }, { entrypoint: 'swap', entrypointResolved: true, calldata: [] }] }),
+      // A multicall approving twice counts as two approve calls, as in the method ranking.
+      row(2 * 86400 + 10, { caller: '0x3', status: 'REJECTED', calls: [{ entrypoint: 'approve', entrypointResolved: true, calldata: [] }, { entrypoint: 'approve', entrypointResolved: true, calldata: [] }] })
+    ]
+
+    const heatmap = methodBuckets(rows, { size: 'day' })
+
+    expect(heatmap.methods).toEqual(['swap', 'approve'])
+    expect(heatmap.starts).toEqual([0, 86400, 172800])
+    expect(heatmap.cells[0][0]).toEqual({ count: 2, callers: 2, revertRate: 0.5 })
+    expect(heatmap.cells[0][1].count).toBe(0)
+    expect(heatmap.cells[1][2]).toEqual({ count: 3, callers: 2, revertRate: 2 / 3 })
+    expect(heatmap.max).toBe(3)
+  })
+})
+
+describe('callerProfile', () => {
+  it('summarises the transactions of one caller', () => {
+    const rows = [
+      row(100, { caller: '0x2', status: 'REJECTED', entrypoint: 'swap' }),
+      row(200, { caller: '0x2' }),
+      row(300, { caller: '0x3' })
+    ]
+
+    const profile = callerProfile(rows, '0x2')
+
+    expect(profile.rows.map((r) => r.timestamp)).toEqual([100, 200])
+    expect(profile).toMatchObject({ total: 2, revertRate: 0.5, first: 100, last: 200 })
+    expect(profile.fees.WEI.total).toBe(20n)
+    expect(profile.methods).toEqual([{ name: 'swap', count: 1 }, { name: 'transfer', count: 1 }])
+    expect(profile.timeline.size).toBe('hour')
+  })
+})
+
+describe('failureGroups', () => {
+  it('groups rejected transactions by reason and method', () => {
+    const rows = [
+      row(10, { status: 'REJECTED', revertReason: 'Not owner', entrypoint: 'withdraw' }),
+      row(86400 + 10, { status: 'REJECTED', revertReason: 'Not owner', entrypoint: 'withdraw', caller: '0x2' }),
+      row(20, { status: 'REJECTED', entrypoint: 'withdraw' }),
+      row(30)
+    ]
+
+    const { total, starts, groups } = failureGroups(rows, { size: 'day' })
+
+    expect(total).toBe(3)
+    expect(starts).toEqual([0, 86400])
+    expect(groups[0]).toMatchObject({ reason: 'Not owner', method: 'withdraw', count: 2, callers: 2, buckets: [1, 1], first: 10, last: 86410 })
+    expect(groups[0].examples).toEqual([rows[1].txHash, rows[0].txHash])
+    expect(groups[1]).toMatchObject({ reason: UNKNOWN_REASON, count: 1 })
+  })
+})
+
+describe('watchlist aggregations', () => {
+  const rows = [
+    row(10, { caller: '0x1', to: '0x0aa' }),
+    row(20, { caller: '0x1', to: '0xbb' }),
+    row(30, { caller: '0x2', to: '0xaa' }),
+    row(40, { caller: '0x2', to: '0xaa' })
+  ]
+
+  it('computes KPIs per contract, matching addresses by value', () => {
+    const [aa, bb] = contractKpis(rows, ['0xaa', '0xbb'])
+
+    expect(aa).toMatchObject({ address: '0xaa', total: 3, callers: 2, lastTs: 40 })
+    expect(bb).toMatchObject({ address: '0xbb', total: 1, callers: 1 })
+  })
+
+  it('lists callers that touch more than one contract', () => {
+    expect(sharedCallers(rows)).toEqual([{ address: '0x1', contracts: ['0xaa', '0xbb'], count: 2 }])
+  })
+})
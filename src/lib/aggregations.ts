@@ -1,4 +1,80 @@
-import { TxRow } from '../types'
+import { ContractEvent, FeeUnit, TxRow } from '../types'
+import { FEE_UNITS, feeAmount } from './fees'
 export function topCallers(rows:TxRow[], limit=100){ const m=new Map<string,{count:number;last:number}>(); for(const r of rows){ const v=m.get(r.caller)||{count:0,last:0}; v.count++; v.last=Math.max(v.last,r.timestamp); m.set(r.caller,v) } const total=rows.length||1; return [...m.entries()].sort((a,b)=>b[1].count-a[1].count).slice(0,limit).map(([address,v],i)=>({rank:i+1,address,count:v.count,share:(v.count/total)*100,last:v.last})) }
-export function methodCounts(rows:TxRow[], limit=20){ const m=new Map<string,number>(); for(const r of rows){ const k=r.entrypoint||'—'; m.set(k,(m.get(k)||0)+1) } return [...m.entries()].sort((a,b)=>b[1]-a[1]).slice(0,limit).map(([name,count])=>({name,count})) }
-export function kpis(rows:TxRow[]){ const total=rows.length; const callers=new Set(rows.map(r=>r.caller)).size; const avgFee= total? rows.reduce((s,r)=>s+r.fee,0)/total:0; const lastTs= rows.reduce((m,r)=>Math.max(m,r.timestamp),0); return { total, callers, avgFee, lastTs } }
+export const UNKNOWN_METHOD = '—'
+const rowMethods=(r:TxRow)=> r.calls?.length? r.calls.map(c=>c.entrypoint) : [r.entrypoint||UNKNOWN_METHOD]
+export function methodCounts(rows:TxRow[], limit=20){ const m=new Map<string,number>(); for(const r of rows){ for(const k of rowMethods(r)) m.set(k,(m.get(k)||0)+1) } return [...m.entries()].sort((a,b)=>b[1]-a[1]).slice(0,limit).map(([name,count])=>({name,count})) }
+export type FeeSummary = { count:number; total:bigint; avg:bigint }
+export function feeSummary(rows:TxRow[]){ const fees=Object.fromEntries(FEE_UNITS.map(u=>[u,{count:0,total:0n,avg:0n}])) as Record<FeeUnit,FeeSummary>; for(const r of rows){ const f=fees[r.fee.unit]; f.count++; f.total+=feeAmount(r.fee) } for(const f of Object.values(fees)) f.avg= f.count? f.total/BigInt(f.count) : 0n; return fees }
+export function kpis(rows:TxRow[]){ const total=rows.length; const callers=new Set(rows.map(r=>r.caller)).size; const fees=feeSummary(rows); const lastTs= rows.reduce((m,r)=>Math.max(m,r.timestamp),0); return { total, callers, fees, lastTs } }
+
+export type BucketSize = 'hour' | 'day'
+export type StackBy = 'method' | 'type'
+export type ActivityBucket = { start:number; count:number; callers:number; fees:Record<FeeUnit,bigint>; rejectedShare:number; series:Record<string,number> }
+const BUCKET_SECONDS:Record<BucketSize,number> = { hour:3600, day:86400 }
+const MAX_STACKED_SERIES = 5
+export const OTHER_SERIES = 'other'
+// Every bucket start across the requested range, so gaps in activity stay visible.
+function bucketStarts(starts:number[], step:number, from?:number, to?:number){
+  if(!starts.length) return []
+  const first=Math.floor((from ?? Math.min(...starts))/step)*step, last=Math.floor((to ?? Math.max(...starts))/step)*step
+  const all=new Set(starts); for(let t=first; t<=last && all.size<5000; t+=step) all.add(t)
+  return [...all].sort((a,b)=>a-b)
+}
+// Ranges of up to three days are shown per hour, anything longer per day.
+export function pickBucketSize(from?:number, to?:number){ return from!=null && to!=null && to-from<=3*86400 ? 'hour' : 'day' }
+export function activityBuckets(rows:TxRow[], { size, stackBy, from, to }:{ size:BucketSize; stackBy:StackBy; from?:number; to?:number }){
+  const step=BUCKET_SECONDS[size]; const floor=(ts:number)=>Math.floor(ts/step)*step
+  const seriesOf=(r:TxRow)=> stackBy==='type' ? [r.type] : rowMethods(r)
+  const top=stackBy==='method' ? new Set(methodCounts(rows,MAX_STACKED_SERIES).map(m=>m.name)) : undefined
+  const series=new Set<string>()
+  const buckets=new Map<number,ActivityBucket & { callerSet:Set<string>; rejected:number }>()
+  const bucketAt=(start:number)=>{ let b=buckets.get(start); if(!b){ b={ start, count:0, callers:0, fees:Object.fromEntries(FEE_UNITS.map(u=>[u,0n])) as Record<FeeUnit,bigint>, rejectedShare:0, series:{}, callerSet:new Set(), rejected:0 }; buckets.set(start,b) } return b }
+  for(const r of rows){
+    const b=bucketAt(floor(r.timestamp)); b.count++; b.callerSet.add(r.caller); b.fees[r.fee.unit]+=feeAmount(r.fee); if(r.status==='REJECTED') b.rejected++
+    for(const name of seriesOf(r)){ const key=top&&!top.has(name)? OTHER_SERIES : name; series.add(key); b.series[key]=(b.series[key]||0)+1 }
+  }
+  for(const t of bucketStarts([...buckets.keys()],step,from,to)) bucketAt(t)
+  const result=[...buckets.values()].sort((a,b)=>a.start-b.start).map(({ callerSet, rejected, ...b })=>({ ...b, callers:callerSet.size, rejectedShare:b.count? rejected/b.count : 0 }))
+  const keys=[...series].sort((a,b)=> a===OTHER_SERIES? 1 : b===OTHER_SERIES? -1 : a.localeCompare(b))
+  return { size, step, buckets:result, series:keys }
+}
+// Cells count calls, like methodCounts that ranks the methods: a multicall repeating a method counts once per call.
+export type MethodCell = { count:number; callers:number; revertRate:number }
+export function methodBuckets(rows:TxRow[], { size, from, to, limit=12 }:{ size:BucketSize; from?:number; to?:number; limit?:number }){
+  const step=BUCKET_SECONDS[size]; const floor=(ts:number)=>Math.floor(ts/step)*step
+  const methods=methodCounts(rows,limit).map(m=>m.name)
+  const cells=new Map<string,{ count:number; callers:Set<string>; rejected:number }>()
+  for(const r of rows){ for(const name of rowMethods(r)){ const key=`${name}@${floor(r.timestamp)}`; const c=cells.get(key)||{ count:0, callers:new Set<string>(), rejected:0 }; c.count++; c.callers.add(r.caller); if(r.status==='REJECTED') c.rejected++; cells.set(key,c) } }
+  const starts=bucketStarts([...new Set(rows.map(r=>floor(r.timestamp)))],step,from,to)
+  const grid=methods.map(name=>starts.map((start):MethodCell=>{ const c=cells.get(`${name}@${start}`); return c? { count:c.count, callers:c.callers.size, revertRate:c.rejected/c.count } : { count:0, callers:0, revertRate:0 } }))
+  return { step, methods, starts, cells:grid, max:Math.max(0,...grid.flat().map(c=>c.count)) }
+}
+export function callerProfile(rows:TxRow[], address:string){
+  const own=rows.filter(r=>r.caller===address)
+  const first=own.reduce((m,r)=>Math.min(m,r.timestamp),Infinity), last=own.reduce((m,r)=>Math.max(m,r.timestamp),0)
+  const rejected=own.filter(r=>r.status==='REJECTED').length
+  const timeline=activityBuckets(own,{ size:own.length&&last-first<=3*86400? 'hour' : 'day', stackBy:'type' })
+  return { rows:own, total:own.length, fees:feeSummary(own), revertRate:own.length? rejected/own.length : 0, first:own.length? first : 0, last, methods:methodCounts(own,10), timeline }
+}
+export const UNKNOWN_REASON = 'unknown reason'
+export type FailureGroup = { reason:string; method:string; count:number; callers:number; first:number; last:number; examples:string[]; buckets:number[] }
+export function failureGroups(rows:TxRow[], { size, from, to, examples=3 }:{ size:BucketSize; from?:number; to?:number; examples?:number }){
+  const step=BUCKET_SECONDS[size]; const floor=(ts:number)=>Math.floor(ts/step)*step
+  const failed=rows.filter(r=>r.status==='REJECTED')
+  const starts=bucketStarts([...new Set(failed.map(r=>floor(r.timestamp)))],step,from,to); const index=new Map(starts.map((s,i)=>[s,i]))
+  const groups=new Map<string,FailureGroup & { callerSet:Set<string> }>()
+  for(const r of [...failed].sort((a,b)=>b.timestamp-a.timestamp)){
+    const reason=r.revertReason||UNKNOWN_REASON, method=rowMethods(r).join(', '), key=`${reason}\u0000${method}`
+    let g=groups.get(key); if(!g){ g={ reason, method, count:0, callers:0, first:r.timestamp, last:r.timestamp, examples:[], buckets:starts.map(()=>0), callerSet:new Set() }; groups.set(key,g) }
+    g.count++; g.callerSet.add(r.caller); g.first=Math.min(g.first,r.timestamp); g.last=Math.max(g.last,r.timestamp)
+    if(g.examples.length<examples) g.examples.push(r.txHash)
+    const i=index.get(floor(r.timestamp)); if(i!=null) g.buckets[i]++
+  }
+  const result=[...groups.values()].map(({ callerSet, ...g })=>({ ...g, callers:callerSet.size })).sort((a,b)=>b.count-a.count||b.last-a.last)
+  return { step, starts, total:failed.length, groups:result }
+}
+export function eventCounts(events:ContractEvent[]){ const m=new Map<string,number>(); for(const e of events) m.set(e.name,(m.get(e.name)||0)+1); return [...m.entries()].sort((a,b)=>b[1]-a[1]).map(([name,count])=>({name,count})) }
+export const addrKey=(a:string)=>{ try{ return `0x${BigInt(a).toString(16)}` }catch{ return a.toLowerCase() } }
+export function contractKpis(rows:TxRow[], contracts:string[]){ const groups=new Map(contracts.map(c=>[addrKey(c),[] as TxRow[]])); for(const r of rows) groups.get(addrKey(r.to))?.push(r); return contracts.map(address=>({ address, ...kpis(groups.get(addrKey(address))||[]) })) }
+export function sharedCallers(rows:TxRow[], limit=50){ const m=new Map<string,Map<string,number>>(); for(const r of rows){ const c=m.get(r.caller)||new Map<string,number>(); const k=addrKey(r.to); c.set(k,(c.get(k)||0)+1); m.set(r.caller,c) } return [...m.entries()].filter(([,c])=>c.size>1).map(([address,c])=>({ address, contracts:[...c.keys()], count:[...c.values()].reduce((s,v)=>s+v,0) })).sort((a,b)=>b.contracts.length-a.contracts.length||b.count-a.count).slice(0,limit) }
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { describeCoverage } from './coverage'
+import { CoverageReport } from './starknetClient'
+
+const report = (overrides: Partial<CoverageReport> = {}): CoverageReport => ({
+  requested: { fromBlock: 800_000, toBlock: 812_340 },
+  eventsCovered: { fromBlock: 800_000, toBlock: 812_340 },
+  eventsPages: 3,
+  eventsComplete: true,
+  fallback: { fromBlock: 800_000, toBlock: 812_340, nextBlock: 811_999, blocksTotal: 12_341, blocksCovered: 341, blocksSkipped: 0, complete: false },
+  traceBudget: { used: 200, total: 200 },
+  skipped: [],
+  skippedCount: 0,
+  stoppedBy: 'trace-budget',
+  morePages: false,
+  matched: 1_240,
+  exact: false,
+  ...overrides
+})
+
+describe('describeCoverage', () => {
+  it('describes a partial scan as a lower bound with the traced block span', () => {
+    const { headline, details } = describeCoverage(report({ skipped: [{ txHash: '0x1', reason: 'receipt: timeout' }], skippedCount: 1 }), 1_240)
+
+    expect(headline).toBe('showing 1,240 of ≥1,240; blocks 812,000–812,340 of 800,000–812,340 scanned')
+    expect(details).toEqual([
+      '3 events pages read',
+      'trace budget 200/200 used',
+      'stopped when the trace budget ran out',
+      '1 skipped after RPC errors'
+    ])
+  })
+
+  it('gives an exact total once the range is covered and nothing was skipped', () => {
+    const complete = report({
+      fallback: { fromBlock: 800_000, toBlock: 812_340, nextBlock: 799_999, blocksTotal: 12_341, blocksCovered: 12_341, blocksSkipped: 12_000, complete: true },
+      stoppedBy: undefined,
+      exact: true
+    })
+
+    expect(describeCoverage(complete, 20).headline).toBe('showing 20 of 1,240; blocks 800,000–812,340 scanned')
+    expect(describeCoverage(complete, 20).details).toContain('12,000 blocks skipped, traced by an earlier load')
+    expect(describeCoverage(report({ eventsComplete: false, eventsCovered: undefined }), 0).headline)
+      .toBe('showing 0 of ≥1,240; no events of 800,000–812,340 read yet')
+  })
+})
@@ -0,0 +1,35 @@
+import { CoverageReport } from './starknetClient'
+
+const fmtCount = (n: number): string => n.toLocaleString('en-US')
+
+const fmtSpan = (fromBlock: number, toBlock: number): string => `${fmtCount(fromBlock)}–${fmtCount(toBlock)}`
+
+/** Which part of the requested range the scan has looked at, in the order the scan walks it. */
+function scannedText(c: CoverageReport): string {
+  const requested = fmtSpan(c.requested.fromBlock, c.requested.toBlock)
+  if (!c.eventsComplete) {
+    return c.eventsCovered
+      ? `events read for blocks ${fmtSpan(c.eventsCovered.fromBlock, c.eventsCovered.toBlock)} of ${requested}`
+      : `no events of ${requested} read yet`
+  }
+  if (c.fallback.complete) return `blocks ${requested} scanned`
+  if (c.fallback.blocksCovered === 0) return `events read; blocks ${requested} not traced yet`
+  return `blocks ${fmtSpan(Math.max(c.fallback.nextBlock + 1, c.requested.fromBlock), c.requested.toBlock)} of ${requested} scanned`
+}
+
+/**
+ * Summary line and detail notes for a coverage report, e.g. "showing 1,240 of ≥1,240; blocks 812,000–812,340
+ * of 800,000–812,340 scanned". `shown` is the number of rows on screen.
+ */
+export function describeCoverage(c: CoverageReport, shown: number): { headline: string; details: string[] } {
+  const total = `${c.exact ? '' : '≥'}${fmtCount(Math.max(c.matched, shown))}`
+  const details = [
+    `${c.eventsPages} events ${c.eventsPages === 1 ? 'page' : 'pages'} read`,
+    `trace budget ${c.traceBudget.used}/${c.traceBudget.total} used`
+  ]
+  if (c.fallback.blocksSkipped > 0) details.push(`${fmtCount(c.fallback.blocksSkipped)} blocks skipped, traced by an earlier load`)
+  if (c.stoppedBy === 'page-limit') details.push('stopped at the page size')
+  if (c.stoppedBy === 'trace-budget') details.push('stopped when the trace budget ran out')
+  if (c.skippedCount > 0) details.push(`${fmtCount(c.skippedCount)} skipped after RPC errors`)
+  return { headline: `showing ${fmtCount(shown)} of ${total}; ${scannedText(c)}`, details }
+}
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import WebSocket, { WebSocketServer } from 'ws'
+import { AddressInfo } from 'node:net'
+import { TxRow } from '../types'
+import { fetchInteractions } from './starknetClient'
+import { EventSubscription, SubscriptionStatus, WebSocketLike } from './eventSubscription'
+
+vi.mock('./starknetClient', () => ({
+  fetchInteractions: vi.fn()
+}))
+
+const mockFetch = vi.mocked(fetchInteractions)
+
+const row = (txHash: string, blockNumber: number): TxRow => ({
+  timestamp: blockNumber * 10,
+  txHash,
+  blockNumber,
+  type: 'INVOKE',
+  caller: '0x1',
+  to: '0xcafe',
+  fee: { amount: '0', unit: 'WEI' },
+  status: 'ACCEPTED',
+  network: 'mainnet'
+})
+
+type Handler = (message: any, reply: (payload: unknown) => void) => void
+
+let server: WebSocketServer
+let subscription: EventSubscription | undefined
+
+const startServer = async (handler: Handler) => {
+  server = new WebSocketServer({ port: 0 })
+  server.on('connection', (socket) => {
+    socket.on('message', (data) => handler(JSON.parse(String(data)), (payload) => socket.send(JSON.stringify(payload))))
+  })
+  await new Promise<void>((resolve) => server.once('listening', () => resolve()))
+  return `ws://127.0.0.1:${(server.address() as AddressInfo).port}`
+}
+
+const waitFor = async (predicate: () => boolean, timeoutMs = 3000) => {
+  const started = Date.now()
+  while (!predicate()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out waiting for condition')
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+const createSocket = (url: string) => new WebSocket(url) as unknown as WebSocketLike
+
+beforeEach(() => {
+  mockFetch.mockReset()
+})
+
+afterEach(async () => {
+  subscription?.stop()
+  subscription = undefined
+  await new Promise<void>((resolve) => server.close(() => resolve()))
+})
+
+describe('EventSubscription', () => {
+  it('subscribes to the watched address and enriches pushed events in one batch', async () => {
+    const url = await startServer((message, reply) => {
+      reply({ jsonrpc: '2.0', id: message.id, result: `sub-${message.id}` })
+      if (message.method !== 'starknet_subscribeEvents') return
+      expect(message.params).toEqual({ from_address: '0xcafe' })
+      for (const txHash of ['0xa', '0xb', '0xa']) {
+        reply({
+          jsonrpc: '2.0',
+          method: 'starknet_subscriptionEvents',
+          params: { subscription_id: 'sub-1', result: { transaction_hash: txHash, block_number: 12, from_address: '0xcafe' } }
+        })
+      }
+      reply({
+        jsonrpc: '2.0',
+        method: 'starknet_subscriptionNewHeads',
+        params: { subscription_id: 'sub-2', result: { block_number: 12, block_hash: '0xh12' } }
+      })
+    })
+    mockFetch.mockResolvedValue({ rows: [row('0xb', 12), row('0xa', 12)] })
+
+    const rows: TxRow[][] = []
+    const heads: number[] = []
+    const statuses: SubscriptionStatus[] = []
+    subscription = new EventSubscription({
+      url,
+      address: '0xcafe',
+      network: 'mainnet',
+      filters: {},
+      onRows: (pushed) => rows.push(pushed),
+      onHead: (head) => heads.push(head.blockNumber),
+      onStatus: (status) => statuses.push(status),
+      createSocket
+    })
+    subscription.start()
+
+    await waitFor(() => rows.length > 0)
+
+    expect(statuses).toEqual(['connecting', 'subscribed'])
+    expect(heads).toEqual([12])
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(mockFetch.mock.calls[0][0].transactions).toEqual([
+      { txHash: '0xa', blockNumber: 12 },
+      { txHash: '0xb', blockNumber: 12 }
+    ])
+    expect(rows[0].map((r) => r.txHash)).toEqual(['0xb', '0xa'])
+  })
+
+  it('reports an endpoint without subscription methods as unsupported', async () => {
+    const url = await startServer((message, reply) => {
+      reply({ jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'Method not found' } })
+    })
+
+    const statuses: SubscriptionStatus[] = []
+    subscription = new EventSubscription({
+      url,
+      address: '0xcafe',
+      network: 'mainnet',
+      filters: {},
+      onRows: () => {},
+      onStatus: (status) => statuses.push(status),
+      createSocket
+    })
+    subscription.start()
+
+    await waitFor(() => statuses.includes('unsupported'))
+
+    expect(statuses).toEqual(['connecting', 'unsupported'])
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,218 @@
+import { TxRow } from '../types'
+import { FetchParams, fetchInteractions } from './starknetClient'
+
+const BASE_RECONNECT_DELAY_MS = 1_000
+const MAX_RECONNECT_DELAY_MS = 30_000
+// After this many connection attempts in a row that never open, the endpoint is treated as unusable.
+const MAX_FAILED_CONNECTS = 5
+// Events of one block arrive in a burst; enrich them together.
+const FLUSH_DELAY_MS = 250
+const METHOD_NOT_FOUND = -32601
+
+export type SubscriptionStatus = 'connecting' | 'subscribed' | 'reconnecting' | 'unsupported' | 'closed'
+
+export interface WebSocketLike {
+  send(data: string): void
+  close(): void
+  onopen: ((event: any) => void) | null
+  onmessage: ((event: { data: any }) => void) | null
+  onclose: ((event: any) => void) | null
+  onerror: ((event: any) => void) | null
+}
+
+export interface EventSubscriptionOptions extends Pick<FetchParams, 'address' | 'network' | 'filters' | 'log'> {
+  url: string
+  onRows: (rows: TxRow[]) => void
+  onHead?: (head: { blockNumber: number; blockHash: string }) => void
+  /** Called with the first orphaned block when the node reports a reorg. */
+  onReorg?: (fromBlock: number) => void
+  onStatus?: (status: SubscriptionStatus) => void
+  createSocket?: (url: string) => WebSocketLike
+}
+
+/**
+ * Subscribes to `starknet_subscribeEvents` and `starknet_subscribeNewHeads` for the watched contract and
+ * turns pushed events into rows through the regular receipt and transaction enrichment. Dropped
+ * connections are retried with exponential backoff; an endpoint without subscription support reports
+ * the `unsupported` status so the caller can fall back to polling.
+ */
+export class EventSubscription {
+  private readonly options: EventSubscriptionOptions
+
+  private readonly controller = new AbortController()
+
+  private readonly pending = new Map<string, number | undefined>()
+
+  private socket?: WebSocketLike
+
+  private stopped = false
+
+  private attempt = 0
+
+  private failedConnects = 0
+
+  private requestId = 0
+
+  private eventsRequestId?: number
+
+  private reconnectTimer?: ReturnType<typeof setTimeout>
+
+  private flushTimer?: ReturnType<typeof setTimeout>
+
+  constructor(options: EventSubscriptionOptions) {
+    this.options = options
+  }
+
+  start(): void {
+    this.connect()
+  }
+
+  stop(): void {
+    if (this.stopped) return
+    this.stopped = true
+    clearTimeout(this.reconnectTimer)
+    clearTimeout(this.flushTimer)
+    this.controller.abort()
+    this.closeSocket()
+    this.options.onStatus?.('closed')
+  }
+
+  private connect(): void {
+    this.options.onStatus?.(this.attempt > 0 ? 'reconnecting' : 'connecting')
+
+    let opened = false
+    const createSocket = this.options.createSocket ?? ((url: string) => new WebSocket(url) as unknown as WebSocketLike)
+    const socket = createSocket(this.options.url)
+    this.socket = socket
+
+    socket.onopen = () => {
+      opened = true
+      this.failedConnects = 0
+      this.eventsRequestId = this.request('starknet_subscribeEvents', { from_address: this.options.address })
+      this.request('starknet_subscribeNewHeads', {})
+    }
+    socket.onmessage = (event) => this.handleMessage(event.data)
+    socket.onerror = () => {}
+    socket.onclose = () => {
+      if (this.socket !== socket || this.stopped) return
+      this.socket = undefined
+      if (!opened) this.failedConnects += 1
+
+      if (this.failedConnects >= MAX_FAILED_CONNECTS) {
+        this.options.log?.({ level: 'warn', message: `[ws] ${this.options.url} unreachable; falling back to polling.` })
+        this.giveUp()
+        return
+      }
+
+      this.scheduleReconnect()
+    }
+  }
+
+  private scheduleReconnect(): void {
+    this.attempt += 1
+    const delayMs = Math.min(BASE_RECONNECT_DELAY_MS * 2 ** (this.attempt - 1), MAX_RECONNECT_DELAY_MS)
+    this.options.log?.({ level: 'warn', message: `[ws] Connection lost. Reconnecting in ${delayMs}ms (attempt ${this.attempt}).` })
+    this.reconnectTimer = setTimeout(() => this.connect(), delayMs)
+  }
+
+  private request(method: string, params: unknown): number {
+    this.requestId += 1
+    this.socket?.send(JSON.stringify({ jsonrpc: '2.0', id: this.requestId, method, params }))
+    return this.requestId
+  }
+
+  private handleMessage(data: unknown): void {
+    let message: any
+    try {
+      message = JSON.parse(String(data))
+    } catch {
+      return
+    }
+
+    if (message?.id != null) {
+      if (message.error) {
+        const { code, message: reason } = message.error
+        this.options.log?.({ level: 'warn', message: `[ws] Subscription rejected (${code}): ${reason}` })
+        if (code === METHOD_NOT_FOUND || message.id === this.eventsRequestId) this.giveUp()
+        return
+      }
+
+      if (message.id === this.eventsRequestId) {
+        this.attempt = 0
+        this.options.onStatus?.('subscribed')
+      }
+      return
+    }
+
+    const result = message?.params?.result
+    switch (message?.method) {
+      case 'starknet_subscriptionEvents':
+        if (result?.transaction_hash) {
+          this.pending.set(String(result.transaction_hash), result.block_number != null ? Number(result.block_number) : undefined)
+          this.scheduleFlush()
+        }
+        break
+      case 'starknet_subscriptionNewHeads':
+        if (result?.block_number != null) {
+          this.options.onHead?.({ blockNumber: Number(result.block_number), blockHash: String(result.block_hash) })
+        }
+        break
+      case 'starknet_subscriptionReorg':
+        if (result?.starting_block_number != null) {
+          this.options.onReorg?.(Number(result.starting_block_number))
+        }
+        break
+      default:
+        break
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined
+      void this.flush()
+    }, FLUSH_DELAY_MS)
+  }
+
+  private async flush(): Promise<void> {
+    const transactions = [...this.pending].map(([txHash, blockNumber]) => ({ txHash, blockNumber }))
+    this.pending.clear()
+    if (transactions.length === 0) return
+
+    try {
+      const result = await fetchInteractions({
+        address: this.options.address,
+        network: this.options.network,
+        page: 1,
+        pageSize: transactions.length,
+        filters: this.options.filters,
+        log: this.options.log,
+        signal: this.controller.signal,
+        transactions
+      })
+      if (!this.stopped) this.options.onRows(result.rows)
+    } catch (error) {
+      if (this.stopped) return
+      this.options.log?.({ level: 'error', message: `[ws] Could not enrich pushed events: ${(error as any)?.message ?? error}` })
+    }
+  }
+
+  private giveUp(): void {
+    if (this.stopped) return
+    this.stopped = true
+    clearTimeout(this.reconnectTimer)
+    this.closeSocket()
+    this.options.onStatus?.('unsupported')
+  }
+
+  private closeSocket(): void {
+    const socket = this.socket
+    this.socket = undefined
+    try {
+      socket?.close()
+    } catch {
+      // already closed
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { ContractEvent } from '../types'
+import { filterEvents } from './events'
+
+const event = (id: string, name: string, fields?: ContractEvent['fields']): ContractEvent => ({
+  id,
+  txHash: `0x${id}`,
+  name,
+  nameResolved: true,
+  keys: ['0x99'],
+  data: ['0x5'],
+  fields,
+  network: 'mainnet'
+})
+
+const events = [
+  event('1', 'Transfer', [{ name: 'from', value: '0xa' }, { name: 'to', value: '0x0b' }]),
+  event('2', 'Transfer', [{ name: 'from', value: '0xb' }, { name: 'to', value: '0xc' }]),
+  event('3', 'Approval')
+]
+
+describe('filterEvents', () => {
+  it('filters by event name and by a named field, comparing felts by value', () => {
+    expect(filterEvents(events, { name: 'Transfer', field: 'to=0xb' }).map((e) => e.id)).toEqual(['1'])
+  })
+
+  it('matches a bare value against any field, including undecoded data', () => {
+    expect(filterEvents(events, { field: '0xb' }).map((e) => e.id)).toEqual(['1', '2'])
+    expect(filterEvents(events, { field: '5' }).map((e) => e.id)).toEqual(['3'])
+  })
+})
@@ -0,0 +1,31 @@
+import { ContractEvent } from '../types'
+
+export interface EventFilter {
+  name?: string
+  /** Either `value`, matched against every decoded field, or `field=value` for one field. */
+  field?: string
+}
+
+const sameValue = (a: string, b: string): boolean => {
+  if (a.toLowerCase() === b.toLowerCase()) return true
+  // Addresses and felts compare by value, so `0x0abc` matches `0xabc`.
+  try {
+    return /^(0x[0-9a-f]+|\d+)$/i.test(a) && /^(0x[0-9a-f]+|\d+)$/i.test(b) && BigInt(a) === BigInt(b)
+  } catch {
+    return false
+  }
+}
+
+export function filterEvents(events: ContractEvent[], filter: EventFilter): ContractEvent[] {
+  const query = filter.field?.trim()
+  const separator = query ? query.indexOf('=') : -1
+  const fieldName = separator > 0 ? query!.slice(0, separator).trim() : undefined
+  const fieldValue = separator > 0 ? query!.slice(separator + 1).trim() : query
+
+  return events.filter((event) => {
+    if (filter.name && event.name !== filter.name) return false
+    if (!fieldValue) return true
+    const fields = event.fields ?? [...event.keys.slice(1), ...event.data].map((value, i) => ({ name: String(i), value }))
+    return fields.some((field) => (!fieldName || field.name === fieldName) && sameValue(field.value, fieldValue))
+  })
+}
@@ -1,4 +1,6 @@
 import { Network } from '../types'
-export const explorerBase=(net:Network)=> net==='mainnet' ? 'https://starkscan.co' : 'https://sepolia.starkscan.co'
-export const txLink=(net:Network,hash:string)=> `${explorerBase(net)}/tx/${hash}`
-export const addrLink=(net:Network,addr:string)=> `${explorerBase(net)}/contract/${addr}`
+import { getNetworkConfig } from './networks'
+// Custom networks without an explorer base have no links.
+export const explorerBase=(net:Network)=> getNetworkConfig(net)?.explorerUrl?.replace(/\/+$/,'')
+export const txLink=(net:Network,hash:string)=> { const base=explorerBase(net); return base? `${base}/tx/${hash}` : undefined }
+export const addrLink=(net:Network,addr:string)=> { const base=explorerBase(net); return base? `${base}/contract/${addr}` : undefined }
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { TxRow } from '../types'
+import { FetchCursor, fetchInteractions } from './starknetClient'
+import { buildExport, collectAllRows } from './export'
+
+vi.mock('./starknetClient', () => ({
+  fetchInteractions: vi.fn()
+}))
+
+const mockFetch = vi.mocked(fetchInteractions)
+
+const row = (txHash: string, timestamp: number, extra: Partial<TxRow> = {}): TxRow => ({
+  timestamp,
+  txHash,
+  blockNumber: 100,
+  type: 'INVOKE',
+  entrypoint: 'transfer',
+  caller: '0x1',
+  to: '0xcafe',
+  fee: { amount: '1234567890123456789', unit: 'WEI' },
+  status: 'ACCEPTED',
+  network: 'mainnet',
+  ...extra
+})
+
+const cursor = {} as FetchCursor
+const range = { fromBlock: 90, toBlock: 120, latestBlockNumber: 120 }
+
+beforeEach(() => {
+  mockFetch.mockReset()
+})
+
+describe('collectAllRows', () => {
+  it('follows the cursor until the scan completes', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ rows: [row('0xb', 20)], hasMore: true, cursor, range })
+      .mockResolvedValueOnce({ rows: [row('0xa', 10)], hasMore: false, range })
+
+    const collected = await collectAllRows({ address: '0xcafe', network: 'mainnet', filters: {} })
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(mockFetch.mock.calls[1][0].cursor).toBe(cursor)
+    expect(collected.rows.map((r) => r.txHash)).toEqual(['0xb', '0xa'])
+    expect(collected.complete).toBe(true)
+  })
+
+  it('reports an incomplete scan when the page cap is reached', async () => {
+    mockFetch.mockResolvedValue({ rows: [row('0xb', 20)], hasMore: true, cursor, range, traceBudgetExhausted: true })
+
+    const collected = await collectAllRows({ address: '0xcafe', network: 'mainnet', filters: {}, maxPages: 2 })
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(collected.complete).toBe(false)
+    expect(collected.traceBudgetExhausted).toBe(true)
+  })
+})
+
+describe('buildExport', () => {
+  it('writes a metadata header, ISO timestamps and exact fees to CSV', () => {
+    const collected = {
+      rows: [row('0xa', 1_700_000_000, { calls: [{ entrypoint: 'approve', entrypointResolved: true, calldata: [] }, { entrypoint: 'swap', entrypointResolved: true, calldata: [] }] })],
+      range,
+      complete: false,
+      traceBudgetExhausted: false
+    }
+
+    const { content, filename } = buildExport('transactions', 'csv', collected, { network: 'mainnet', address: '0xcafe', filters: { status: 'ACCEPTED' } })
+    const lines = content.trim().split('\n')
+
+    expect(filename).toBe('mainnet-0xcafe-transactions.csv')
+    expect(lines).toContain('# fromBlock: 90')
+    expect(lines).toContain('# complete: false')
+    expect(lines).toContain('# filters: {"status":"ACCEPTED"}')
+    expect(lines.at(-2)).toBe('timestamp,tx_hash,block_number,type,status,methods,caller,to,fee,fee_token,fee_raw,fee_unit,network')
+    expect(lines.at(-1)).toBe('2023-11-14T22:13:20.000Z,0xa,100,INVOKE,ACCEPTED,approve;swap,0x1,0xcafe,1.234567890123456789,ETH,1234567890123456789,WEI,mainnet')
+  })
+
+  it('puts the metadata on the first NDJSON line', () => {
+    const collected = { rows: [row('0xa', 10), row('0xb', 20, { caller: '0x2' })], range, complete: true, traceBudgetExhausted: false }
+
+    const { content } = buildExport('callers', 'ndjson', collected, { network: 'mainnet', address: '0xcafe', filters: {} })
+    const [meta, ...records] = content.trim().split('\n').map((line) => JSON.parse(line))
+
+    expect(meta._meta).toMatchObject({ network: 'mainnet', address: '0xcafe', fromBlock: 90, toBlock: 120, complete: true, rows: 2 })
+    expect(records.map((r) => r.address)).toEqual(['0x1', '0x2'])
+  })
+})
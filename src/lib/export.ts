@@ -0,0 +1,146 @@
+import { Network, TxRow } from '../types'
+import { FEE_TOKENS, formatUnits } from './fees'
+import { methodCounts, topCallers } from './aggregations'
+import { FetchCursor, FetchParams, FetchRange, fetchInteractions } from './starknetClient'
+
+export type ExportFormat = 'csv' | 'ndjson'
+export type ExportKind = 'transactions' | 'callers' | 'methods'
+
+const EXPORT_PAGE_SIZE = 500
+// Stop after this many cursor pages so an export of a very busy contract cannot run forever.
+export const EXPORT_MAX_PAGES = 40
+
+export interface ExportMeta {
+  network: Network
+  address: string
+  fromBlock?: number
+  toBlock?: number
+  /** False when the scan hit the page cap, or its last call ran out of trace budget, before covering the range. */
+  complete: boolean
+  traceBudgetExhausted: boolean
+  filters: Record<string, string>
+  exportedAt: string
+  rows: number
+}
+
+export interface CollectedRows {
+  rows: TxRow[]
+  range?: FetchRange
+  complete: boolean
+  traceBudgetExhausted: boolean
+}
+
+type CollectParams = Omit<FetchParams, 'page' | 'pageSize' | 'cursor' | 'onBatch'> & {
+  maxPages?: number
+  onPage?: (page: number, collected: number) => void
+}
+
+/** Walks every cursor page for the given filters and returns all matching rows, newest first. */
+export async function collectAllRows(p: CollectParams): Promise<CollectedRows> {
+  const { maxPages = EXPORT_MAX_PAGES, onPage, ...params } = p
+  const rows: TxRow[] = []
+  let cursor: FetchCursor | undefined
+  let range: FetchRange | undefined
+  let hasMore = true
+  let traceBudgetExhausted = false
+
+  for (let page = 1; page <= maxPages && hasMore; page += 1) {
+    const result = await fetchInteractions({ ...params, page, pageSize: EXPORT_PAGE_SIZE, cursor })
+    rows.push(...result.rows)
+    range = range ?? result.range
+    cursor = result.cursor
+    hasMore = Boolean(result.hasMore && result.cursor)
+    traceBudgetExhausted = Boolean(result.traceBudgetExhausted)
+    onPage?.(page, rows.length)
+  }
+
+  const unique = [...new Map(rows.map((row) => [row.txHash, row])).values()]
+  unique.sort((a, b) => b.timestamp - a.timestamp)
+  return { rows: unique, range, complete: !hasMore, traceBudgetExhausted: hasMore && traceBudgetExhausted }
+}
+
+type ExportRecord = Record<string, string | number | boolean | undefined>
+
+const isoTime = (timestamp: number) => new Date(timestamp * 1000).toISOString()
+
+const transactionRecords = (rows: TxRow[]): ExportRecord[] => rows.map((row) => ({
+  timestamp: isoTime(row.timestamp),
+  tx_hash: row.txHash,
+  block_number: row.blockNumber,
+  type: row.type,
+  status: row.status,
+  methods: row.calls?.length ? row.calls.map((call) => call.entrypoint).join(';') : row.entrypoint,
+  caller: row.caller,
+  to: row.to,
+  fee: formatUnits(BigInt(row.fee.amount), FEE_TOKENS[row.fee.unit].decimals),
+  fee_token: FEE_TOKENS[row.fee.unit].symbol,
+  fee_raw: row.fee.amount,
+  fee_unit: row.fee.unit,
+  network: row.network
+}))
+
+const callerRecords = (rows: TxRow[]): ExportRecord[] => topCallers(rows, Infinity).map((caller) => ({
+  rank: caller.rank,
+  address: caller.address,
+  count: caller.count,
+  share_percent: caller.share.toFixed(4),
+  last_seen: isoTime(caller.last)
+}))
+
+const methodRecords = (rows: TxRow[]): ExportRecord[] => methodCounts(rows, Infinity).map((method) => ({
+  method: method.name,
+  count: method.count
+}))
+
+const RECORDS: Record<ExportKind, (rows: TxRow[]) => ExportRecord[]> = {
+  transactions: transactionRecords,
+  callers: callerRecords,
+  methods: methodRecords
+}
+
+const csvCell = (value: ExportRecord[string]) => {
+  if (value == null) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const toCsv = (records: ExportRecord[], meta: ExportMeta) => {
+  const header = Object.entries(meta).map(([key, value]) => `# ${key}: ${typeof value === 'object' ? JSON.stringify(value) : value ?? ''}`)
+  if (records.length === 0) return `${header.join('\n')}\n`
+  const columns = Object.keys(records[0])
+  const lines = records.map((record) => columns.map((column) => csvCell(record[column])).join(','))
+  return `${[...header, columns.join(','), ...lines].join('\n')}\n`
+}
+
+// The first line carries the metadata; every following line is one record.
+const toNdjson = (records: ExportRecord[], meta: ExportMeta) => (
+  `${[{ _meta: meta }, ...records].map((record) => JSON.stringify(record)).join('\n')}\n`
+)
+
+export function buildExport(kind: ExportKind, format: ExportFormat, collected: CollectedRows, meta: Omit<ExportMeta, 'fromBlock' | 'toBlock' | 'complete' | 'traceBudgetExhausted' | 'exportedAt' | 'rows'>) {
+  const records = RECORDS[kind](collected.rows)
+  const fullMeta: ExportMeta = {
+    network: meta.network,
+    address: meta.address,
+    fromBlock: collected.range?.fromBlock,
+    toBlock: collected.range?.toBlock,
+    complete: collected.complete,
+    traceBudgetExhausted: collected.traceBudgetExhausted,
+    filters: meta.filters,
+    exportedAt: new Date().toISOString(),
+    rows: records.length
+  }
+  const content = format === 'csv' ? toCsv(records, fullMeta) : toNdjson(records, fullMeta)
+  const mime = format === 'csv' ? 'text/csv' : 'application/x-ndjson'
+  const filename = `${meta.network}-${meta.address.slice(0, 10)}-${kind}.${format}`
+  return { content, mime, filename }
+}
+
+export function downloadFile({ content, mime, filename }: { content: string; mime: string; filename: string }) {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,63 @@
+import { FeeUnit, TxFee } from '../types'
+
+// ETH fees are paid in wei, STRK fees (v3 transactions) in fri; both tokens use 18 decimals.
+export const FEE_TOKENS: Record<FeeUnit, { symbol: string; subUnit: string; baseUnit: string; decimals: number }> = {
+  WEI: { symbol: 'ETH', subUnit: 'gwei', baseUnit: 'wei', decimals: 18 },
+  FRI: { symbol: 'STRK', subUnit: 'gfri', baseUnit: 'fri', decimals: 18 }
+}
+
+export const FEE_UNITS: FeeUnit[] = ['WEI', 'FRI']
+
+export const toFeeUnit = (value?: string): FeeUnit => (String(value ?? '').toUpperCase() === 'FRI' ? 'FRI' : 'WEI')
+
+export const toFee = (actualFee?: { amount?: string; unit?: string }): TxFee => {
+  const unit = toFeeUnit(actualFee?.unit)
+  if (!actualFee?.amount) return { amount: '0', unit }
+  try {
+    return { amount: BigInt(actualFee.amount).toString(), unit }
+  } catch {
+    return { amount: '0', unit }
+  }
+}
+
+export const feeAmount = (fee: TxFee): bigint => {
+  try {
+    return BigInt(fee.amount)
+  } catch {
+    return 0n
+  }
+}
+
+export const formatUnits = (amount: bigint, decimals: number, maxFraction = decimals): string => {
+  const negative = amount < 0n
+  const absolute = negative ? -amount : amount
+  const base = 10n ** BigInt(decimals)
+  const whole = absolute / base
+  const fraction = (absolute % base).toString().padStart(decimals, '0').slice(0, maxFraction).replace(/0+$/, '')
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`
+}
+
+/** Parses a human token amount such as `0.0015` into base units; returns undefined for invalid input. */
+export const parseUnits = (value: string, decimals: number): bigint | undefined => {
+  const trimmed = value.trim()
+  if (!/^\d*(\.\d*)?$/.test(trimmed) || trimmed === '' || trimmed === '.') return undefined
+  const [whole, fraction = ''] = trimmed.split('.')
+  if (fraction.length > decimals) return undefined
+  return BigInt(whole || '0') * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0')
+}
+
+/**
+ * Why min/max fee bounds cannot be applied, or undefined when they can. A bound is an amount of one token,
+ * so it needs a single fee unit; ETH and STRK fees are not comparable.
+ */
+export function feeBoundError(bounds: { feeUnit?: FeeUnit | 'ALL'; minFee?: string; maxFee?: string }): string | undefined {
+  const { feeUnit, minFee, maxFee } = bounds
+  if (!minFee && !maxFee) return undefined
+  if (!feeUnit || feeUnit === 'ALL') return 'Pick ETH or STRK to filter by fee.'
+  const { decimals, symbol } = FEE_TOKENS[feeUnit]
+  for (const value of [minFee, maxFee]) {
+    if (value && parseUnits(value, decimals) === undefined) return `Invalid fee "${value}": enter an amount in ${symbol} with at most ${decimals} decimals.`
+  }
+  if (minFee && maxFee && parseUnits(minFee, decimals)! > parseUnits(maxFee, decimals)!) return 'Min fee is above max fee.'
+  return undefined
+}
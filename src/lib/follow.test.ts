@@ -0,0 +1,90 @@
+import { describe, expect, it, vi, beforeEach } from 'vitest'
+import { TxRow } from '../types'
+import { fetchBlockHashes, fetchInteractions } from './starknetClient'
+import { mergeFollowRows, pollFollow, seedFollowCheckpoint } from './follow'
+
+vi.mock('./starknetClient', () => ({
+  fetchInteractions: vi.fn(),
+  fetchBlockHashes: vi.fn()
+}))
+
+const mockFetch = vi.mocked(fetchInteractions)
+const mockHashes = vi.mocked(fetchBlockHashes)
+
+const row = (txHash: string, blockNumber: number): TxRow => ({
+  timestamp: blockNumber * 10,
+  txHash,
+  blockNumber,
+  type: 'INVOKE',
+  caller: '0x1',
+  to: '0xcafe',
+  fee: { amount: '0', unit: 'WEI' },
+  status: 'ACCEPTED',
+  network: 'mainnet'
+})
+
+beforeEach(() => {
+  mockFetch.mockReset()
+  mockHashes.mockReset()
+})
+
+describe('mergeFollowRows', () => {
+  it('prepends new rows and drops rows of rescanned blocks that were not found again', () => {
+    const existing = [row('0xb', 11), row('0xa', 10)]
+    const merged = mergeFollowRows(existing, { rows: [row('0xc', 12), row('0xd', 13)], rescannedFrom: 11 })
+
+    expect(merged.rows.map((r) => r.txHash)).toEqual(['0xd', '0xc', '0xa'])
+    expect(merged.added).toEqual(['0xd', '0xc'])
+    expect(merged.removed).toBe(1)
+  })
+})
+
+describe('pollFollow', () => {
+  it('rescans from the first block whose hash changed', async () => {
+    mockHashes.mockImplementation(async ({ blockNumbers }) => Object.fromEntries(
+      blockNumbers.map((n) => [n, n === 9 ? '0xnew9' : `0xh${n}`])
+    ))
+    mockFetch.mockResolvedValue({
+      rows: [row('0xe', 11)],
+      hasMore: false,
+      range: { fromBlock: 9, toBlock: 11, latestBlockNumber: 11 }
+    })
+
+    const update = await pollFollow({
+      address: '0xcafe',
+      network: 'mainnet',
+      filters: {},
+      checkpoint: { lastBlock: 10, hashes: { 8: '0xh8', 9: '0xh9', 10: '0xh10' } }
+    })
+
+    expect(update.reorgedBlocks).toEqual([9])
+    expect(update.rescannedFrom).toBe(9)
+    expect(mockFetch.mock.calls[0][0].blockRange).toEqual({ from: 9 })
+    expect(update.checkpoint).toEqual({ lastBlock: 11, hashes: { 9: '0xnew9', 10: '0xh10', 11: '0xh11' } })
+  })
+
+  it('continues a scan cut short twice and moves the checkpoint to the scanned head', async () => {
+    mockHashes.mockImplementation(async ({ blockNumbers }) => Object.fromEntries(blockNumbers.map((n) => [n, `0xh${n}`])))
+    const range = { fromBlock: 11, toBlock: 20, latestBlockNumber: 20 }
+    const cursor = { ...range, eventsDone: false, fallbackBlock: 20, fallbackTxIndex: 0, seenTxHashes: [], selectorNames: { functions: [], events: [] } }
+    mockFetch
+      .mockResolvedValueOnce({ rows: [row('0xe', 14)], hasMore: true, cursor, range })
+      .mockResolvedValueOnce({ rows: [row('0xf', 17)], hasMore: true, cursor: { ...cursor, eventsDone: true }, range })
+      .mockResolvedValueOnce({ rows: [row('0x10', 19)], hasMore: false, range })
+
+    const update = await pollFollow({ address: '0xcafe', network: 'mainnet', filters: {}, checkpoint: { lastBlock: 10, hashes: { 8: '0xh8', 9: '0xh9', 10: '0xh10' } } })
+
+    expect(mockFetch.mock.calls.map(([params]) => [params.page, params.cursor?.eventsDone])).toEqual([[1, undefined], [2, false], [3, true]])
+    expect(update.rows.map((r) => r.txHash)).toEqual(['0xe', '0xf', '0x10'])
+    expect(update.checkpoint).toEqual({ lastBlock: 20, hashes: { 18: '0xh18', 19: '0xh19', 20: '0xh20' } })
+  })
+})
+
+describe('seedFollowCheckpoint', () => {
+  it('records the hashes of the reorg window below the scanned head', async () => {
+    mockHashes.mockImplementation(async ({ blockNumbers }) => Object.fromEntries(blockNumbers.map((n) => [n, `0xh${n}`])))
+
+    await expect(seedFollowCheckpoint({ network: 'mainnet', lastBlock: 20 })).resolves.toEqual({ lastBlock: 20, hashes: { 18: '0xh18', 19: '0xh19', 20: '0xh20' } })
+    expect(mockHashes.mock.calls[0][0].blockNumbers).toEqual([18, 19, 20])
+  })
+})
@@ -0,0 +1,115 @@
+import { TxRow } from '../types'
+import { FetchParams, fetchBlockHashes, fetchInteractions } from './starknetClient'
+
+// How many of the most recent blocks are re-checked for reorgs on every poll.
+export const FOLLOW_REORG_DEPTH = 3
+const FOLLOW_PAGE_SIZE = 500
+
+export interface FollowCheckpoint {
+  lastBlock: number
+  /** Hashes of the last `FOLLOW_REORG_DEPTH` scanned blocks. */
+  hashes: Record<number, string>
+}
+
+export interface FollowUpdate {
+  rows: TxRow[]
+  /** First block that was (re)scanned; existing rows from this block on are superseded by `rows`. */
+  rescannedFrom: number
+  reorgedBlocks: number[]
+  checkpoint: FollowCheckpoint
+}
+
+export type FollowParams = Pick<FetchParams, 'address' | 'network' | 'filters' | 'log' | 'signal'> & {
+  checkpoint: FollowCheckpoint
+}
+
+const reorgWindow = (lastBlock: number): number[] => {
+  const blocks: number[] = []
+  for (let blockNumber = Math.max(0, lastBlock - FOLLOW_REORG_DEPTH + 1); blockNumber <= lastBlock; blockNumber += 1) blocks.push(blockNumber)
+  return blocks
+}
+
+/** Checkpoint at the chain head a load scanned up to, with the hashes the first poll checks for reorgs. */
+export async function seedFollowCheckpoint(p: Pick<FetchParams, 'network' | 'log' | 'signal'> & { lastBlock: number }): Promise<FollowCheckpoint> {
+  const hashes = await fetchBlockHashes({ network: p.network, blockNumbers: reorgWindow(p.lastBlock), log: p.log, signal: p.signal })
+  return { lastBlock: p.lastBlock, hashes }
+}
+
+/**
+ * Scans the blocks produced since the checkpoint. Recent blocks whose hash changed since the last poll
+ * are treated as reorged and scanned again. A scan cut short by the page limit or the trace budget is
+ * continued from its cursor within the same poll, so the checkpoint always reaches the scanned head.
+ */
+export async function pollFollow(p: FollowParams): Promise<FollowUpdate> {
+  const { checkpoint } = p
+  const knownBlocks = Object.keys(checkpoint.hashes).map(Number)
+  const currentHashes = knownBlocks.length > 0
+    ? await fetchBlockHashes({ network: p.network, blockNumbers: knownBlocks, log: p.log, signal: p.signal })
+    : {}
+  const reorgedBlocks = knownBlocks
+    .filter((blockNumber) => currentHashes[blockNumber] !== checkpoint.hashes[blockNumber])
+    .sort((a, b) => a - b)
+
+  if (reorgedBlocks.length > 0) {
+    p.log?.({ level: 'warn', message: `[follow] Reorg detected at blocks ${reorgedBlocks.join(', ')}; rescanning.` })
+  }
+
+  const rescannedFrom = reorgedBlocks.length > 0 ? reorgedBlocks[0] : checkpoint.lastBlock + 1
+  const params: FetchParams = {
+    address: p.address,
+    network: p.network,
+    page: 1,
+    pageSize: FOLLOW_PAGE_SIZE,
+    filters: p.filters,
+    log: p.log,
+    signal: p.signal,
+    blockRange: { from: rescannedFrom }
+  }
+  let result = await fetchInteractions(params)
+  const rows = [...result.rows]
+  // A busy contract or a long gap since the last poll (e.g. a hidden tab) takes several pages.
+  for (let page = 2; result.cursor; page += 1) {
+    p.log?.({ level: 'info', message: `[follow] Scan of blocks ${result.cursor.fromBlock}–${result.cursor.toBlock} cut short; continuing with page ${page}.` })
+    result = await fetchInteractions({ ...params, page, cursor: result.cursor })
+    rows.push(...result.rows)
+  }
+
+  if (!result.range) {
+    return { rows: [], rescannedFrom, reorgedBlocks, checkpoint }
+  }
+
+  const lastBlock = result.range.toBlock
+  const hashes: Record<number, string> = {}
+  const missing = reorgWindow(lastBlock).filter((blockNumber) => {
+    const known = currentHashes[blockNumber]
+    if (known && !reorgedBlocks.includes(blockNumber)) hashes[blockNumber] = known
+    return !hashes[blockNumber]
+  })
+  Object.assign(hashes, await fetchBlockHashes({ network: p.network, blockNumbers: missing, log: p.log, signal: p.signal }))
+
+  return {
+    rows,
+    rescannedFrom,
+    reorgedBlocks,
+    checkpoint: { lastBlock, hashes }
+  }
+}
+
+/** Applies a follow update: drops rows of reorged blocks, refreshes re-found rows and prepends new ones. */
+export function mergeFollowRows(existing: TxRow[], update: Pick<FollowUpdate, 'rows' | 'rescannedFrom'>) {
+  const fresh = new Map(update.rows.map((row) => [row.txHash, row]))
+  const kept = existing.filter((row) => {
+    if (fresh.has(row.txHash)) return true
+    return row.blockNumber == null || row.blockNumber < update.rescannedFrom
+  })
+  const keptHashes = new Set(kept.map((row) => row.txHash))
+  const added = update.rows
+    .filter((row) => !keptHashes.has(row.txHash))
+    .sort((a, b) => b.timestamp - a.timestamp)
+
+  return {
+    rows: [...added, ...kept.map((row) => fresh.get(row.txHash) ?? row)],
+    added: added.map((row) => row.txHash),
+    removed: existing.length - kept.length
+  }
+}
@@ -1,5 +1,9 @@
+import { FeeUnit } from '../types'
+import { FEE_TOKENS, formatUnits } from './fees'
 export const fmtTime=(ts:number)=> new Date(ts*1000).toLocaleString()
 export const fmtHash=(h:string)=> h.slice(0,8)+'…'+h.slice(-6)
 export const fmtAddr=(a:string)=> a.slice(0,8)+'…'+a.slice(-6)
 export const fmtNum=(n:number)=> n>=1e6? (n/1e6).toFixed(1).replace(/\.0$/,'')+'M' : n>=1e3? (n/1e3).toFixed(1).replace(/\.0$/,'')+'k' : String(n)
-export const fmtFee=(n:number)=>{ if(n===0) return '0'; const u=['wei','k','M','G']; let i=0,v=n; while(v>=1000&&i<u.length-1){v/=1000;i++} return v.toFixed(2).replace(/\.00$/,'')+' '+u[i] }
+export const fmtFee=(amount:bigint|string, unit:FeeUnit)=>{ const v=BigInt(amount), t=FEE_TOKENS[unit]; if(v===0n) return `0 ${t.symbol}`; if(v>=10n**15n) return `${formatUnits(v,t.decimals,6)} ${t.symbol}`; if(v>=10n**9n) return `${formatUnits(v,9,2)} ${t.subUnit}`; return `${v} ${t.baseUnit}` }
+/** Start of a time bucket in UTC; hourly buckets include the time. */
+export const fmtBucket=(ts:number,step:number)=>{ const iso=new Date(ts*1000).toISOString(); return step<86400? `${iso.slice(0,10)} ${iso.slice(11,16)} UTC` : iso.slice(0,10) }
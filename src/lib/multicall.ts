@@ -0,0 +1,82 @@
+export interface DecodedCall {
+  to: string
+  selector: string
+  calldata: string[]
+}
+
+const toIndex = (value: unknown): number | undefined => {
+  try {
+    const parsed = BigInt(value as string)
+    if (parsed < 0n || parsed > BigInt(Number.MAX_SAFE_INTEGER)) return undefined
+    return Number(parsed)
+  } catch {
+    return undefined
+  }
+}
+
+export const isSameAddress = (a?: string, b?: string): boolean => {
+  if (!a || !b) return false
+  try {
+    return BigInt(a) === BigInt(b)
+  } catch {
+    return a.toLowerCase() === b.toLowerCase()
+  }
+}
+
+// Cairo 1 accounts: [calls_len, (to, selector, calldata_len, ...calldata) * calls_len]
+const decodeCairo1Calls = (calldata: string[]): DecodedCall[] | undefined => {
+  const count = toIndex(calldata[0])
+  if (count == null || count > calldata.length) return undefined
+
+  const calls: DecodedCall[] = []
+  let offset = 1
+
+  for (let i = 0; i < count; i += 1) {
+    if (offset + 3 > calldata.length) return undefined
+    const length = toIndex(calldata[offset + 2])
+    if (length == null) return undefined
+    const start = offset + 3
+    const end = start + length
+    if (end > calldata.length) return undefined
+    calls.push({ to: calldata[offset], selector: calldata[offset + 1], calldata: calldata.slice(start, end) })
+    offset = end
+  }
+
+  return offset === calldata.length ? calls : undefined
+}
+
+// Cairo 0 accounts: [call_array_len, (to, selector, data_offset, data_len) * call_array_len, calldata_len, ...calldata]
+const decodeLegacyCalls = (calldata: string[]): DecodedCall[] | undefined => {
+  const count = toIndex(calldata[0])
+  if (count == null) return undefined
+
+  const headerEnd = 1 + count * 4
+  if (headerEnd >= calldata.length) return undefined
+
+  const dataLength = toIndex(calldata[headerEnd])
+  const dataStart = headerEnd + 1
+  if (dataLength == null || dataStart + dataLength !== calldata.length) return undefined
+
+  const data = calldata.slice(dataStart)
+  const calls: DecodedCall[] = []
+
+  for (let i = 0; i < count; i += 1) {
+    const base = 1 + i * 4
+    const dataOffset = toIndex(calldata[base + 2])
+    const length = toIndex(calldata[base + 3])
+    if (dataOffset == null || length == null || dataOffset + length > data.length) return undefined
+    calls.push({ to: calldata[base], selector: calldata[base + 1], calldata: data.slice(dataOffset, dataOffset + length) })
+  }
+
+  return calls
+}
+
+/**
+ * Splits account `__execute__` calldata into individual calls. Both account layouts are tried and
+ * only a layout that consumes the calldata exactly is accepted.
+ */
+export function decodeMulticall(calldata: unknown): DecodedCall[] | undefined {
+  if (!Array.isArray(calldata) || calldata.length === 0) return undefined
+  const felts = calldata.map((value) => String(value))
+  return decodeCairo1Calls(felts) ?? decodeLegacyCalls(felts)
+}
@@ -0,0 +1,92 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const STORAGE_KEY = 'starknet-dashboard-networks'
+
+// The module keeps the saved networks in memory, so every test gets a fresh copy.
+const importNetworks = async () => {
+  vi.resetModules()
+  return import('./networks')
+}
+
+beforeEach(() => {
+  localStorage.clear()
+})
+
+describe('custom networks', () => {
+  it('resolves built-in and saved networks and persists them', async () => {
+    const { getNetworkConfig, listNetworks, saveCustomNetworks } = await importNetworks()
+    expect(getNetworkConfig('mainnet')?.explorerUrl).toBe('https://starkscan.co')
+    expect(getNetworkConfig('devnet')).toBeUndefined()
+
+    saveCustomNetworks([{ id: 'devnet', name: 'Devnet', endpoints: [{ url: 'http://127.0.0.1:5050/rpc' }], headers: { 'x-api-key': 'k' } }])
+
+    expect(getNetworkConfig('devnet')).toMatchObject({ endpoints: [{ url: 'http://127.0.0.1:5050/rpc' }], headers: { 'x-api-key': 'k' } })
+    expect(listNetworks().map((network) => network.id)).toEqual(['mainnet', 'sepolia', 'devnet'])
+
+    const reloaded = await importNetworks()
+    expect(reloaded.getNetworkConfig('devnet')?.name).toBe('Devnet')
+  })
+
+  it('drops stored entries that are invalid or shadow a built-in network', async () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([
+      { id: 'mainnet', name: 'Fake', endpoints: [{ url: 'https://evil.example/rpc' }] },
+      { id: 'chain', name: 'Chain', endpoints: [{ url: 'not a url' }] },
+      { id: 'appchain', name: 'App chain', endpoints: [{ url: 'https://rpc.example/v0_8', weight: 2 }] }
+    ]))
+    const { getNetworkConfig, loadCustomNetworks } = await importNetworks()
+
+    expect(loadCustomNetworks().map((network) => network.id)).toEqual(['appchain'])
+    expect(getNetworkConfig('mainnet')?.endpoints[0].url).not.toContain('evil')
+  })
+
+  it('migrates networks saved with a single rpcUrl', async () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([{ id: 'devnet', name: 'Devnet', rpcUrl: 'http://127.0.0.1:5050/rpc' }]))
+    const { getNetworkConfig } = await importNetworks()
+
+    expect(getNetworkConfig('devnet')?.endpoints).toEqual([{ url: 'http://127.0.0.1:5050/rpc' }])
+  })
+})
+
+describe('network helpers', () => {
+  it('derives unique ids from names', async () => {
+    const { networkIdFor } = await importNetworks()
+    expect(networkIdFor('My Devnet!', [])).toBe('my-devnet')
+    expect(networkIdFor('My Devnet', ['my-devnet'])).toBe('my-devnet-2')
+    expect(networkIdFor('Sepolia', [])).toBe('sepolia-2')
+  })
+
+  it('parses header lines', async () => {
+    const { parseHeaders } = await importNetworks()
+    expect(parseHeaders('x-api-key: abc:def\n\nAuthorization: Bearer t')).toEqual({ 'x-api-key': 'abc:def', Authorization: 'Bearer t' })
+    expect(parseHeaders('  ')).toBeUndefined()
+    expect(() => parseHeaders('no separator')).toThrow('Invalid header line: no separator')
+  })
+
+  it('parses and formats endpoint lists with weights, rate limits and batching', async () => {
+    const { formatEndpoints, parseEndpoints } = await importNetworks()
+    const endpoints = parseEndpoints('https://a.example/rpc weight=3 rps=10\nhttps://b.example/rpc concurrency=1, https://c.example/rpc batch=10 billing=request')
+
+    expect(endpoints).toEqual([
+      { url: 'https://a.example/rpc', weight: 3, requestsPerSecond: 10 },
+      { url: 'https://b.example/rpc', maxConcurrency: 1 },
+      { url: 'https://c.example/rpc', batchSize: 10, batchBilling: 'request' }
+    ])
+    expect(parseEndpoints(formatEndpoints(endpoints))).toEqual(endpoints)
+    expect(() => parseEndpoints('https://a.example/rpc speed=2')).toThrow('Invalid endpoint option: speed=2')
+    expect(() => parseEndpoints('https://a.example/rpc billing=free')).toThrow('Invalid endpoint option: billing=free')
+    expect(() => parseEndpoints('rpc.example/v0_8')).toThrow('Invalid endpoint: rpc.example/v0_8')
+  })
+
+  it('flags deleted networks and networks whose endpoint URLs changed as stale', async () => {
+    const { staleNetworkIds } = await importNetworks()
+    const devnet = { id: 'devnet', name: 'Devnet', endpoints: [{ url: 'http://127.0.0.1:5050/rpc' }] }
+    const appchain = { id: 'appchain', name: 'Appchain', endpoints: [{ url: 'https://a.example/rpc' }, { url: 'https://b.example/rpc' }] }
+    const other = { id: 'other', name: 'Other', endpoints: [{ url: 'https://other.example/rpc' }] }
+
+    expect(staleNetworkIds([devnet, appchain, other], [
+      { ...devnet, endpoints: [{ url: 'http://127.0.0.1:5051/rpc' }] },
+      { ...appchain, name: 'Renamed', endpoints: [{ url: 'https://b.example/rpc', weight: 2 }, { url: 'https://a.example/rpc' }] }
+    ])).toEqual(['devnet', 'other'])
+  })
+})
@@ -0,0 +1,193 @@
+import { z } from 'zod'
+import { BuiltinNetwork, Network } from '../types'
+
+const STORAGE_KEY = 'starknet-dashboard-networks'
+
+export const NETWORK_ID = /^[a-z0-9][a-z0-9-]{0,39}$/
+
+const env = (import.meta as any)?.env ?? {}
+
+const endpointSchema = z.object({
+  url: z.string().url(),
+  /** Relative share of calls the endpoint receives while it is healthy (default 1). */
+  weight: z.number().positive().max(1000).optional(),
+  /** Own rate limit; defaults to `VITE_RPC_REQUESTS_PER_SECOND` / `VITE_RPC_MAX_CONCURRENCY`. */
+  requestsPerSecond: z.number().positive().optional(),
+  maxConcurrency: z.number().int().min(1).optional(),
+  /** Most calls merged into one JSON-RPC batch (default `VITE_RPC_BATCH_SIZE`); 1 disables batching. */
+  batchSize: z.number().int().min(1).max(1000).optional(),
+  /** Whether the provider bills a batch as one request or each call in it (default `VITE_RPC_BATCH_BILLING`). */
+  batchBilling: z.enum(['batch', 'request']).optional()
+})
+
+export type RpcEndpointConfig = z.infer<typeof endpointSchema>
+
+// Networks saved before endpoint lists existed have a single `rpcUrl`.
+const withEndpoints = (entry: unknown) => {
+  if (!entry || typeof entry !== 'object' || 'endpoints' in entry || !('rpcUrl' in entry)) return entry
+  const { rpcUrl, ...rest } = entry as { rpcUrl: unknown }
+  return { ...rest, endpoints: [{ url: rpcUrl }] }
+}
+
+const networkSchema = z.preprocess(withEndpoints, z.object({
+  id: z.string().regex(NETWORK_ID),
+  name: z.string().trim().min(1).max(64),
+  endpoints: z.array(endpointSchema).min(1),
+  explorerUrl: z.string().url().optional(),
+  wsUrl: z.string().url().optional(),
+  headers: z.record(z.string()).optional()
+}))
+
+export type NetworkConfig = z.infer<typeof networkSchema>
+
+const ENDPOINT_OPTIONS: Record<string, keyof Omit<RpcEndpointConfig, 'url' | 'batchBilling'>> = {
+  weight: 'weight',
+  rps: 'requestsPerSecond',
+  concurrency: 'maxConcurrency',
+  batch: 'batchSize'
+}
+
+const BATCH_BILLING = ['batch', 'request'] as const
+
+/**
+ * Parses one endpoint per line (or comma), e.g. `https://rpc.example/v0_8 weight=2 rps=5 concurrency=2 batch=20 billing=request`.
+ * Throws on the first entry that is not a URL or has an unknown option.
+ */
+export function parseEndpoints(text: string): RpcEndpointConfig[] {
+  return text.split(/[\n,]/).map((line) => line.trim()).filter(Boolean).map((line) => {
+    const [url, ...options] = line.split(/\s+/)
+    const endpoint: RpcEndpointConfig = { url }
+    for (const option of options) {
+      const [key, value] = option.split('=')
+      if (key === 'billing') {
+        if (!BATCH_BILLING.includes(value as typeof BATCH_BILLING[number])) throw new Error(`Invalid endpoint option: ${option}`)
+        endpoint.batchBilling = value as typeof BATCH_BILLING[number]
+        continue
+      }
+      const field = ENDPOINT_OPTIONS[key]
+      const parsed = Number(value)
+      if (!field || !Number.isFinite(parsed) || parsed <= 0) throw new Error(`Invalid endpoint option: ${option}`)
+      endpoint[field] = parsed
+    }
+    const result = endpointSchema.safeParse(endpoint)
+    if (!result.success) throw new Error(`Invalid endpoint: ${line}`)
+    return result.data
+  })
+}
+
+export const formatEndpoints = (endpoints: RpcEndpointConfig[]): string => endpoints.map((endpoint) => [
+  endpoint.url,
+  ...Object.entries(ENDPOINT_OPTIONS).flatMap(([key, field]) => (endpoint[field] === undefined ? [] : [`${key}=${endpoint[field]}`])),
+  ...(endpoint.batchBilling ? [`billing=${endpoint.batchBilling}`] : [])
+].join(' ')).join('\n')
+
+// A malformed env value falls back to the public endpoint instead of breaking the app on load.
+const envEndpoints = (value: unknown, fallback: string): RpcEndpointConfig[] => {
+  try {
+    const endpoints = typeof value === 'string' ? parseEndpoints(value) : []
+    return endpoints.length ? endpoints : [{ url: fallback }]
+  } catch {
+    return [{ url: fallback }]
+  }
+}
+
+export const BUILTIN_NETWORKS: Record<BuiltinNetwork, NetworkConfig> = {
+  mainnet: {
+    id: 'mainnet',
+    name: 'Mainnet',
+    endpoints: envEndpoints(env.VITE_STARKNET_RPC_MAINNET, 'https://starknet-mainnet.public.blastapi.io/rpc/v0_8'),
+    explorerUrl: 'https://starkscan.co',
+    wsUrl: env.VITE_STARKNET_WS_MAINNET || undefined
+  },
+  sepolia: {
+    id: 'sepolia',
+    name: 'Sepolia',
+    endpoints: envEndpoints(env.VITE_STARKNET_RPC_SEPOLIA, 'https://starknet-sepolia.public.blastapi.io/rpc/v0_8'),
+    explorerUrl: 'https://sepolia.starkscan.co',
+    wsUrl: env.VITE_STARKNET_WS_SEPOLIA || undefined
+  }
+}
+
+const isBuiltin = (id: string): id is BuiltinNetwork => Object.prototype.hasOwnProperty.call(BUILTIN_NETWORKS, id)
+
+const storage = (): Storage | undefined => (typeof localStorage === 'undefined' ? undefined : localStorage)
+
+// Read once and kept in memory, so every RPC call does not go back to localStorage.
+let customNetworks: NetworkConfig[] | undefined
+
+/** Networks added in the settings; entries that no longer match the schema or shadow a built-in network are dropped. */
+export function loadCustomNetworks(): NetworkConfig[] {
+  if (customNetworks) return customNetworks
+  customNetworks = []
+  const raw = storage()?.getItem(STORAGE_KEY)
+  if (!raw) return customNetworks
+  try {
+    const parsed = JSON.parse(raw)
+    customNetworks = Array.isArray(parsed) ? parsed.flatMap((entry) => {
+      const result = networkSchema.safeParse(entry)
+      return result.success && !isBuiltin(result.data.id) ? [result.data] : []
+    }) : []
+  } catch {
+    customNetworks = []
+  }
+  return customNetworks
+}
+
+export function saveCustomNetworks(networks: NetworkConfig[]): void {
+  customNetworks = networks.filter((network) => !isBuiltin(network.id))
+  storage()?.setItem(STORAGE_KEY, JSON.stringify(customNetworks))
+}
+
+export const listNetworks = (): NetworkConfig[] => [...Object.values(BUILTIN_NETWORKS), ...loadCustomNetworks()]
+
+export const getNetworkConfig = (id: Network): NetworkConfig | undefined => (
+  isBuiltin(id) ? BUILTIN_NETWORKS[id] : loadCustomNetworks().find((network) => network.id === id)
+)
+
+export const isKnownNetwork = (id: string): boolean => getNetworkConfig(id) !== undefined
+
+/**
+ * Custom networks whose cached blocks and scan progress no longer apply: deleted ones, whose id may be given
+ * to a different chain later, and ones whose endpoint URLs changed, which may now point at a different chain.
+ */
+export function staleNetworkIds(previous: NetworkConfig[], next: NetworkConfig[]): string[] {
+  const urls = (network: NetworkConfig) => network.endpoints.map((endpoint) => endpoint.url).sort().join(' ')
+  return previous
+    .filter((network) => {
+      const updated = next.find((candidate) => candidate.id === network.id)
+      return !updated || urls(updated) !== urls(network)
+    })
+    .map((network) => network.id)
+}
+
+/** Builds a URL-safe id from the network name, suffixed when it collides with an existing network. */
+export function networkIdFor(name: string, taken: string[]): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 32) || 'network'
+  let id = base
+  for (let n = 2; taken.includes(id) || isBuiltin(id); n++) id = `${base}-${n}`
+  return id
+}
+
+/**
+ * Parses one header per line in `Name: value` form, e.g. `x-api-key: secret`.
+ * Throws on the first line without a name.
+ */
+export function parseHeaders(text: string): Record<string, string> | undefined {
+  const entries = text.split('\n').map((line) => line.trim()).filter(Boolean).map((line) => {
+    const separator = line.indexOf(':')
+    const name = separator > 0 ? line.slice(0, separator).trim() : ''
+    if (!/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/.test(name)) throw new Error(`Invalid header line: ${line}`)
+    return [name, line.slice(separator + 1).trim()] as const
+  })
+  return entries.length ? Object.fromEntries(entries) : undefined
+}
+
+/** Validates a network entered in the settings, throwing the first schema problem as a readable message. */
+export function validateNetwork(network: NetworkConfig): NetworkConfig {
+  const result = networkSchema.safeParse(network)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    throw new Error(`${issue.path.join('.') || 'network'}: ${issue.message}`)
+  }
+  return result.data
+}
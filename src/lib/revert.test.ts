@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { normalizeRevertReason } from './revert'
+
+describe('normalizeRevertReason', () => {
+  it('prefers the innermost decoded message', () => {
+    const reason = 'Error in the called contract (contract address: 0x0123abc, class hash: 0x0456def, selector: 0x015d4):\n'
+      + 'Error at pc=0:4835:\nExecution failed. Failure reason: 0x753235365f737562204f766572666c6f77 (\'u256_sub Overflow\').'
+
+    expect(normalizeRevertReason(reason)).toBe('u256_sub Overflow')
+  })
+
+  it('decodes bare felt failure reasons', () => {
+    expect(normalizeRevertReason('Execution failed. Failure reason: 0x4e6f74206f776e6572.')).toBe('Not owner')
+  })
+
+  it('replaces addresses and large numbers so similar failures match', () => {
+    const a = normalizeRevertReason('Requested contract address 0x0abc is not deployed at block 123456.')
+    const b = normalizeRevertReason('Requested contract address 0x0def is not deployed at block 654321.')
+
+    expect(a).toBe('Requested contract address 0x… is not deployed at block N.')
+    expect(b).toBe(a)
+    expect(normalizeRevertReason(undefined)).toBeUndefined()
+  })
+})
@@ -0,0 +1,32 @@
+// Long revert reasons usually repeat the same nested error; the head is enough to tell failures apart.
+const MAX_REASON_LENGTH = 160
+
+const decodeFeltString = (hex: string): string | undefined => {
+  let digits = hex.slice(2)
+  if (digits.length % 2) digits = `0${digits}`
+  const text = digits.match(/../g)?.map((byte) => String.fromCharCode(parseInt(byte, 16))).join('') ?? ''
+  return /^[\x20-\x7e]+$/.test(text) ? text : undefined
+}
+
+/**
+ * Reduces a raw `revert_reason` to a key that groups similar failures: the innermost decoded message when
+ * the node provides one, otherwise the text with addresses, felts and large numbers replaced by placeholders.
+ */
+export function normalizeRevertReason(reason?: string): string | undefined {
+  if (!reason) return undefined
+
+  // Nodes append the decoded short string to felt failure reasons: `0x4e6f... ('Not owner')`.
+  const quoted = [...reason.matchAll(/\('([^']*)'\)/g)].map((match) => match[1].trim()).filter(Boolean)
+  if (quoted.length > 0) return quoted[quoted.length - 1]
+
+  const failure = /Failure reason:\s*(0x[0-9a-fA-F]+)/.exec(reason)
+  const decoded = failure ? decodeFeltString(failure[1]) : undefined
+  if (decoded) return decoded
+
+  const normalized = reason
+    .replace(/0x[0-9a-fA-F]+/g, '0x…')
+    .replace(/\b\d{6,}\b/g, 'N')
+    .replace(/\s+/g, ' ')
+    .trim()
+  return normalized.length > MAX_REASON_LENGTH ? `${normalized.slice(0, MAX_REASON_LENGTH)}…` : normalized
+}
@@ -0,0 +1,86 @@
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { RpcCache } from './rpcCache'
+
+let now = 0
+
+beforeEach(() => {
+  vi.stubGlobal('indexedDB', new IDBFactory())
+  vi.stubGlobal('IDBKeyRange', IDBKeyRange)
+  // Every write and read gets a later access time, so the LRU order is deterministic.
+  vi.spyOn(Date, 'now').mockImplementation(() => (now += 1))
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.unstubAllGlobals()
+})
+
+describe('RpcCache', () => {
+  it('reads back what it stored, keyed by network, kind and id', async () => {
+    const cache = new RpcCache({ maxEntries: 10, maxBytes: 10_000 })
+    await cache.set('mainnet', 'receipt', '0x1', { block_number: 5 })
+
+    await expect(cache.get('mainnet', 'receipt', '0x1')).resolves.toEqual({ block_number: 5 })
+    await expect(cache.get('sepolia', 'receipt', '0x1')).resolves.toBeUndefined()
+    await expect(cache.get('mainnet', 'transaction', '0x1')).resolves.toBeUndefined()
+    await expect(cache.stats()).resolves.toEqual({ entries: 1, bytes: JSON.stringify({ block_number: 5 }).length })
+  })
+
+  it('clears the entries of one network only', async () => {
+    const cache = new RpcCache({ maxEntries: 10, maxBytes: 10_000 })
+    await cache.set('devnet', 'block', 1, { n: 1 })
+    await cache.set('devnet-2', 'block', 1, { n: 2 })
+
+    await cache.clearNetwork('devnet')
+
+    await expect(cache.get('devnet', 'block', 1)).resolves.toBeUndefined()
+    await expect(cache.get('devnet-2', 'block', 1)).resolves.toEqual({ n: 2 })
+  })
+
+  it('evicts the least recently used entries past the entry limit, counting reads as use', async () => {
+    const cache = new RpcCache({ maxEntries: 2, maxBytes: 10_000 })
+    await cache.set('mainnet', 'block', 1, { n: 1 })
+    await cache.set('mainnet', 'block', 2, { n: 2 })
+    await cache.set('mainnet', 'block', 3, { n: 3 })
+    await cache.get('mainnet', 'block', 1)
+
+    await cache.prune()
+
+    await expect(cache.get('mainnet', 'block', 2)).resolves.toBeUndefined()
+    await expect(cache.get('mainnet', 'block', 1)).resolves.toEqual({ n: 1 })
+    await expect(cache.get('mainnet', 'block', 3)).resolves.toEqual({ n: 3 })
+  })
+
+  it('evicts the oldest entries past the byte limit and skips values larger than it', async () => {
+    const value = 'x'.repeat(10)
+    const cache = new RpcCache({ maxEntries: 10, maxBytes: 30 })
+    await cache.set('mainnet', 'trace', '0x1', value)
+    await cache.set('mainnet', 'trace', '0x2', value)
+    await cache.set('mainnet', 'trace', '0x3', value)
+    await cache.set('mainnet', 'trace', '0x4', 'y'.repeat(40))
+
+    await cache.prune()
+
+    await expect(cache.stats()).resolves.toEqual({ entries: 2, bytes: 24 })
+    await expect(cache.get('mainnet', 'trace', '0x1')).resolves.toBeUndefined()
+    await expect(cache.get('mainnet', 'trace', '0x4')).resolves.toBeUndefined()
+  })
+
+  it('swallows a failed prune after a write', async () => {
+    const cache = new RpcCache({ maxEntries: 1_000, maxBytes: 100_000 })
+    const prune = vi.spyOn(cache, 'prune').mockRejectedValue(new Error('QuotaExceededError'))
+
+    for (let id = 0; id < 100; id += 1) await expect(cache.set('mainnet', 'block', id, { id })).resolves.toBeUndefined()
+    expect(prune).toHaveBeenCalledTimes(1)
+  })
+
+  it('misses every lookup and drops writes without IndexedDB', async () => {
+    vi.stubGlobal('indexedDB', undefined)
+    const cache = new RpcCache({ maxEntries: 10, maxBytes: 10_000 })
+
+    await cache.set('mainnet', 'receipt', '0x1', { block_number: 5 })
+    await expect(cache.get('mainnet', 'receipt', '0x1')).resolves.toBeUndefined()
+    await expect(cache.stats()).resolves.toEqual({ entries: 0, bytes: 0 })
+  })
+})
@@ -0,0 +1,182 @@
+const DB_NAME = 'starknet-dashboard-rpc-cache'
+const DB_VERSION = 1
+const STORE_NAME = 'responses'
+const LAST_ACCESS_INDEX = 'lastAccess'
+const PRUNE_EVERY_WRITES = 100
+
+export type RpcCacheKind = 'block' | 'blockWithTxs' | 'blockTraces' | 'receipt' | 'transaction' | 'trace' | 'class' | 'boundary'
+
+interface RpcCacheRecord {
+  key: string
+  value: unknown
+  size: number
+  lastAccess: number
+}
+
+export interface RpcCacheOptions {
+  maxEntries: number
+  maxBytes: number
+}
+
+export interface RpcCacheStats {
+  entries: number
+  bytes: number
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve()
+  transaction.onerror = () => reject(transaction.error)
+  transaction.onabort = () => reject(transaction.error)
+})
+
+/**
+ * Persistent cache for immutable RPC responses (final blocks, receipts, transactions, traces, classes).
+ * Entries are evicted least-recently-used first once the entry or byte limit is exceeded. When
+ * IndexedDB is unavailable every lookup is a miss and writes are dropped.
+ */
+export class RpcCache {
+  private readonly options: RpcCacheOptions
+
+  private dbPromise?: Promise<IDBDatabase | undefined>
+
+  private writesSincePrune = 0
+
+  constructor(options: RpcCacheOptions) {
+    this.options = options
+  }
+
+  async get<T>(network: string, kind: RpcCacheKind, id: string | number): Promise<T | undefined> {
+    const db = await this.open()
+    if (!db) return undefined
+
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readwrite')
+      const store = transaction.objectStore(STORE_NAME)
+      const record = await requestToPromise(store.get(this.key(network, kind, id))) as RpcCacheRecord | undefined
+      if (!record) return undefined
+      store.put({ ...record, lastAccess: Date.now() })
+      return record.value as T
+    } catch {
+      return undefined
+    }
+  }
+
+  async set(network: string, kind: RpcCacheKind, id: string | number, value: unknown): Promise<void> {
+    if (value == null) return
+    const db = await this.open()
+    if (!db) return
+
+    try {
+      const size = JSON.stringify(value).length
+      if (size > this.options.maxBytes) return
+
+      const transaction = db.transaction(STORE_NAME, 'readwrite')
+      const record: RpcCacheRecord = { key: this.key(network, kind, id), value, size, lastAccess: Date.now() }
+      transaction.objectStore(STORE_NAME).put(record)
+      await transactionDone(transaction)
+    } catch {
+      return
+    }
+
+    this.writesSincePrune += 1
+    if (this.writesSincePrune >= PRUNE_EVERY_WRITES) {
+      this.writesSincePrune = 0
+      // Callers do not wait for writes, so a failed prune must not surface as an unhandled rejection.
+      await this.prune().catch(() => undefined)
+    }
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open()
+    if (!db) return
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    transaction.objectStore(STORE_NAME).clear()
+    await transactionDone(transaction)
+  }
+
+  /** Deletes the entries of one network, e.g. after its endpoints were changed to another chain. */
+  async clearNetwork(network: string): Promise<void> {
+    const db = await this.open()
+    if (!db) return
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    transaction.objectStore(STORE_NAME).delete(IDBKeyRange.bound(`${network}:`, `${network}:\uffff`))
+    await transactionDone(transaction)
+  }
+
+  async stats(): Promise<RpcCacheStats> {
+    const db = await this.open()
+    const stats: RpcCacheStats = { entries: 0, bytes: 0 }
+    if (!db) return stats
+
+    const transaction = db.transaction(STORE_NAME, 'readonly')
+    const request = transaction.objectStore(STORE_NAME).openCursor()
+    await new Promise<void>((resolve, reject) => {
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor) {
+          resolve()
+          return
+        }
+        stats.entries += 1
+        stats.bytes += (cursor.value as RpcCacheRecord).size
+        cursor.continue()
+      }
+      request.onerror = () => reject(request.error)
+    })
+    return stats
+  }
+
+  /** Walks entries from the most recently used and deletes everything past the configured limits. */
+  async prune(): Promise<void> {
+    const db = await this.open()
+    if (!db) return
+
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    const request = transaction.objectStore(STORE_NAME).index(LAST_ACCESS_INDEX).openCursor(null, 'prev')
+    let entries = 0
+    let bytes = 0
+
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) return
+      entries += 1
+      bytes += (cursor.value as RpcCacheRecord).size
+      if (entries > this.options.maxEntries || bytes > this.options.maxBytes) {
+        cursor.delete()
+      }
+      cursor.continue()
+    }
+
+    await transactionDone(transaction)
+  }
+
+  private key(network: string, kind: RpcCacheKind, id: string | number): string {
+    return `${network}:${kind}:${id}`
+  }
+
+  private open(): Promise<IDBDatabase | undefined> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(undefined)
+          return
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' })
+          store.createIndex(LAST_ACCESS_INDEX, 'lastAccess')
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => resolve(undefined)
+        request.onblocked = () => resolve(undefined)
+      })
+    }
+    return this.dbPromise
+  }
+}
@@ -0,0 +1,313 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const endpointBehaviour = new Map<string, () => Promise<unknown>>()
+
+vi.mock('starknet', () => ({
+  RpcProvider: class {
+    constructor(options: { nodeUrl: string }) {
+      return { getChainId: () => endpointBehaviour.get(options.nodeUrl)!() }
+    }
+  }
+}))
+
+const PRIMARY = 'https://primary.example/rpc/v0_8'
+const BACKUP = 'https://backup.example/rpc/v0_8'
+
+const config = {
+  id: 'devnet',
+  name: 'Devnet',
+  endpoints: [
+    { url: PRIMARY, weight: 3, requestsPerSecond: 100 },
+    { url: BACKUP, requestsPerSecond: 100 }
+  ]
+}
+
+const outage = () => {
+  const error: any = new Error('Service Unavailable')
+  error.status = 503
+  return Promise.reject(error)
+}
+
+beforeEach(() => {
+  vi.resetModules()
+  endpointBehaviour.clear()
+  // Always pick the first endpoint by weight, so the primary serves every call while it is healthy.
+  vi.spyOn(Math, 'random').mockReturnValue(0)
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.unstubAllGlobals()
+  vi.useRealTimers()
+})
+
+describe('RpcEndpointPool', () => {
+  it('fails over to the next endpoint and logs each endpoint attempt with its telemetry', async () => {
+    const { RpcEndpointPool } = await import('./rpcTransport')
+    endpointBehaviour.set(PRIMARY, outage)
+    endpointBehaviour.set(BACKUP, async () => '0x1')
+    const logs: { level: string; message: string }[] = []
+
+    const pool = new RpcEndpointPool('devnet', config)
+    await expect(pool.call((provider) => provider.getChainId(), { method: 'getChainId', log: (entry) => logs.push(entry) })).resolves.toBe('0x1')
+
+    expect(logs).toEqual([
+      {
+        level: 'warn',
+        category: 'rpc',
+        method: 'getChainId',
+        endpoint: 'primary.example',
+        attempt: 1,
+        durationMs: expect.any(Number),
+        message: '[getChainId] primary.example failed: Service Unavailable; failing over to backup.example'
+      },
+      {
+        level: 'info',
+        category: 'rpc',
+        method: 'getChainId',
+        endpoint: 'backup.example',
+        attempt: 2,
+        durationMs: expect.any(Number),
+        message: expect.stringMatching(/^\[getChainId\] backup\.example \(failover\) \d+ms$/)
+      }
+    ])
+    expect(pool.health().map((h) => [h.label, h.successes, h.failures])).toEqual([['primary.example', 0, 1], ['backup.example', 1, 0]])
+  })
+
+  it('does not fail over on JSON-RPC errors', async () => {
+    const { RpcEndpointPool } = await import('./rpcTransport')
+    const backup = vi.fn(async () => '0x1')
+    endpointBehaviour.set(PRIMARY, () => Promise.reject(Object.assign(new Error('29: Transaction hash not found'), { code: 29 })))
+    endpointBehaviour.set(BACKUP, backup)
+
+    const pool = new RpcEndpointPool('devnet', config)
+    await expect(pool.call((provider) => provider.getChainId(), { method: 'getChainId' })).rejects.toThrow('Transaction hash not found')
+    expect(backup).not.toHaveBeenCalled()
+  })
+
+  it('does not fail over on JSON-RPC errors whose text looks like an outage', async () => {
+    const { JsonRpcError, RpcEndpointPool, isEndpointFailure } = await import('./rpcTransport')
+    const backup = vi.fn(async () => '0x1')
+    const revert = new JsonRpcError('starknet_call', { code: 40, message: 'Contract error', data: { revert_error: 'network fee 503 timed out' } })
+    endpointBehaviour.set(PRIMARY, () => Promise.reject(revert))
+    endpointBehaviour.set(BACKUP, backup)
+
+    const pool = new RpcEndpointPool('devnet', config)
+    await expect(pool.call((provider) => provider.getChainId(), { method: 'getChainId' })).rejects.toBe(revert)
+    expect(backup).not.toHaveBeenCalled()
+    expect(pool.health()[0]).toMatchObject({ failures: 0, state: 'closed' })
+    expect(isEndpointFailure(Object.assign(new Error('RPC: starknet_call network error 502'), { code: 21 }))).toBe(false)
+    expect(isEndpointFailure(new Error('fetch failed: network error'))).toBe(true)
+  })
+
+  it('opens the circuit after repeated failures and probes the endpoint again after the cooldown', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const { RpcEndpointPool } = await import('./rpcTransport')
+    const primary = vi.fn(outage)
+    endpointBehaviour.set(PRIMARY, primary)
+    endpointBehaviour.set(BACKUP, async () => '0x1')
+    const pool = new RpcEndpointPool('devnet', config)
+    const call = () => pool.call((provider) => provider.getChainId(), { method: 'getChainId' })
+
+    for (let i = 0; i < 4; i++) await call()
+    expect(primary).toHaveBeenCalledTimes(3)
+    expect(pool.health()[0].state).toBe('open')
+
+    vi.setSystemTime(Date.now() + 16_000)
+    expect(pool.health()[0].state).toBe('half-open')
+    endpointBehaviour.set(PRIMARY, async () => '0x2')
+    await expect(call()).resolves.toBe('0x2')
+    expect(pool.health()[0]).toMatchObject({ state: 'closed', consecutiveFailures: 0 })
+  })
+
+  it('counts a failed batch once toward the circuit breaker', async () => {
+    const { RpcEndpointPool } = await import('./rpcTransport')
+    const fetchMock = vi.fn(async () => new Response('Bad Gateway', { status: 502 }))
+    vi.stubGlobal('fetch', fetchMock)
+    const pool = new RpcEndpointPool('devnet', { id: 'devnet', name: 'Devnet', endpoints: [{ url: PRIMARY, requestsPerSecond: 100, batchSize: 4 }] })
+    const request = (hash: string) => pool.request('starknet_getTransactionReceipt', { transaction_hash: hash }, async () => undefined, { method: 'getTransactionReceipt' })
+
+    const results = await Promise.allSettled(['0x1', '0x2', '0x3', '0x4'].map(request))
+
+    expect(results.every((result) => result.status === 'rejected')).toBe(true)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(pool.health()[0]).toMatchObject({ state: 'closed', failures: 1, consecutiveFailures: 1 })
+  })
+
+  it('rejects right away while every circuit is open', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const { RpcEndpointPool } = await import('./rpcTransport')
+    endpointBehaviour.set(PRIMARY, outage)
+    endpointBehaviour.set(BACKUP, outage)
+    const pool = new RpcEndpointPool('devnet', config)
+    const call = () => pool.call((provider) => provider.getChainId(), { method: 'getChainId' })
+
+    for (let i = 0; i < 3; i++) await expect(call()).rejects.toThrow('Service Unavailable')
+    await expect(call()).rejects.toThrow('All RPC endpoints of devnet are unavailable (circuit open); next probe in 15s.')
+  })
+})
+
+describe('RpcRateLimiter', () => {
+  const rateLimited = (retryAfter?: string) => {
+    const error: any = new Error('429 rate limit')
+    error.response = { status: 429, headers: retryAfter ? { 'retry-after': retryAfter } : {} }
+    return Promise.reject(error)
+  }
+
+  it('runs queued calls by priority, in arrival order within a priority', async () => {
+    const { RpcRateLimiter } = await import('./rpcTransport')
+    const limiter = new RpcRateLimiter({ requestsPerSecond: 100, maxConcurrency: 1 })
+    const order: string[] = []
+    let release!: () => void
+    const blocker = limiter.schedule(() => new Promise<void>((resolve) => { release = resolve }), { method: 'blocker' })
+    const queued = (['bulk', 'normal', 'high', 'bulk', 'high'] as const).map((priority, index) => (
+      limiter.schedule(async () => { order.push(`${priority}${index}`) }, { method: 'call', priority })
+    ))
+
+    expect(limiter.stats()).toMatchObject({ inFlight: 1, queued: { high: 2, normal: 1, bulk: 2 } })
+    await vi.waitFor(() => expect(release).toBeTypeOf('function'))
+    release()
+    await Promise.all([blocker, ...queued])
+
+    expect(order).toEqual(['high2', 'high4', 'normal1', 'bulk0', 'bulk3'])
+  })
+
+  it('raises the rate additively on success and halves it once per burst of 429s', async () => {
+    const { RpcRateLimiter } = await import('./rpcTransport')
+    const limiter = new RpcRateLimiter({ requestsPerSecond: 2, maxConcurrency: 4, adaptive: true, maxRequestsPerSecond: 4 })
+
+    await limiter.schedule(async () => 'ok', { method: 'call' })
+    expect(limiter.stats().requestsPerSecond).toBeCloseTo(2.25)
+
+    await Promise.allSettled([
+      limiter.schedule(() => rateLimited(), { method: 'call' }),
+      limiter.schedule(() => rateLimited(), { method: 'call' })
+    ])
+    expect(limiter.stats()).toMatchObject({ rateLimited: 2, pausedUntil: undefined })
+    expect(limiter.stats().requestsPerSecond).toBeCloseTo(1.125)
+  })
+
+  it('pauses every call for the Retry-After the provider sends', async () => {
+    vi.useFakeTimers()
+    const { RpcRateLimiter } = await import('./rpcTransport')
+    const limiter = new RpcRateLimiter({ requestsPerSecond: 10, maxConcurrency: 2, adaptive: true })
+
+    await expect(limiter.schedule(() => rateLimited('2'), { method: 'call' })).rejects.toThrow('429')
+    expect(limiter.stats().pausedUntil).toBe(Date.now() + 2000)
+
+    let ran = false
+    const next = limiter.schedule(async () => { ran = true }, { method: 'call' })
+    await vi.advanceTimersByTimeAsync(1900)
+    expect(ran).toBe(false)
+    await vi.advanceTimersByTimeAsync(200)
+    await next
+    expect(ran).toBe(true)
+  })
+
+  it('keeps a fixed rate unless adaptive mode is enabled', async () => {
+    const { RpcRateLimiter } = await import('./rpcTransport')
+    const limiter = new RpcRateLimiter({ requestsPerSecond: 2, maxConcurrency: 1 })
+
+    await limiter.schedule(async () => 'ok', { method: 'call' })
+    await limiter.schedule(() => rateLimited('5'), { method: 'call' }).catch(() => {})
+
+    expect(limiter.stats()).toMatchObject({ requestsPerSecond: 2, adaptive: false, rateLimited: 1, pausedUntil: undefined })
+  })
+})
+
+describe('JsonRpcBatcher', () => {
+  const receipts = (hashes: string[]) => hashes.map((hash) => ['starknet_getTransactionReceipt', { transaction_hash: hash }] as const)
+
+  // Answers every call with its params; `reject` decides which request bodies get an HTTP 400 instead.
+  const stubNode = (reject: (body: any) => boolean = () => false) => {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(String(init.body))
+      if (reject(body)) return new Response('batch too large', { status: 400 })
+      const answer = (call: any) => (call.params.transaction_hash === '0xbad'
+        ? { jsonrpc: '2.0', id: call.id, error: { code: 29, message: 'Transaction hash not found' } }
+        : { jsonrpc: '2.0', id: call.id, result: call.params })
+      return new Response(JSON.stringify(Array.isArray(body) ? body.map(answer).reverse() : answer(body)))
+    })
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+  }
+
+  it('sends queued calls as one batch taking a single token and settles each call by id', async () => {
+    const { JsonRpcBatcher, RpcRateLimiter } = await import('./rpcTransport')
+    const fetchMock = stubNode()
+    // A single token: sending the calls one by one would leave the last two waiting for the bucket to refill.
+    const limiter = new RpcRateLimiter({ requestsPerSecond: 1, maxConcurrency: 1 })
+    const batcher = new JsonRpcBatcher(PRIMARY, { 'x-api-key': 'secret' }, limiter, { maxBatchSize: 10, billing: 'batch' })
+
+    const results = await Promise.allSettled(receipts(['0x1', '0x2', '0xbad']).map(([method, params]) => batcher.request(method, params)))
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ 'x-api-key': 'secret' })
+    expect(JSON.parse(String(fetchMock.mock.calls[0][1].body))).toHaveLength(3)
+    expect(results.slice(0, 2)).toEqual([
+      { status: 'fulfilled', value: { transaction_hash: '0x1' } },
+      { status: 'fulfilled', value: { transaction_hash: '0x2' } }
+    ])
+    expect(results[2]).toMatchObject({ status: 'rejected', reason: { name: 'JsonRpcError', code: 29 } })
+  })
+
+  it('splits a rejected batch and keeps the smaller size for later batches', async () => {
+    const { JsonRpcBatcher, RpcRateLimiter } = await import('./rpcTransport')
+    const fetchMock = stubNode((body) => Array.isArray(body) && body.length > 2)
+    const limiter = new RpcRateLimiter({ requestsPerSecond: 100, maxConcurrency: 4 })
+    const batcher = new JsonRpcBatcher(PRIMARY, undefined, limiter, { maxBatchSize: 4, billing: 'batch', label: 'primary' })
+    const logs: { level: string; message: string }[] = []
+
+    const values = await Promise.all(receipts(['0x1', '0x2', '0x3', '0x4']).map(([method, params]) => batcher.request(method, params, { log: (entry) => logs.push(entry) })))
+
+    expect(values.map((value: any) => value.transaction_hash)).toEqual(['0x1', '0x2', '0x3', '0x4'])
+    expect(fetchMock.mock.calls.map(([, init]) => JSON.parse(String(init.body)).length)).toEqual([4, 2, 2])
+    expect(batcher.batchSize).toBe(2)
+    expect(logs).toEqual([{
+      level: 'warn',
+      category: 'rpc',
+      method: 'batch of 4',
+      endpoint: 'primary',
+      message: '[batch] primary rejected a batch of 4 (HTTP 400); sending at most 2 calls per batch'
+    }])
+  })
+
+  it('passes HTTP errors that are not about batching to every call without splitting the batch', async () => {
+    const { JsonRpcBatcher, RpcRateLimiter } = await import('./rpcTransport')
+    const fetchMock = vi.fn(async () => new Response('invalid api key', { status: 401 }))
+    vi.stubGlobal('fetch', fetchMock)
+    const limiter = new RpcRateLimiter({ requestsPerSecond: 100, maxConcurrency: 4 })
+    const batcher = new JsonRpcBatcher(PRIMARY, undefined, limiter, { maxBatchSize: 4, billing: 'batch' })
+
+    const results = await Promise.allSettled(receipts(['0x1', '0x2', '0x3', '0x4']).map(([method, params]) => batcher.request(method, params)))
+
+    expect(results.map((result) => result.status === 'rejected' && result.reason.message)).toEqual(Array(4).fill('HTTP 401 from primary.example'))
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(batcher.batchSize).toBe(4)
+  })
+
+  it('drops a flushed batch from the limiter queue once every caller aborts', async () => {
+    const { JsonRpcBatcher, RpcRateLimiter } = await import('./rpcTransport')
+    const fetchMock = stubNode()
+    const limiter = new RpcRateLimiter({ requestsPerSecond: 100, maxConcurrency: 1 })
+    const batcher = new JsonRpcBatcher(PRIMARY, undefined, limiter, { maxBatchSize: 2, billing: 'batch' })
+    let release = () => {}
+    const busy = limiter.schedule(() => new Promise<void>((resolve) => { release = resolve }), { method: 'busy' })
+    const first = new AbortController()
+    const second = new AbortController()
+
+    const calls = receipts(['0x1', '0x2']).map(([method, params], index) => batcher.request(method, params, { priority: 'bulk', signal: [first, second][index].signal }))
+    await Promise.resolve()
+    expect(limiter.stats().queued.bulk).toBe(1)
+
+    first.abort(new Error('superseded'))
+    expect(limiter.stats().queued.bulk).toBe(1)
+    second.abort(new Error('superseded'))
+    expect(limiter.stats().queued.bulk).toBe(0)
+    await expect(Promise.all(calls)).rejects.toThrow('superseded')
+
+    release()
+    await busy
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
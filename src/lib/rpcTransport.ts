@@ -0,0 +1,971 @@
+import { RpcProvider } from 'starknet'
+import { ActivityLogEntry, ActivityLogLevel, Network } from '../types'
+import { NetworkConfig, RpcEndpointConfig, getNetworkConfig } from './networks'
+
+const MAX_RPC_RETRIES = 4
+const BASE_RETRY_DELAY_MS = 500
+const MAX_RETRY_DELAY_MS = 10_000
+const DEFAULT_RPC_REQUESTS_PER_SECOND = 3
+const DEFAULT_RPC_MAX_CONCURRENCY = 2
+const DEFAULT_RPC_TIMEOUT_MS = 30_000
+const DEFAULT_RPC_BATCH_SIZE = 20
+// Calls queued within this window go out in the same batch.
+const BATCH_WINDOW_MS = 10
+// Consecutive endpoint failures that open its circuit; the cooldown doubles on every trip in a row.
+const BREAKER_FAILURE_THRESHOLD = 3
+const BREAKER_BASE_COOLDOWN_MS = 15_000
+const BREAKER_MAX_COOLDOWN_MS = 5 * 60_000
+const AIMD_INCREASE = 0.5
+const AIMD_DECREASE = 0.5
+const AIMD_DECREASE_INTERVAL_MS = 1_000
+const AIMD_MIN_REQUESTS_PER_SECOND = 0.2
+// Without an explicit ceiling the adaptive limiter may grow to this multiple of its starting rate.
+const DEFAULT_ADAPTIVE_HEADROOM = 5
+
+/** What the RPC layer logs: a message plus the structured fields of an activity log entry it knows about. */
+export type RetryLogEntry = { level: ActivityLogLevel; message: string } &
+  Partial<Pick<ActivityLogEntry, 'category' | 'method' | 'durationMs' | 'attempt' | 'endpoint'>>
+export type RetryLogger = (entry: RetryLogEntry) => void
+
+type RateLimiterLogger = RetryLogger
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason)
+    return
+  }
+
+  const onAbort = () => {
+    clearTimeout(timer)
+    reject(signal?.reason)
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort)
+    resolve()
+  }, ms)
+  signal?.addEventListener('abort', onAbort, { once: true })
+})
+
+/** `high` is for calls a user is waiting on (chain head, detail drawer); `bulk` for long trace scans. */
+export type RpcPriority = 'high' | 'normal' | 'bulk'
+
+const PRIORITY_ORDER: Record<RpcPriority, number> = { high: 0, normal: 1, bulk: 2 }
+
+interface RateLimiterTask {
+  factory: () => Promise<unknown>
+  resolve: (value: unknown) => void
+  reject: (reason: unknown) => void
+  method: string
+  priority: RpcPriority
+  cost: number
+  log?: RateLimiterLogger
+  signal?: AbortSignal
+}
+
+export interface RateLimiterOptions {
+  requestsPerSecond: number
+  maxConcurrency: number
+  /** Adjusts the rate between the min and max from observed 429s: additive increase, multiplicative decrease. */
+  adaptive?: boolean
+  minRequestsPerSecond?: number
+  maxRequestsPerSecond?: number
+}
+
+export interface RateLimiterStats {
+  requestsPerSecond: number
+  maxConcurrency: number
+  adaptive: boolean
+  inFlight: number
+  queued: Record<RpcPriority, number>
+  rateLimited: number
+  /** Set while a Retry-After from the provider holds back every call. */
+  pausedUntil?: number
+}
+
+export class RpcRateLimiter {
+  private requestsPerSecond: number
+
+  private readonly maxConcurrency: number
+
+  private readonly adaptive: boolean
+
+  private readonly minRequestsPerSecond: number
+
+  private readonly maxRequestsPerSecond: number
+
+  private readonly queue: RateLimiterTask[] = []
+
+  private active = 0
+
+  private tokens: number
+
+  private lastRefill = Date.now()
+
+  private lastDecrease = 0
+
+  private pausedUntil = 0
+
+  private rateLimited = 0
+
+  private timer?: ReturnType<typeof setTimeout>
+
+  constructor(options: RateLimiterOptions) {
+    this.requestsPerSecond = Math.max(0.1, options.requestsPerSecond)
+    this.maxConcurrency = Math.max(1, Math.floor(options.maxConcurrency))
+    this.adaptive = Boolean(options.adaptive)
+    this.minRequestsPerSecond = Math.min(this.requestsPerSecond, Math.max(0.1, options.minRequestsPerSecond ?? AIMD_MIN_REQUESTS_PER_SECOND))
+    this.maxRequestsPerSecond = Math.max(this.requestsPerSecond, options.maxRequestsPerSecond ?? this.requestsPerSecond)
+    this.tokens = this.requestsPerSecond
+  }
+
+  get config(): RateLimiterOptions {
+    return {
+      requestsPerSecond: this.requestsPerSecond,
+      maxConcurrency: this.maxConcurrency,
+      adaptive: this.adaptive,
+      minRequestsPerSecond: this.minRequestsPerSecond,
+      maxRequestsPerSecond: this.maxRequestsPerSecond
+    }
+  }
+
+  stats(): RateLimiterStats {
+    const queued: Record<RpcPriority, number> = { high: 0, normal: 0, bulk: 0 }
+    for (const task of this.queue) queued[task.priority] += 1
+    return {
+      requestsPerSecond: this.requestsPerSecond,
+      maxConcurrency: this.maxConcurrency,
+      adaptive: this.adaptive,
+      inFlight: this.active,
+      queued,
+      rateLimited: this.rateLimited,
+      pausedUntil: this.pausedUntil > Date.now() ? this.pausedUntil : undefined
+    }
+  }
+
+  schedule<T>(
+    factory: () => Promise<T>,
+    metadata: { method: string; priority?: RpcPriority; cost?: number; log?: RateLimiterLogger; signal?: AbortSignal }
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const { signal } = metadata
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+
+      const onAbort = () => this.dropTask(task, signal?.reason)
+      const task: RateLimiterTask = {
+        factory: () => factory(),
+        resolve: (value) => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve(value as T)
+        },
+        reject: (reason) => {
+          signal?.removeEventListener('abort', onAbort)
+          reject(reason)
+        },
+        method: metadata.method,
+        priority: metadata.priority ?? 'normal',
+        cost: Math.max(1, metadata.cost ?? 1),
+        log: metadata.log,
+        signal
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      this.refillTokens()
+
+      if (this.canRunImmediately()) {
+        this.runTask(task)
+        return
+      }
+
+      this.enqueue(task)
+
+      const reasons: string[] = []
+      if (this.active >= this.maxConcurrency) reasons.push('concurrency')
+      if (this.tokens < 1) reasons.push('rate')
+      if (this.isPaused()) reasons.push('retry-after')
+      const reasonText = reasons.length > 0 ? reasons.join(' & ') : 'pending'
+      const waitEstimate = this.timeUntilNextToken()
+      const waitLabel = waitEstimate > 0 ? ` (~${waitEstimate}ms)` : ''
+
+      metadata.log?.({
+        level: 'warn',
+        category: 'limiter',
+        method: metadata.method,
+        message: `[limiter] Throttling ${metadata.method} (${reasonText}). Queue length: ${this.queue.length}${waitLabel}`
+      })
+
+      this.ensureTimer()
+    })
+  }
+
+  /** Queued tasks run by priority, and in arrival order within the same priority. */
+  private enqueue(task: RateLimiterTask): void {
+    const index = this.queue.findIndex((queued) => PRIORITY_ORDER[queued.priority] > PRIORITY_ORDER[task.priority])
+    if (index === -1) this.queue.push(task)
+    else this.queue.splice(index, 0, task)
+  }
+
+  /** Removes a task that is still queued; tasks that already started finish on their own. */
+  private dropTask(task: RateLimiterTask, reason: unknown): void {
+    const index = this.queue.indexOf(task)
+    if (index === -1) return
+    this.queue.splice(index, 1)
+    task.reject(reason)
+    this.ensureTimer()
+  }
+
+  private isPaused(): boolean {
+    return this.pausedUntil > Date.now()
+  }
+
+  private canRunImmediately(): boolean {
+    return this.active < this.maxConcurrency && this.tokens >= 1 && !this.isPaused()
+  }
+
+  private runTask(task: RateLimiterTask): void {
+    this.active += 1
+    // A task costing several tokens (a batch billed per call) may leave the bucket in debt; later tasks wait it out.
+    this.tokens -= task.cost
+
+    const finalize = () => {
+      this.active = Math.max(0, this.active - 1)
+      this.processQueue()
+    }
+
+    Promise.resolve()
+      .then(() => task.factory())
+      .then(
+        (value) => {
+          this.recordSuccess()
+          task.resolve(value)
+        },
+        (error) => {
+          if (isRateLimitError(error)) this.recordRateLimit(error, task)
+          task.reject(error)
+        }
+      )
+      .finally(finalize)
+  }
+
+  // Additive increase: at full speed the rate grows by AIMD_INCREASE req/s per second of successful calls.
+  private recordSuccess(): void {
+    if (!this.adaptive || this.requestsPerSecond >= this.maxRequestsPerSecond) return
+    this.requestsPerSecond = Math.min(this.maxRequestsPerSecond, this.requestsPerSecond + AIMD_INCREASE / this.requestsPerSecond)
+  }
+
+  // Multiplicative decrease, once per burst: the 429s of calls already in flight report the same overload.
+  private recordRateLimit(error: unknown, task: RateLimiterTask): void {
+    this.rateLimited += 1
+    if (!this.adaptive) return
+    const now = Date.now()
+    const retryAfterMs = getRetryAfterMs(error)
+    if (retryAfterMs) this.pausedUntil = Math.max(this.pausedUntil, now + retryAfterMs)
+    if (now - this.lastDecrease < AIMD_DECREASE_INTERVAL_MS) return
+    this.lastDecrease = now
+    const previous = this.requestsPerSecond
+    this.requestsPerSecond = Math.max(this.minRequestsPerSecond, this.requestsPerSecond * AIMD_DECREASE)
+    this.tokens = Math.min(this.tokens, this.requestsPerSecond)
+    task.log?.({
+      level: 'warn',
+      category: 'limiter',
+      method: task.method,
+      message: `[limiter] 429 on ${task.method}: rate ${previous.toFixed(2)} → ${this.requestsPerSecond.toFixed(2)} req/s${retryAfterMs ? `, paused ${Math.ceil(retryAfterMs / 1000)}s` : ''}`
+    })
+  }
+
+  private processQueue(): void {
+    this.refillTokens()
+
+    while (this.canRunImmediately() && this.queue.length > 0) {
+      const next = this.queue.shift()!
+      this.runTask(next)
+    }
+
+    this.ensureTimer()
+  }
+
+  private ensureTimer(): void {
+    if (this.queue.length === 0) {
+      if (this.timer) {
+        clearTimeout(this.timer)
+        this.timer = undefined
+      }
+      return
+    }
+
+    if (this.canRunImmediately()) {
+      if (this.timer) {
+        clearTimeout(this.timer)
+        this.timer = undefined
+      }
+      this.processQueue()
+      return
+    }
+
+    if ((this.tokens >= 1 && !this.isPaused()) || this.timer) {
+      return
+    }
+
+    const waitMs = this.timeUntilNextToken()
+    this.timer = setTimeout(() => {
+      this.timer = undefined
+      this.processQueue()
+    }, waitMs)
+  }
+
+  private timeUntilNextToken(): number {
+    const pauseMs = Math.max(0, this.pausedUntil - Date.now())
+    if (this.tokens >= 1) return pauseMs
+    const deficit = 1 - this.tokens
+    const waitMs = Math.ceil((deficit / this.requestsPerSecond) * 1000)
+    return Math.max(10, waitMs, pauseMs)
+  }
+
+  // The bucket holds at least one token, so rates below 1 req/s still let calls through.
+  private refillTokens(): void {
+    const now = Date.now()
+    const elapsedMs = now - this.lastRefill
+    if (elapsedMs <= 0) return
+
+    const tokensToAdd = (elapsedMs / 1000) * this.requestsPerSecond
+    this.tokens = Math.min(Math.max(1, this.requestsPerSecond), this.tokens + tokensToAdd)
+    this.lastRefill = now
+  }
+}
+
+const parseRetryAfterHeader = (value: unknown): number | undefined => {
+  if (value == null) return undefined
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return Math.max(0, value) * 1000
+  }
+
+  const stringValue = Array.isArray(value) ? String(value[0]) : String(value)
+  if (!stringValue) return undefined
+
+  const seconds = Number(stringValue)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds) * 1000
+  }
+
+  const asDate = Date.parse(stringValue)
+  if (!Number.isNaN(asDate)) {
+    const diff = asDate - Date.now()
+    return diff > 0 ? diff : 0
+  }
+
+  return undefined
+}
+
+const getRetryAfterMs = (error: unknown): number | undefined => {
+  const headers = (error as any)?.response?.headers ?? {}
+  return parseRetryAfterHeader(headers['retry-after'] ?? headers['Retry-After'])
+}
+
+const getRetryDelayMs = (error: unknown, attempt: number): number => {
+  const retryAfterMs = getRetryAfterMs(error)
+  if (retryAfterMs != null) return retryAfterMs
+  const exponential = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1)
+  return Math.min(exponential, MAX_RETRY_DELAY_MS)
+}
+
+export const isRateLimitError = (error: unknown): boolean => {
+  if (!error || typeof error !== 'object') return false
+  const status = (error as any)?.response?.status ?? (error as any)?.status
+  if (status === 429) return true
+  const code = (error as any)?.code
+  if (code === 429 || Number(code) === 429) return true
+  const message = String((error as any)?.message ?? '')
+  return message.includes('429') || message.toLowerCase().includes('rate limit')
+}
+
+interface RetryOptions {
+  method: string
+  maxAttempts?: number
+  log?: RetryLogger
+  signal?: AbortSignal
+}
+
+export async function callRpcWithRetry<T>(factory: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const { method, maxAttempts = MAX_RPC_RETRIES, log, signal } = options
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+    signal?.throwIfAborted()
+
+    try {
+      return await factory()
+    } catch (error) {
+      signal?.throwIfAborted()
+
+      if (!isRateLimitError(error)) {
+        throw error
+      }
+
+      if (attempt >= maxAttempts) {
+        log?.({ level: 'error', category: 'retry', method, attempt, message: `[${method}] Rate limit exceeded after ${attempt} attempts.` })
+        throw error
+      }
+
+      const delayMs = getRetryDelayMs(error, attempt)
+      const delaySeconds = delayMs >= 1000 ? `${(delayMs / 1000).toFixed(1)}s` : `${delayMs}ms`
+      log?.({ level: 'warn', category: 'retry', method, attempt, message: `[${method}] Rate limited (attempt ${attempt}). Retrying in ${delaySeconds}.` })
+      await sleep(delayMs, signal)
+    }
+  }
+
+  throw new Error(`[${method}] RPC retry exhausted`)
+}
+
+export const parsePositiveNumber = (value: unknown, fallback: number, minimum = 0.0001): number => {
+  const parsed = Number(value)
+  if (Number.isFinite(parsed) && parsed >= minimum) {
+    return parsed
+  }
+  return fallback
+}
+
+const env = (import.meta as any)?.env ?? {}
+
+export const RPC_REQUESTS_PER_SECOND = parsePositiveNumber(
+  env?.VITE_RPC_REQUESTS_PER_SECOND,
+  DEFAULT_RPC_REQUESTS_PER_SECOND,
+  0.0001
+)
+
+export const RPC_MAX_CONCURRENCY = Math.max(
+  1,
+  Math.floor(parsePositiveNumber(env?.VITE_RPC_MAX_CONCURRENCY, DEFAULT_RPC_MAX_CONCURRENCY, 1))
+)
+
+export const RPC_ADAPTIVE = ['1', 'true'].includes(String(env?.VITE_RPC_ADAPTIVE ?? '').toLowerCase())
+
+const RPC_MAX_REQUESTS_PER_SECOND = parsePositiveNumber(env?.VITE_RPC_MAX_REQUESTS_PER_SECOND, 0, 0.0001) || undefined
+
+export const RPC_TIMEOUT_MS = parsePositiveNumber(env?.VITE_RPC_TIMEOUT_MS, DEFAULT_RPC_TIMEOUT_MS, 1)
+
+export const RPC_BATCH_SIZE = Math.floor(parsePositiveNumber(env?.VITE_RPC_BATCH_SIZE, DEFAULT_RPC_BATCH_SIZE, 1))
+
+export type BatchBilling = 'batch' | 'request'
+
+const RPC_BATCH_BILLING: BatchBilling = String(env?.VITE_RPC_BATCH_BILLING ?? '').toLowerCase() === 'request' ? 'request' : 'batch'
+
+export class RpcTimeoutError extends Error {
+  constructor(method: string, timeoutMs: number) {
+    super(`[${method}] No response within ${Math.round(timeoutMs / 1000)}s`)
+    this.name = 'RpcTimeoutError'
+  }
+}
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, method: string): Promise<T> => new Promise<T>((resolve, reject) => {
+  const timer = setTimeout(() => reject(new RpcTimeoutError(method, timeoutMs)), timeoutMs)
+  promise.then(
+    (value) => { clearTimeout(timer); resolve(value) },
+    (error) => { clearTimeout(timer); reject(error) }
+  )
+})
+
+const errorMessage = (error: unknown): string => String((error as any)?.message ?? error)
+
+/**
+ * Tells outages of the endpoint itself (timeouts, network errors, 5xx, exhausted 429 retries) apart from
+ * JSON-RPC errors such as an unknown transaction, which another endpoint would answer the same way.
+ */
+export const isEndpointFailure = (error: unknown): boolean => {
+  if (error instanceof RpcTimeoutError || isRateLimitError(error)) return true
+  const status = (error as any)?.response?.status ?? (error as any)?.status
+  if (typeof status === 'number') return status >= 500 || status === 408
+  // A JSON-RPC error is the node's answer, whatever its message or revert data happen to contain.
+  if (error instanceof JsonRpcError || typeof (error as any)?.code === 'number') return false
+  if (error instanceof TypeError) return true
+  return /\b5\d\d\b|fetch failed|network|econn|socket hang up|timed? ?out|unexpected token|not valid json/i.test(errorMessage(error))
+}
+
+type JsonRpcResponse = { id?: number; result?: unknown; error?: { code?: number; message?: string; data?: unknown } }
+
+/** Error object of a JSON-RPC response: the endpoint answered, the call itself failed. */
+export class JsonRpcError extends Error {
+  readonly code?: number
+
+  readonly data?: unknown
+
+  constructor(method: string, error: NonNullable<JsonRpcResponse['error']>) {
+    super(`RPC: ${method}\n ${error.code ?? ''}: ${error.message ?? 'Unknown error'}${error.data ? `: ${JSON.stringify(error.data)}` : ''}`)
+    this.name = 'JsonRpcError'
+    this.code = error.code
+    this.data = error.data
+  }
+}
+
+// A 413, a 400 or 405 about the batch, or a non-array answer to a batch: the endpoint does not take batches of that size.
+class BatchRejectedError extends Error {}
+
+// Other HTTP errors, such as a 401 or 403, would reach every split of the batch as well.
+const rejectsBatch = (status: number, body: string): boolean => status === 413 || ((status === 400 || status === 405) && /batch|array/i.test(body))
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+interface BatchedCall {
+  id: number
+  rpcMethod: string
+  params: object
+  method: string
+  priority: RpcPriority
+  log?: RetryLogger
+  signal?: AbortSignal
+  resolve: (value: unknown) => void
+  reject: (reason: unknown) => void
+}
+
+const highestPriority = (calls: BatchedCall[]): RpcPriority => calls.reduce<RpcPriority>(
+  (top, call) => (PRIORITY_ORDER[call.priority] < PRIORITY_ORDER[top] ? call.priority : top),
+  'bulk'
+)
+
+// Aborts once every call of the batch has been aborted; a batch with a call that cannot be aborted never is.
+const batchSignal = (batch: BatchedCall[]): { signal?: AbortSignal; release: () => void } => {
+  if (!batch.every((call) => call.signal)) return { release: () => {} }
+  const controller = new AbortController()
+  const onAbort = () => {
+    if (batch.every((call) => call.signal!.aborted)) controller.abort(batch[batch.length - 1].signal!.reason)
+  }
+  for (const call of batch) call.signal!.addEventListener('abort', onAbort)
+  onAbort()
+  return { signal: controller.signal, release: () => batch.forEach((call) => call.signal!.removeEventListener('abort', onAbort)) }
+}
+
+/**
+ * Merges the raw JSON-RPC calls queued on one endpoint into batch requests. A batch takes one limiter slot and
+ * one token, or a token per call when the provider bills calls individually. A rejected batch is split in half
+ * until the endpoint accepts it, and the smaller size is kept for later batches.
+ */
+export class JsonRpcBatcher {
+  private pending: BatchedCall[] = []
+
+  private timer?: ReturnType<typeof setTimeout>
+
+  private nextId = 1
+
+  private maxBatchSize: number
+
+  constructor(
+    private readonly url: string,
+    private readonly headers: Record<string, string> | undefined,
+    private readonly limiter: RpcRateLimiter,
+    private readonly options: { maxBatchSize: number; billing: BatchBilling; label?: string }
+  ) {
+    this.maxBatchSize = Math.max(1, Math.floor(options.maxBatchSize))
+  }
+
+  get batchSize(): number {
+    return this.maxBatchSize
+  }
+
+  request<T>(
+    rpcMethod: string,
+    params: object,
+    options: { method?: string; priority?: RpcPriority; log?: RetryLogger; signal?: AbortSignal } = {}
+  ): Promise<T> {
+    const { signal } = options
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+
+      // A call that was already sent is only detached from its caller; its batch is dropped once all of its calls are.
+      const onAbort = () => {
+        const index = this.pending.indexOf(call)
+        if (index !== -1) this.pending.splice(index, 1)
+        reject(signal?.reason)
+      }
+      const call: BatchedCall = {
+        id: this.nextId++,
+        rpcMethod,
+        params,
+        method: options.method ?? rpcMethod,
+        priority: options.priority ?? 'normal',
+        log: options.log,
+        signal,
+        resolve: (value) => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve(value as T)
+        },
+        reject: (reason) => {
+          signal?.removeEventListener('abort', onAbort)
+          reject(reason)
+        }
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      this.pending.push(call)
+      if (this.pending.length >= this.maxBatchSize) this.flush()
+      else this.timer ??= setTimeout(() => this.flush(), BATCH_WINDOW_MS)
+    })
+  }
+
+  private flush(): void {
+    clearTimeout(this.timer)
+    this.timer = undefined
+    while (this.pending.length) void this.send(this.pending.splice(0, this.maxBatchSize))
+  }
+
+  private async send(batch: BatchedCall[]): Promise<void> {
+    const method = batch.length === 1 ? batch[0].method : `batch of ${batch.length}`
+    const log = batch.find((call) => call.log)?.log
+    const { signal, release } = batchSignal(batch)
+    let responses: Map<number, JsonRpcResponse>
+    try {
+      responses = await callRpcWithRetry(
+        () => this.limiter.schedule(() => this.post(batch, method, signal), {
+          method,
+          priority: highestPriority(batch),
+          cost: this.options.billing === 'request' ? batch.length : 1,
+          log,
+          signal
+        }),
+        { method, log, signal }
+      )
+    } catch (error) {
+      release()
+      if (error instanceof BatchRejectedError && batch.length > 1) {
+        const half = Math.ceil(batch.length / 2)
+        if (half < this.maxBatchSize) {
+          this.maxBatchSize = half
+          const endpoint = this.options.label ?? endpointLabel(this.url)
+          log?.({ level: 'warn', category: 'rpc', method, endpoint, message: `[batch] ${endpoint} rejected a ${method} (${error.message}); sending at most ${half} calls per batch` })
+        }
+        await Promise.all([this.send(batch.slice(0, half)), this.send(batch.slice(half))])
+        return
+      }
+      for (const call of batch) call.reject(error)
+      return
+    }
+    release()
+
+    for (const call of batch) {
+      const response = responses.get(call.id)
+      if (!response) call.reject(new Error(`[${call.method}] Missing from the JSON-RPC batch response`))
+      else if (response.error) call.reject(new JsonRpcError(call.rpcMethod, response.error))
+      else call.resolve(response.result)
+    }
+  }
+
+  private async post(batch: BatchedCall[], method: string, signal?: AbortSignal): Promise<Map<number, JsonRpcResponse>> {
+    const body = batch.map((call) => ({ jsonrpc: '2.0', id: call.id, method: call.rpcMethod, params: call.params }))
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(new RpcTimeoutError(method, RPC_TIMEOUT_MS)), RPC_TIMEOUT_MS)
+    const onAbort = () => controller.abort(signal?.reason)
+    signal?.addEventListener('abort', onAbort, { once: true })
+    try {
+      // A lone call goes out as a plain request, which endpoints without batch support also accept.
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.headers },
+        body: JSON.stringify(batch.length === 1 ? body[0] : body),
+        signal: controller.signal
+      })
+      const text = await response.text().catch(() => '')
+      const payload = parseJson(text)
+      if (response.status === 429 || response.status >= 500 || (!response.ok && (batch.length === 1 || !rejectsBatch(response.status, text)))) {
+        throw Object.assign(new Error(`HTTP ${response.status} from ${endpointLabel(this.url)}`), {
+          response: { status: response.status, headers: { 'retry-after': response.headers.get('retry-after') ?? undefined } }
+        })
+      }
+      if (!response.ok) throw new BatchRejectedError(`HTTP ${response.status}`)
+      if (batch.length > 1 && !Array.isArray(payload)) throw new BatchRejectedError('no array in response')
+      if (!payload || typeof payload !== 'object') throw new Error(`[${method}] Response is not valid JSON-RPC`)
+      if (!Array.isArray(payload)) return new Map([[batch[0].id, payload as JsonRpcResponse]])
+      return new Map((payload as JsonRpcResponse[]).map((entry) => [Number(entry?.id), entry]))
+    } catch (error) {
+      throw controller.signal.aborted ? controller.signal.reason : error
+    } finally {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    }
+  }
+}
+
+// Limiters are keyed by URL and limits, so networks that share an endpoint also share its rate limit.
+const endpointLimiters = new Map<string, { url: string; limiter: RpcRateLimiter }>()
+
+export const limiterFor = (endpoint: RpcEndpointConfig): RpcRateLimiter => {
+  const requestsPerSecond = endpoint.requestsPerSecond ?? RPC_REQUESTS_PER_SECOND
+  const maxConcurrency = endpoint.maxConcurrency ?? RPC_MAX_CONCURRENCY
+  const key = `${endpoint.url}|${requestsPerSecond}|${maxConcurrency}`
+  let entry = endpointLimiters.get(key)
+  if (!entry) {
+    entry = {
+      url: endpoint.url,
+      limiter: new RpcRateLimiter({
+        requestsPerSecond,
+        maxConcurrency,
+        adaptive: RPC_ADAPTIVE,
+        maxRequestsPerSecond: RPC_MAX_REQUESTS_PER_SECOND ?? requestsPerSecond * DEFAULT_ADAPTIVE_HEADROOM
+      })
+    }
+    endpointLimiters.set(key, entry)
+  }
+  return entry.limiter
+}
+
+/** Live state of every endpoint limiter created so far. */
+export const getLimiterStats = (): (RateLimiterStats & { url: string; label: string })[] => (
+  [...endpointLimiters.values()].map(({ url, limiter }) => ({ url, label: endpointLabel(url), ...limiter.stats() }))
+)
+
+/** Host of an endpoint, used in logs instead of the full URL, which often carries an API key. */
+export const endpointLabel = (url: string): string => {
+  try {
+    return new URL(url).host
+  } catch {
+    return url
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface EndpointHealth {
+  url: string
+  label: string
+  weight: number
+  state: CircuitState
+  successes: number
+  failures: number
+  consecutiveFailures: number
+  lastError?: string
+  /** When an open circuit lets the next probe call through. */
+  openUntil?: number
+}
+
+class RpcEndpoint {
+  readonly label: string
+
+  readonly provider: RpcProvider
+
+  readonly limiter: RpcRateLimiter
+
+  readonly batcher?: JsonRpcBatcher
+
+  successes = 0
+
+  failures = 0
+
+  consecutiveFailures = 0
+
+  lastError?: string
+
+  openUntil = 0
+
+  private trips = 0
+
+  private probing = false
+
+  private readonly recordedFailures = new WeakSet<object>()
+
+  constructor(readonly config: RpcEndpointConfig, headers?: Record<string, string>, label?: string) {
+    this.label = label ?? endpointLabel(config.url)
+    this.provider = new RpcProvider({ nodeUrl: config.url, headers })
+    this.limiter = limiterFor(config)
+    const batchSize = config.batchSize ?? RPC_BATCH_SIZE
+    if (batchSize > 1) {
+      this.batcher = new JsonRpcBatcher(config.url, headers, this.limiter, {
+        maxBatchSize: batchSize,
+        billing: config.batchBilling ?? RPC_BATCH_BILLING,
+        label: this.label
+      })
+    }
+  }
+
+  get weight(): number {
+    return this.config.weight ?? 1
+  }
+
+  get state(): CircuitState {
+    if (!this.openUntil) return 'closed'
+    return Date.now() < this.openUntil ? 'open' : 'half-open'
+  }
+
+  /** A closed circuit takes every call; a half-open one lets a single probe through at a time. */
+  get available(): boolean {
+    const { state } = this
+    return state === 'closed' || (state === 'half-open' && !this.probing)
+  }
+
+  startCall(): () => void {
+    if (this.state !== 'half-open') return () => {}
+    this.probing = true
+    return () => { this.probing = false }
+  }
+
+  recordSuccess(): void {
+    this.successes += 1
+    this.consecutiveFailures = 0
+    this.trips = 0
+    this.openUntil = 0
+  }
+
+  /**
+   * Returns true when this failure opened the circuit. A failed batch rejects each of its calls with the same
+   * error, which counts as a single failure.
+   */
+  recordFailure(error: unknown): boolean {
+    if (typeof error === 'object' && error) {
+      if (this.recordedFailures.has(error)) return false
+      this.recordedFailures.add(error)
+    }
+    const halfOpen = this.state === 'half-open'
+    this.failures += 1
+    this.consecutiveFailures += 1
+    this.lastError = errorMessage(error)
+    if (!halfOpen && this.consecutiveFailures < BREAKER_FAILURE_THRESHOLD) return false
+    this.trips += 1
+    this.openUntil = Date.now() + Math.min(BREAKER_BASE_COOLDOWN_MS * 2 ** (this.trips - 1), BREAKER_MAX_COOLDOWN_MS)
+    return true
+  }
+
+  health(): EndpointHealth {
+    return {
+      url: this.config.url,
+      label: this.label,
+      weight: this.weight,
+      state: this.state,
+      successes: this.successes,
+      failures: this.failures,
+      consecutiveFailures: this.consecutiveFailures,
+      lastError: this.lastError,
+      openUntil: this.openUntil || undefined
+    }
+  }
+}
+
+type PoolCallOptions = { method: string; priority?: RpcPriority; log?: RetryLogger; signal?: AbortSignal }
+
+// Every retry goes back through the limiter, so backing off does not hold a slot and each 429 reaches the limiter.
+const callProvider = <T>(endpoint: RpcEndpoint, factory: (provider: RpcProvider) => Promise<T>, options: PoolCallOptions): Promise<T> => (
+  callRpcWithRetry(
+    () => endpoint.limiter.schedule(() => withTimeout(factory(endpoint.provider), RPC_TIMEOUT_MS, options.method), options),
+    options
+  )
+)
+
+/**
+ * Spreads the calls of one network over its endpoints by weight. Each endpoint has its own rate limiter,
+ * 429 retries and circuit breaker; a call that times out or hits an outage fails over to the next endpoint.
+ */
+export class RpcEndpointPool {
+  private readonly endpoints: RpcEndpoint[]
+
+  constructor(readonly network: Network, config: NetworkConfig) {
+    const labels = config.endpoints.map((endpoint) => endpointLabel(endpoint.url))
+    this.endpoints = config.endpoints.map((endpoint, index) => {
+      const duplicate = labels.indexOf(labels[index]) !== index || labels.lastIndexOf(labels[index]) !== index
+      return new RpcEndpoint(endpoint, config.headers, duplicate ? `${labels[index]}#${index + 1}` : labels[index])
+    })
+  }
+
+  /** Available endpoints in weighted random order: the first one serves the call, the rest are failovers. */
+  private order(): RpcEndpoint[] {
+    const remaining = this.endpoints.filter((endpoint) => endpoint.available)
+    const ordered: RpcEndpoint[] = []
+    while (remaining.length) {
+      let pick = Math.random() * remaining.reduce((sum, endpoint) => sum + endpoint.weight, 0)
+      const index = remaining.findIndex((endpoint) => (pick -= endpoint.weight) < 0)
+      ordered.push(...remaining.splice(index === -1 ? remaining.length - 1 : index, 1))
+    }
+    return ordered
+  }
+
+  call<T>(factory: (provider: RpcProvider) => Promise<T>, options: PoolCallOptions): Promise<T> {
+    return this.run(options, (endpoint, log) => callProvider(endpoint, factory, { ...options, log }))
+  }
+
+  /**
+   * Sends a raw JSON-RPC call through the batcher of the endpoint. Endpoints with batching disabled run
+   * `factory` instead, which must resolve to the same response the node returns for the raw call.
+   */
+  request<T>(rpcMethod: string, params: object, factory: (provider: RpcProvider) => Promise<T>, options: PoolCallOptions): Promise<T> {
+    return this.run(options, (endpoint, log) => (endpoint.batcher
+      ? endpoint.batcher.request<T>(rpcMethod, params, { ...options, log })
+      : callProvider(endpoint, factory, { ...options, log })))
+  }
+
+  private async run<T>(options: PoolCallOptions, attempt: (endpoint: RpcEndpoint, log: RetryLogger) => Promise<T>): Promise<T> {
+    const { method, signal } = options
+    const log = options.log ?? (() => {})
+    const order = this.order()
+    if (!order.length) {
+      const retryMs = Math.max(0, Math.min(...this.endpoints.map((endpoint) => endpoint.openUntil)) - Date.now())
+      throw new Error(`[${method}] All RPC endpoints of ${this.network} are unavailable (circuit open); next probe in ${Math.ceil(retryMs / 1000)}s.`)
+    }
+
+    let lastError: unknown
+    for (const [index, endpoint] of order.entries()) {
+      const probe = endpoint.state === 'half-open'
+      const finishCall = endpoint.startCall()
+      const startedAt = Date.now()
+      // One `rpc` entry per endpoint attempt; its duration includes queueing in the limiter and 429 retries.
+      const telemetry = () => ({ category: 'rpc' as const, method, endpoint: endpoint.label, attempt: index + 1, durationMs: Date.now() - startedAt })
+      try {
+        const value = await attempt(endpoint, log)
+        endpoint.recordSuccess()
+        const call = telemetry()
+        log({ level: 'info', ...call, message: `[${method}] ${endpoint.label}${index > 0 ? ' (failover)' : ''}${probe ? ' (circuit closed)' : ''} ${call.durationMs}ms` })
+        return value
+      } catch (error) {
+        signal?.throwIfAborted()
+        if (!isEndpointFailure(error)) {
+          // The endpoint answered; the request itself was rejected and would be everywhere else too.
+          endpoint.recordSuccess()
+          log({ level: 'warn', ...telemetry(), message: `[${method}] ${endpoint.label} rejected the call: ${errorMessage(error)}` })
+          throw error
+        }
+        lastError = error
+        const opened = endpoint.recordFailure(error)
+        const next = order[index + 1]
+        log({
+          level: 'warn',
+          ...telemetry(),
+          message: `[${method}] ${endpoint.label} failed: ${errorMessage(error)}${opened ? ' (circuit open)' : ''}${next ? `; failing over to ${next.label}` : ''}`
+        })
+      } finally {
+        finishCall()
+      }
+    }
+    throw lastError
+  }
+
+  health(): EndpointHealth[] {
+    return this.endpoints.map((endpoint) => endpoint.health())
+  }
+
+  describe(): string {
+    return this.endpoints.map((endpoint) => {
+      const { requestsPerSecond, maxConcurrency } = endpoint.limiter.config
+      const weight = this.endpoints.length > 1 ? `, weight ${endpoint.weight}` : ''
+      const batch = endpoint.batcher ? `, batch ${endpoint.batcher.batchSize}` : ''
+      return `${endpoint.label} (${requestsPerSecond} req/s, concurrency ${maxConcurrency}${weight}${batch})`
+    }).join('; ')
+  }
+}
+
+const endpointPools = new Map<Network, { config: NetworkConfig; pool: RpcEndpointPool }>()
+
+/** Pool of the network's endpoints; rebuilt (with fresh health) when its settings change. */
+export function getEndpointPool(network: Network): RpcEndpointPool {
+  const config = getNetworkConfig(network)
+  if (!config) throw new Error(`Unknown network: ${network}`)
+  const cached = endpointPools.get(network)
+  if (cached?.config === config) return cached.pool
+  const pool = new RpcEndpointPool(network, config)
+  endpointPools.set(network, { config, pool })
+  return pool
+}
+
+export const getEndpointHealth = (network: Network): EndpointHealth[] => getEndpointPool(network).health()
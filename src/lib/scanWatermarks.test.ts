@@ -0,0 +1,43 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest'
+import { clearScanWatermarks, loadScanWatermark, saveScanWatermark } from './scanWatermarks'
+
+beforeEach(() => {
+  localStorage.clear()
+})
+
+describe('scan watermarks', () => {
+  it('extends the saved range with adjacent scans and keeps the hits of both', () => {
+    saveScanWatermark('mainnet', '0xCAFE', { fromBlock: 100, toBlock: 200, hits: [{ txHash: '0x1', blockNumber: 150 }] })
+    saveScanWatermark('mainnet', '0xcafe', { fromBlock: 50, toBlock: 99, hits: [{ txHash: '0x2', blockNumber: 60 }] })
+
+    expect(loadScanWatermark('mainnet', '0xCaFe')).toMatchObject({
+      fromBlock: 50,
+      toBlock: 200,
+      hits: [{ txHash: '0x1', blockNumber: 150 }, { txHash: '0x2', blockNumber: 60 }]
+    })
+    expect(loadScanWatermark('sepolia', '0xcafe')).toBeUndefined()
+  })
+
+  it('replaces the saved range with a disjoint one and ignores malformed storage', () => {
+    saveScanWatermark('mainnet', '0xcafe', { fromBlock: 100, toBlock: 200, hits: [{ txHash: '0x1', blockNumber: 150 }] })
+    saveScanWatermark('mainnet', '0xcafe', { fromBlock: 300, toBlock: 400, hits: [] })
+
+    expect(loadScanWatermark('mainnet', '0xcafe')).toMatchObject({ fromBlock: 300, toBlock: 400, hits: [] })
+
+    localStorage.setItem('starknet-dashboard-scan-watermarks', JSON.stringify({ 'mainnet:0xcafe': { fromBlock: 9, toBlock: 1, hits: [] } }))
+    expect(loadScanWatermark('mainnet', '0xcafe')).toBeUndefined()
+    clearScanWatermarks()
+    expect(localStorage.getItem('starknet-dashboard-scan-watermarks')).toBeNull()
+  })
+
+  it('clears the watermarks of one network only', () => {
+    saveScanWatermark('devnet', '0xcafe', { fromBlock: 1, toBlock: 2, hits: [] })
+    saveScanWatermark('devnet-2', '0xcafe', { fromBlock: 1, toBlock: 2, hits: [] })
+
+    clearScanWatermarks('devnet')
+
+    expect(loadScanWatermark('devnet', '0xcafe')).toBeUndefined()
+    expect(loadScanWatermark('devnet-2', '0xcafe')).toMatchObject({ fromBlock: 1, toBlock: 2 })
+  })
+})
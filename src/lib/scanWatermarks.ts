@@ -0,0 +1,84 @@
+import { z } from 'zod'
+import { Network } from '../types'
+
+const STORAGE_KEY = 'starknet-dashboard-scan-watermarks'
+// Oldest watermarks are dropped beyond these limits so localStorage stays small.
+const MAX_WATERMARKS = 200
+const MAX_HITS = 2_000
+
+const watermarkSchema = z.object({
+  /** Contiguous block range the fallback scan has fully traced for the contract. */
+  fromBlock: z.number().int().min(0),
+  toBlock: z.number().int().min(0),
+  /** Transactions to the contract the fallback found in that range; their blocks are scanned again on later loads. */
+  hits: z.array(z.object({ txHash: z.string(), blockNumber: z.number().int().min(0) })),
+  updatedAt: z.number()
+}).refine((watermark) => watermark.fromBlock <= watermark.toBlock)
+
+export type ScanWatermark = z.infer<typeof watermarkSchema>
+
+const storage = (): Storage | undefined => (typeof localStorage === 'undefined' ? undefined : localStorage)
+
+const watermarkKey = (network: Network, address: string): string => `${network}:${address.toLowerCase()}`
+
+function loadAll(): Record<string, ScanWatermark> {
+  const raw = storage()?.getItem(STORAGE_KEY)
+  if (!raw) return {}
+  try {
+    const parsed = JSON.parse(raw)
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {}
+    return Object.fromEntries(Object.entries(parsed).flatMap(([key, entry]) => {
+      const result = watermarkSchema.safeParse(entry)
+      return result.success ? [[key, result.data]] : []
+    }))
+  } catch {
+    return {}
+  }
+}
+
+export function loadScanWatermark(network: Network, address: string): ScanWatermark | undefined {
+  return loadAll()[watermarkKey(network, address)]
+}
+
+/**
+ * Records a block range the fallback has fully traced. A range that touches the saved one extends it;
+ * a disjoint range replaces it, since the scan cannot skip the gap between the two.
+ */
+export function saveScanWatermark(
+  network: Network,
+  address: string,
+  scanned: { fromBlock: number; toBlock: number; hits: ScanWatermark['hits'] }
+): ScanWatermark {
+  const all = loadAll()
+  const key = watermarkKey(network, address)
+  const previous = all[key]
+  const joined = previous && scanned.fromBlock <= previous.toBlock + 1 && scanned.toBlock >= previous.fromBlock - 1
+  const fromBlock = joined ? Math.min(previous.fromBlock, scanned.fromBlock) : scanned.fromBlock
+  const toBlock = joined ? Math.max(previous.toBlock, scanned.toBlock) : scanned.toBlock
+  const hits = new Map([...(joined ? previous.hits : []), ...scanned.hits]
+    .filter((hit) => hit.blockNumber >= fromBlock && hit.blockNumber <= toBlock)
+    .map((hit) => [hit.txHash, hit]))
+  const watermark: ScanWatermark = {
+    fromBlock,
+    toBlock,
+    hits: [...hits.values()].sort((a, b) => b.blockNumber - a.blockNumber).slice(0, MAX_HITS),
+    updatedAt: Date.now()
+  }
+  // Past the hit limit the oldest hits would be lost, so the range shrinks to the blocks the kept hits still cover.
+  if (hits.size > MAX_HITS) watermark.fromBlock = watermark.hits[watermark.hits.length - 1].blockNumber
+
+  all[key] = watermark
+  const kept = Object.entries(all).sort(([, a], [, b]) => b.updatedAt - a.updatedAt).slice(0, MAX_WATERMARKS)
+  storage()?.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(kept)))
+  return watermark
+}
+
+/** Drops the watermarks of one network, or all of them. */
+export function clearScanWatermarks(network?: Network): void {
+  if (network === undefined) {
+    storage()?.removeItem(STORAGE_KEY)
+    return
+  }
+  const kept = Object.entries(loadAll()).filter(([key]) => !key.startsWith(`${network}:`))
+  storage()?.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(kept)))
+}
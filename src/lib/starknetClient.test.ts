@@ -1,19 +1,21 @@
+import { IDBFactory } from 'fake-indexeddb'
 import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest'
 
 const mockProviderConfig: { factory: () => any } = {
   factory: () => ({})
 }
 
-vi.mock('starknet', () => ({
-  RpcProvider: class {
-    constructor() {
-      return mockProviderConfig.factory()
+vi.mock('starknet', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('starknet')>()
+  return {
+    hash: actual.hash,
+    RpcProvider: class {
+      constructor() {
+        return mockProviderConfig.factory()
+      }
     }
-  },
-  shortString: {
-    decodeShortString: (value: string) => value
   }
-}))
+})
 
 const createProviderImplementation = (options: {
   latestBlock: number
@@ -22,6 +24,7 @@ const createProviderImplementation = (options: {
   events?: { events: any[]; continuation_token?: string | null }
   receipts?: Record<string, any>
   traces?: Record<string, any>
+  abi?: any[]
   overrides?: Partial<{
     getBlockWithTxHashes: (identifier: any) => Promise<any>
     getEvents: (...args: any[]) => Promise<any>
@@ -29,6 +32,7 @@ const createProviderImplementation = (options: {
     getTransactionByHash: (...args: any[]) => Promise<any>
     getBlockWithTxs: (blockNumber: number) => Promise<any>
     getTransactionTrace: (txHash: string) => Promise<any>
+    getBlockTransactionsTraces: (blockNumber: number) => Promise<any>
   }>
 }) => {
   const {
@@ -38,6 +42,7 @@ const createProviderImplementation = (options: {
     events = { events: [], continuation_token: null },
     receipts = {},
     traces = {},
+    abi = [],
     overrides
   } = options
 
@@ -62,7 +67,11 @@ const createProviderImplementation = (options: {
       timestamp: blockTimestamps.get(blockNumber),
       transactions: blockTransactions.get(blockNumber) ?? []
     })),
-    getTransactionTrace: vi.fn(async (txHash: string) => traces[txHash])
+    getTransactionTrace: vi.fn(async (txHash: string) => traces[txHash]),
+    getBlockTransactionsTraces: vi.fn(async (blockNumber: number) => (blockTransactions.get(blockNumber) ?? [])
+      .map((tx) => ({ transaction_hash: tx.transaction_hash, trace_root: traces[tx.transaction_hash] }))),
+    getClassHashAt: vi.fn(async () => '0xc1a55'),
+    getClass: vi.fn(async () => ({ abi: JSON.stringify(abi) }))
   }
 
   return { ...provider, ...(overrides ?? {}) }
@@ -70,6 +79,11 @@ const createProviderImplementation = (options: {
 
 const ADDRESS = '0xCAFE'
 
+// The mocked provider answers the calls; batching would send them as raw JSON-RPC over fetch instead.
+beforeEach(() => {
+  vi.stubEnv('VITE_RPC_BATCH_SIZE', '1')
+})
+
 describe('fetchInteractions fallback trace handling', () => {
   beforeEach(() => {
     vi.restoreAllMocks()
@@ -138,9 +152,258 @@ describe('fetchInteractions fallback trace handling', () => {
     expect(result.hasMore).toBe(false)
   })
 
-  it('sets hasMore when fallback trace budget is exhausted', async () => {
+  it('traces fallback blocks with one call per block and traces single transactions when that is unsupported', async () => {
+    vi.stubEnv('VITE_MAX_TRACE_LOOKUPS', '10')
+    vi.stubEnv('VITE_RPC_REQUESTS_PER_SECOND', '100')
+
+    const trace = { invoke_tx_trace: { execute_invocation: { contract_address: ADDRESS, entry_point_selector: '0x123', caller_address: '0xBEEF' } } }
+    const receipt = { block_number: 1, execution_status: 'SUCCEEDED', actual_fee: { amount: '0x0' }, type: 'INVOKE' }
+    const unsupported = vi.fn(async () => {
+      throw Object.assign(new Error('RPC: starknet_traceBlockTransactions\n -32601: Method not found'), { code: -32601 })
+    })
+    const providers: any[] = []
+    const options = {
+      latestBlock: 1,
+      blockTimestamps: new Map([[0, 1000], [1, 2000]]),
+      blockTransactions: new Map([[1, [{ transaction_hash: '0x1', type: 'INVOKE' }, { transaction_hash: '0x2', type: 'INVOKE' }]]]),
+      traces: { '0x1': trace, '0x2': trace },
+      receipts: { '0x1': receipt, '0x2': receipt }
+    }
+    const params = { address: ADDRESS, network: 'mainnet' as const, page: 1, pageSize: 10, filters: {} }
+
+    mockProviderConfig.factory = () => providers[providers.push(createProviderImplementation(options)) - 1]
+    let { fetchInteractions } = await import('./starknetClient')
+    expect((await fetchInteractions(params)).rows.map((row) => row.txHash).sort()).toEqual(['0x1', '0x2'])
+    expect(providers[0].getBlockTransactionsTraces).toHaveBeenCalledTimes(1)
+    expect(providers[0].getTransactionTrace).not.toHaveBeenCalled()
+
+    vi.resetModules()
+    providers.length = 0
+    mockProviderConfig.factory = () => providers[providers.push(createProviderImplementation({ ...options, overrides: { getBlockTransactionsTraces: unsupported } })) - 1]
+    ;({ fetchInteractions } = await import('./starknetClient'))
+    expect((await fetchInteractions(params)).rows).toHaveLength(2)
+    expect(unsupported).toHaveBeenCalledTimes(1)
+    expect(providers[0].getTransactionTrace).toHaveBeenCalledTimes(2)
+  })
+
+  it('skips a block whose trace call fails for another reason and keeps tracing whole blocks', async () => {
+    vi.stubEnv('VITE_MAX_TRACE_LOOKUPS', '10')
+    vi.stubEnv('VITE_RPC_REQUESTS_PER_SECOND', '100')
+
+    const trace = { invoke_tx_trace: { execute_invocation: { contract_address: ADDRESS, entry_point_selector: '0x123', caller_address: '0xBEEF' } } }
+    const receipt = { block_number: 1, execution_status: 'SUCCEEDED', actual_fee: { amount: '0x0' }, type: 'INVOKE' }
+    const blockTransactions = new Map([[1, [{ transaction_hash: '0x1', type: 'INVOKE' }]], [2, [{ transaction_hash: '0x2', type: 'INVOKE' }]]])
+    const getBlockTransactionsTraces = vi.fn(async (blockNumber: number) => {
+      if (blockNumber === 2) throw Object.assign(new Error('RPC: starknet_traceBlockTransactions\n -32603: Internal error'), { code: -32603 })
+      return (blockTransactions.get(blockNumber) ?? []).map((tx) => ({ transaction_hash: tx.transaction_hash, trace_root: trace }))
+    })
+    const provider = createProviderImplementation({
+      latestBlock: 2,
+      blockTimestamps: new Map([[0, 1000], [1, 2000], [2, 3000]]),
+      blockTransactions,
+      traces: { '0x1': trace, '0x2': trace },
+      receipts: { '0x1': receipt, '0x2': { ...receipt, block_number: 2 } },
+      overrides: { getBlockTransactionsTraces }
+    })
+    mockProviderConfig.factory = () => provider
+
+    const { fetchInteractions } = await import('./starknetClient')
+    const result = await fetchInteractions({ address: ADDRESS, network: 'mainnet' as const, page: 1, pageSize: 10, filters: {} })
+
+    expect(result.rows.map((row) => row.txHash)).toEqual(['0x1'])
+    expect(result.coverage).toMatchObject({ skippedCount: 1, exact: false, skipped: [{ blockNumber: 2, reason: 'RPC: starknet_traceBlockTransactions' }] })
+    expect(getBlockTransactionsTraces.mock.calls.map(([blockNumber]) => blockNumber).sort()).toEqual([1, 2])
+    expect(provider.getTransactionTrace).not.toHaveBeenCalled()
+  })
+
+  it('resolves entrypoint names from the contract ABI', async () => {
+    vi.stubEnv('VITE_MAX_TRACE_LOOKUPS', '10')
+
+    const { hash } = await vi.importActual<typeof import('starknet')>('starknet')
+
+    const blockTimestamps = new Map<number, number>([
+      [0, 1000],
+      [1, 2000],
+      [2, 3000]
+    ])
+
+    const blockTransactions = new Map<number, any[]>([
+      [2, [
+        { transaction_hash: '0x1', type: 'INVOKE' },
+        { transaction_hash: '0x2', type: 'INVOKE' }
+      ]]
+    ])
+
+    const invocationFor = (selector: string) => ({
+      invoke_tx_trace: {
+        execute_invocation: {
+          contract_address: ADDRESS,
+          entry_point_selector: selector,
+          caller_address: '0xBEEF'
+        }
+      }
+    })
+
+    const receipt = {
+      block_number: 2,
+      execution_status: 'SUCCEEDED',
+      actual_fee: { amount: '0x0' },
+      sender_address: '0xFF',
+      type: 'INVOKE'
+    }
+
+    mockProviderConfig.factory = () => createProviderImplementation({
+      latestBlock: 2,
+      blockTimestamps,
+      blockTransactions,
+      abi: [
+        {
+          type: 'interface',
+          name: 'token::IToken',
+          items: [{ type: 'function', name: 'transfer', inputs: [], outputs: [] }]
+        }
+      ],
+      traces: {
+        '0x1': invocationFor(hash.getSelectorFromName('transfer')),
+        '0x2': invocationFor('0x123')
+      },
+      receipts: { '0x1': receipt, '0x2': receipt }
+    })
+
+    const { fetchInteractions } = await import('./starknetClient')
+
+    const result = await fetchInteractions({
+      address: ADDRESS,
+      network: 'mainnet',
+      page: 1,
+      pageSize: 10,
+      filters: {}
+    })
+
+    const byHash = Object.fromEntries(result.rows.map((row) => [row.txHash, row]))
+    expect(byHash['0x1']).toMatchObject({ entrypoint: 'transfer', entrypointResolved: true })
+    expect(byHash['0x2']).toMatchObject({ entrypoint: '0x123', entrypointResolved: false })
+  })
+
+  it('splits multicall calldata into calls aimed at the watched contract', async () => {
+    vi.stubEnv('VITE_MAX_TRACE_LOOKUPS', '10')
+
+    const { hash } = await vi.importActual<typeof import('starknet')>('starknet')
+    const transfer = hash.getSelectorFromName('transfer')
+    const approve = hash.getSelectorFromName('approve')
+
+    const blockTimestamps = new Map<number, number>([
+      [0, 1000],
+      [1, 2000]
+    ])
+
+    const transactions: Record<string, any> = {
+      // Cairo 1 layout: [calls_len, (to, selector, calldata_len, ...calldata)*]
+      '0xa': {
+        type: 'INVOKE',
+        sender_address: '0xACC',
+        calldata: ['0x3', ADDRESS, approve, '0x1', '0x5', '0xD00D', transfer, '0x0', ADDRESS, transfer, '0x2', '0x7', '0x8']
+      },
+      // Cairo 0 layout: [call_array_len, (to, selector, offset, len)*, calldata_len, ...calldata]
+      '0xb': {
+        type: 'INVOKE',
+        sender_address: '0xACC',
+        calldata: ['0x1', '0xcafe', transfer, '0x0', '0x1', '0x1', '0x9']
+      }
+    }
+
+    const receipt = {
+      block_number: 1,
+      execution_status: 'SUCCEEDED',
+      actual_fee: { amount: '0x0' },
+      type: 'INVOKE'
+    }
+
+    mockProviderConfig.factory = () => createProviderImplementation({
+      latestBlock: 1,
+      blockTimestamps,
+      blockTransactions: new Map(),
+      events: {
+        events: [
+          { transaction_hash: '0xa', block_number: 1 },
+          { transaction_hash: '0xb', block_number: 1 }
+        ],
+        continuation_token: null
+      },
+      abi: [
+        { type: 'function', name: 'transfer', inputs: [], outputs: [] },
+        { type: 'function', name: 'approve', inputs: [], outputs: [] }
+      ],
+      receipts: { '0xa': receipt, '0xb': receipt },
+      overrides: {
+        getTransactionByHash: async (txHash: string) => transactions[txHash]
+      }
+    })
+
+    const { fetchInteractions } = await import('./starknetClient')
+
+    const result = await fetchInteractions({
+      address: ADDRESS,
+      network: 'mainnet',
+      page: 1,
+      pageSize: 10,
+      filters: {}
+    })
+
+    const byHash = Object.fromEntries(result.rows.map((row) => [row.txHash, row]))
+    expect(byHash['0xa'].calls).toEqual([
+      { entrypoint: 'approve', entrypointResolved: true, calldata: ['0x5'] },
+      { entrypoint: 'transfer', entrypointResolved: true, calldata: ['0x7', '0x8'] }
+    ])
+    expect(byHash['0xa'].entrypoint).toBe('approve')
+    expect(byHash['0xb'].calls).toEqual([
+      { entrypoint: 'transfer', entrypointResolved: true, calldata: ['0x9'] }
+    ])
+
+    const { methodCounts } = await import('./aggregations')
+    expect(methodCounts(result.rows)).toEqual([
+      { name: 'transfer', count: 2 },
+      { name: 'approve', count: 1 }
+    ])
+  })
+
+  it('keeps exact fee amounts together with their unit', async () => {
+    vi.stubEnv('VITE_MAX_TRACE_LOOKUPS', '10')
+
+    mockProviderConfig.factory = () => createProviderImplementation({
+      latestBlock: 1,
+      blockTimestamps: new Map([[0, 1000], [1, 2000]]),
+      blockTransactions: new Map(),
+      events: {
+        events: [
+          { transaction_hash: '0xa', block_number: 1 },
+          { transaction_hash: '0xb', block_number: 1 }
+        ],
+        continuation_token: null
+      },
+      receipts: {
+        '0xa': { block_number: 1, execution_status: 'SUCCEEDED', actual_fee: { amount: '0x1bc16d674ec80001', unit: 'FRI' } },
+        '0xb': { block_number: 1, execution_status: 'SUCCEEDED', actual_fee: { amount: '0x5f5e100' } }
+      }
+    })
+
+    const { fetchInteractions } = await import('./starknetClient')
+
+    const result = await fetchInteractions({
+      address: ADDRESS,
+      network: 'mainnet',
+      page: 1,
+      pageSize: 10,
+      filters: { feeUnit: 'FRI', minFee: 10n ** 18n }
+    })
+
+    expect(result.rows).toHaveLength(1)
+    expect(result.rows[0].fee).toEqual({ amount: '2000000000000000001', unit: 'FRI' })
+  })
+
+  it('sets hasMore and reports coverage when fallback trace budget is exhausted', async () => {
     vi.stubEnv('VITE_MAX_TRACE_LOOKUPS', '1')
-    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const logs: { level: string; message: string }[] = []
 
     const blockTimestamps = new Map<number, number>([
       [0, 1000],
@@ -189,12 +452,301 @@ describe('fetchInteractions fallback trace handling', () => {
       to: undefined,
       page: 1,
       pageSize: 10,
-      filters: {}
+      filters: {},
+      log: (entry) => logs.push(entry)
     })
 
     expect(result.rows).toHaveLength(0)
     expect(result.hasMore).toBe(true)
-    expect(warnSpy).toHaveBeenCalled()
+    expect(result.traceBudgetExhausted).toBe(true)
+    expect(result.coverage).toMatchObject({
+      requested: { fromBlock: 0, toBlock: 2 },
+      eventsComplete: true,
+      fallback: { nextBlock: 2, blocksCovered: 0, blocksTotal: 3, complete: false },
+      traceBudget: { used: 0, total: 1 },
+      stoppedBy: 'trace-budget',
+      exact: false
+    })
+    expect(logs).toContainEqual({ level: 'warn', message: '[fallback] Trace budget (1 lookups) used up at block 2: 0 of 3 blocks covered. Loading more continues the scan.' })
+  })
+})
+
+describe('fetchInteractions cursor pagination', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+    vi.resetModules()
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('resumes from the returned cursor without rescanning', async () => {
+    vi.stubEnv('VITE_MAX_TRACE_LOOKUPS', '10')
+
+    const receipt = (blockNumber: number) => ({
+      block_number: blockNumber,
+      execution_status: 'SUCCEEDED',
+      actual_fee: { amount: '0x1' }
+    })
+
+    const provider = createProviderImplementation({
+      latestBlock: 2,
+      blockTimestamps: new Map([[0, 1000], [1, 2000], [2, 3000]]),
+      blockTransactions: new Map(),
+      events: {
+        events: [
+          { transaction_hash: '0xa', block_number: 1 },
+          { transaction_hash: '0xb', block_number: 2 }
+        ],
+        continuation_token: null
+      },
+      receipts: { '0xa': receipt(1), '0xb': receipt(2) }
+    })
+    mockProviderConfig.factory = () => provider
+
+    const { fetchInteractions } = await import('./starknetClient')
+    const params = { address: ADDRESS, network: 'mainnet' as const, page: 1, pageSize: 1, filters: {} }
+
+    const first = await fetchInteractions(params)
+    expect(first.rows.map((row) => row.txHash)).toEqual(['0xa'])
+    expect(first.hasMore).toBe(true)
+    expect(first.cursor).toBeDefined()
+
+    const latestLookups = provider.getBlockWithTxHashes.mock.calls.filter(([id]) => id === 'latest').length
+
+    const second = await fetchInteractions({ ...params, page: 2, cursor: first.cursor })
+    expect(second.rows.map((row) => row.txHash)).toEqual(['0xb'])
+
+    const third = await fetchInteractions({ ...params, page: 3, cursor: second.cursor })
+    expect(third.rows).toHaveLength(0)
+    expect(third.hasMore).toBe(false)
+    expect(third.cursor).toBeUndefined()
+
+    expect(provider.getBlockWithTxHashes.mock.calls.filter(([id]) => id === 'latest')).toHaveLength(latestLookups)
+    expect(provider.getTransactionReceipt).toHaveBeenCalledTimes(2)
+    expect(provider.getClass).toHaveBeenCalledTimes(1)
+  })
+
+  it('skips fallback blocks an earlier load traced, except the blocks that held its hits', async () => {
+    vi.stubEnv('VITE_MAX_TRACE_LOOKUPS', '100')
+    vi.stubEnv('VITE_RPC_REQUESTS_PER_SECOND', '100')
+    const stored = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => { stored.set(key, value) },
+      removeItem: (key: string) => { stored.delete(key) }
+    })
+
+    const trace = { invoke_tx_trace: { execute_invocation: { contract_address: ADDRESS, entry_point_selector: '0x123' } } }
+    const options = {
+      latestBlock: 15,
+      blockTimestamps: new Map([[3, 1300], [15, 2500]]),
+      blockTransactions: new Map([[3, [{ transaction_hash: '0x1', type: 'INVOKE' }]]]),
+      traces: { '0x1': trace },
+      receipts: { '0x1': { block_number: 3, execution_status: 'SUCCEEDED', actual_fee: { amount: '0x0' } } }
+    }
+    const params = { address: ADDRESS, network: 'mainnet' as const, page: 1, pageSize: 10, filters: {}, blockRange: { from: 0 } }
+
+    try {
+      mockProviderConfig.factory = () => createProviderImplementation(options)
+      const first = await (await import('./starknetClient')).fetchInteractions(params)
+      expect(first.rows.map((row) => row.txHash)).toEqual(['0x1'])
+
+      // Blocks 0–5 are final (10 confirmations below block 15), so a fresh load only rescans the hit block among them.
+      vi.resetModules()
+      const provider = createProviderImplementation(options)
+      mockProviderConfig.factory = () => provider
+      const logs: { level: string; message: string }[] = []
+      const second = await (await import('./starknetClient')).fetchInteractions({ ...params, log: (entry) => logs.push(entry) })
+
+      expect(second.rows.map((row) => row.txHash)).toEqual(['0x1'])
+      expect(provider.getBlockWithTxs.mock.calls.map(([blockNumber]) => blockNumber).sort((a, b) => b - a)).toEqual([15, 14, 13, 12, 11, 10, 9, 8, 7, 6, 3])
+      expect(second.coverage?.fallback).toEqual({ fromBlock: 0, toBlock: 15, nextBlock: -1, blocksTotal: 16, blocksCovered: 16, blocksSkipped: 5, complete: true })
+      expect(logs).toContainEqual({ level: 'info', message: '[fallback] Skipping blocks 4–5, already traced by an earlier load' })
+      expect(second.coverage).toMatchObject({ matched: 1, skippedCount: 0, exact: true })
+    } finally {
+      vi.unstubAllGlobals()
+    }
+  })
+
+  it('keeps blocks it could not trace out of the watermark so the next load traces them again', async () => {
+    vi.stubEnv('VITE_MAX_TRACE_LOOKUPS', '100')
+    vi.stubEnv('VITE_RPC_REQUESTS_PER_SECOND', '100')
+    const stored = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => { stored.set(key, value) },
+      removeItem: (key: string) => { stored.delete(key) }
+    })
+
+    const trace = { invoke_tx_trace: { execute_invocation: { contract_address: ADDRESS, entry_point_selector: '0x123' } } }
+    const blockTransactions = new Map([[2, [{ transaction_hash: '0x1', type: 'INVOKE' }]]])
+    const options = {
+      latestBlock: 15,
+      blockTimestamps: new Map([[2, 1200], [15, 2500]]),
+      blockTransactions,
+      traces: { '0x1': trace },
+      receipts: { '0x1': { block_number: 2, execution_status: 'SUCCEEDED', actual_fee: { amount: '0x0' } } }
+    }
+    const params = { address: ADDRESS, network: 'mainnet' as const, page: 1, pageSize: 10, filters: {}, blockRange: { from: 0 } }
+
+    try {
+      // Blocks 4 and 2 are final but unavailable on the first load.
+      mockProviderConfig.factory = () => createProviderImplementation({
+        ...options,
+        overrides: {
+          getBlockWithTxs: async (blockNumber: number) => {
+            if (blockNumber === 4 || blockNumber === 2) throw Object.assign(new Error('Block not found'), { code: 24 })
+            return { timestamp: options.blockTimestamps.get(blockNumber), transactions: blockTransactions.get(blockNumber) ?? [] }
+          }
+        }
+      })
+      const first = await (await import('./starknetClient')).fetchInteractions(params)
+      expect(first.rows).toEqual([])
+      expect(first.coverage).toMatchObject({ skippedCount: 2, exact: false })
+
+      vi.resetModules()
+      const provider = createProviderImplementation(options)
+      mockProviderConfig.factory = () => provider
+      const second = await (await import('./starknetClient')).fetchInteractions(params)
+
+      // Only block 5, above the first failed block, was saved as traced.
+      expect(provider.getBlockWithTxs.mock.calls.map(([blockNumber]) => blockNumber).sort((a, b) => b - a)).toEqual([15, 14, 13, 12, 11, 10, 9, 8, 7, 6, 4, 3, 2, 1, 0])
+      expect(second.rows.map((row) => row.txHash)).toEqual(['0x1'])
+    } finally {
+      vi.unstubAllGlobals()
+    }
+  })
+
+  it('keeps the hits of a block a page stopped inside in the watermark once a later page finishes it', async () => {
+    vi.stubEnv('VITE_MAX_TRACE_LOOKUPS', '100')
+    vi.stubEnv('VITE_RPC_REQUESTS_PER_SECOND', '100')
+    const stored = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => { stored.set(key, value) },
+      removeItem: (key: string) => { stored.delete(key) }
+    })
+
+    const trace = { invoke_tx_trace: { execute_invocation: { contract_address: ADDRESS, entry_point_selector: '0x123' } } }
+    const receipt = { block_number: 2, execution_status: 'SUCCEEDED', actual_fee: { amount: '0x0' } }
+    const options = {
+      latestBlock: 15,
+      blockTimestamps: new Map([[2, 1200], [15, 2500]]),
+      blockTransactions: new Map([[2, [{ transaction_hash: '0x1', type: 'INVOKE' }, { transaction_hash: '0x2', type: 'INVOKE' }]]]),
+      traces: { '0x1': trace, '0x2': trace },
+      receipts: { '0x1': receipt, '0x2': receipt }
+    }
+    const params = { address: ADDRESS, network: 'mainnet' as const, page: 1, pageSize: 1, filters: {}, blockRange: { from: 0 } }
+
+    try {
+      mockProviderConfig.factory = () => createProviderImplementation(options)
+      const { fetchInteractions } = await import('./starknetClient')
+      // Each page stops after one hit, so the first two stop inside block 2 and the third finishes it.
+      const first = await fetchInteractions(params)
+      expect(first.cursor).toMatchObject({ fallbackBlock: 2, fallbackTxIndex: 1, fallbackBlockHits: [{ txHash: '0x1', blockNumber: 2 }] })
+      const second = await fetchInteractions({ ...params, page: 2, cursor: first.cursor })
+      const third = await fetchInteractions({ ...params, page: 3, cursor: second.cursor })
+      expect([...first.rows, ...second.rows, ...third.rows].map((row) => row.txHash)).toEqual(['0x1', '0x2'])
+      expect(third.cursor).toBeUndefined()
+
+      vi.resetModules()
+      const provider = createProviderImplementation(options)
+      mockProviderConfig.factory = () => provider
+      const fresh = await (await import('./starknetClient')).fetchInteractions({ ...params, pageSize: 10 })
+
+      expect(provider.getBlockWithTxs.mock.calls.map(([blockNumber]) => blockNumber)).toContain(2)
+      expect(fresh.rows.map((row) => row.txHash).sort()).toEqual(['0x1', '0x2'])
+    } finally {
+      vi.unstubAllGlobals()
+    }
+  })
+
+  it('does not charge the trace budget for blocks served from the persistent cache', async () => {
+    vi.stubEnv('VITE_MAX_TRACE_LOOKUPS', '8')
+    vi.stubEnv('VITE_RPC_REQUESTS_PER_SECOND', '100')
+    vi.stubGlobal('indexedDB', new IDBFactory())
+
+    const blockTransactions = new Map([0, 1, 2, 3, 4, 5].map((n) => [n, [{ transaction_hash: `0x${n}`, type: 'INVOKE' }]]))
+    const otherContract = { invoke_tx_trace: { execute_invocation: { contract_address: '0xbeef', entry_point_selector: '0x123' } } }
+    const traces = Object.fromEntries([...blockTransactions.keys()].map((n) => [`0x${n}`, otherContract]))
+    const options = { latestBlock: 15, blockTimestamps: new Map([[15, 2500]]), blockTransactions, traces }
+    const params = { address: ADDRESS, network: 'mainnet' as const, page: 1, pageSize: 10, filters: {}, blockRange: { from: 0, to: 5 } }
+
+    try {
+      mockProviderConfig.factory = () => createProviderImplementation(options)
+      const first = await (await import('./starknetClient')).fetchInteractions(params)
+      expect(first.coverage?.fallback).toMatchObject({ nextBlock: 1, complete: false })
+      // Cache writes are not awaited by the scan.
+      await new Promise((resolve) => setTimeout(resolve, 50))
+
+      vi.resetModules()
+      const provider = createProviderImplementation(options)
+      mockProviderConfig.factory = () => provider
+      const second = await (await import('./starknetClient')).fetchInteractions(params)
+
+      expect(second.coverage?.fallback).toMatchObject({ complete: true, blocksCovered: 6 })
+      expect(second.traceBudgetExhausted).toBe(false)
+      expect(provider.getBlockWithTxs.mock.calls.map(([blockNumber]) => blockNumber).sort((a, b) => b - a)).toEqual([1, 0])
+      expect(provider.getBlockTransactionsTraces.mock.calls.map(([blockNumber]) => blockNumber).sort((a, b) => b - a)).toEqual([1, 0])
+      expect(second.coverage?.traceBudget.used).toBe(4)
+    } finally {
+      vi.unstubAllGlobals()
+    }
+  })
+})
+
+describe('fetchInteractions streaming', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+    vi.resetModules()
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('emits batches and progress that add up to the final result', async () => {
+    vi.stubEnv('VITE_MAX_TRACE_LOOKUPS', '10')
+
+    const receipt = { block_number: 2, execution_status: 'SUCCEEDED', actual_fee: { amount: '0x1' } }
+
+    mockProviderConfig.factory = () => createProviderImplementation({
+      latestBlock: 2,
+      blockTimestamps: new Map([[0, 1000], [1, 2000], [2, 3000]]),
+      blockTransactions: new Map([[2, [{ transaction_hash: '0xc', type: 'INVOKE' }]]]),
+      events: {
+        events: [
+          { transaction_hash: '0xa', block_number: 1 },
+          { transaction_hash: '0xb', block_number: 2 }
+        ],
+        continuation_token: null
+      },
+      traces: {
+        '0xc': { invoke_tx_trace: { execute_invocation: { contract_address: ADDRESS, entry_point_selector: '0x1' } } }
+      },
+      receipts: { '0xa': { ...receipt, block_number: 1 }, '0xb': receipt, '0xc': receipt }
+    })
+
+    const { fetchInteractions } = await import('./starknetClient')
+
+    const batches: string[][] = []
+    const progress: any[] = []
+    const result = await fetchInteractions({
+      address: ADDRESS,
+      network: 'mainnet',
+      page: 1,
+      pageSize: 10,
+      filters: {},
+      onBatch: (rows) => batches.push(rows.map((row) => row.txHash)),
+      onProgress: (next) => progress.push(next)
+    })
+
+    expect(batches).toEqual([['0xa', '0xb'], ['0xc']])
+    expect(batches.flat().sort()).toEqual(result.rows.map((row) => row.txHash).sort())
+    expect(progress[0]).toMatchObject({ phase: 'range', blocksTotal: 3, blocksScanned: 0 })
+    expect(progress.at(-1)).toMatchObject({ phase: 'done', eventsPages: 1, blocksScanned: 3, blocksTotal: 3 })
   })
 })
 
@@ -270,6 +822,40 @@ describe('fetchInteractions rate limit handling', () => {
     }
   })
 
+  it('stops retrying as soon as the load is aborted', async () => {
+    vi.stubEnv('VITE_MAX_TRACE_LOOKUPS', '10')
+
+    const controller = new AbortController()
+    const getEvents = vi.fn(async () => {
+      controller.abort()
+      const error: any = new Error('429 rate limit')
+      error.response = { status: 429, headers: { 'retry-after': '60' } }
+      throw error
+    })
+
+    mockProviderConfig.factory = () => createProviderImplementation({
+      latestBlock: 1,
+      blockTimestamps: new Map([[0, 1000], [1, 2000]]),
+      blockTransactions: new Map(),
+      overrides: { getEvents }
+    })
+
+    const { fetchInteractions } = await import('./starknetClient')
+
+    const started = Date.now()
+    await expect(fetchInteractions({
+      address: ADDRESS,
+      network: 'mainnet',
+      page: 1,
+      pageSize: 10,
+      filters: {},
+      signal: controller.signal
+    })).rejects.toMatchObject({ name: 'AbortError' })
+
+    expect(Date.now() - started).toBeLessThan(30_000)
+    expect(getEvents).toHaveBeenCalledTimes(1)
+  })
+
   it('bubbles up an error after exceeding retry attempts for 429 responses', async () => {
     vi.stubEnv('VITE_MAX_TRACE_LOOKUPS', '10')
     vi.useFakeTimers()
@@ -325,3 +911,174 @@ describe('fetchInteractions rate limit handling', () => {
     }
   })
 })
+
+describe('fetchTransactionDetails', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+    vi.resetModules()
+  })
+
+  it('decodes calldata, events and the call tree with the contract ABI', async () => {
+    const { hash } = await import('starknet')
+    const transferSelector = hash.getSelectorFromName('transfer')
+    const eventSelector = hash.getSelectorFromName('Transfer')
+    const abi = [
+      {
+        type: 'function',
+        name: 'transfer',
+        inputs: [
+          { name: 'recipient', type: 'core::starknet::contract_address::ContractAddress' },
+          { name: 'amount', type: 'core::integer::u256' }
+        ],
+        outputs: [],
+        state_mutability: 'external'
+      },
+      {
+        type: 'event',
+        name: 'token::Transfer',
+        kind: 'struct',
+        members: [
+          { name: 'from', type: 'core::starknet::contract_address::ContractAddress', kind: 'key' },
+          { name: 'value', type: 'core::integer::u256', kind: 'data' }
+        ]
+      }
+    ]
+
+    // The block lists the hash zero-padded, which still matches the transaction.
+    const getBlockWithTxHashes = vi.fn(async (identifier: any) => identifier === 'latest'
+      ? { block_number: 100, timestamp: 5000 }
+      : { block_number: 5, timestamp: 1000, block_hash: '0xb5', transactions: ['0xa0', '0x00d1'] })
+    mockProviderConfig.factory = () => createProviderImplementation({
+      latestBlock: 100,
+      blockTimestamps: new Map([[100, 5000]]),
+      blockTransactions: new Map(),
+      abi,
+      receipts: {
+        '0xd1': {
+          block_number: 5,
+          block_hash: '0xb5',
+          execution_status: 'SUCCEEDED',
+          finality_status: 'ACCEPTED_ON_L1',
+          actual_fee: { amount: '0x10', unit: 'FRI' },
+          events: [{ from_address: ADDRESS, keys: [eventSelector, '0xbeef'], data: ['0x5', '0x0'] }],
+          messages_sent: [{ from_address: ADDRESS, to_address: '0x11', payload: ['0x1'] }],
+          execution_resources: { steps: 1234 }
+        }
+      },
+      traces: {
+        '0xd1': {
+          invoke_tx_trace: {
+            execute_invocation: {
+              contract_address: '0xacc',
+              entry_point_selector: '0x15d40a3d6ca2ac30f4031e42be28da9b056fef9bb7357ac5e85627ee876e5ad',
+              calldata: [],
+              result: [],
+              calls: [{ contract_address: ADDRESS, entry_point_selector: transferSelector, calldata: ['0xbeef', '0x5', '0x0'], result: ['0x1'], call_type: 'CALL', calls: [] }]
+            }
+          }
+        }
+      },
+      overrides: {
+        getTransactionByHash: async () => ({ type: 'INVOKE', sender_address: '0xacc', calldata: ['0x1', ADDRESS, transferSelector, '0x3', '0xbeef', '0x5', '0x0'] }),
+        getBlockWithTxHashes
+      }
+    })
+
+    const { fetchTransactionDetails } = await import('./starknetClient')
+    const details = await fetchTransactionDetails({ network: 'mainnet', txHash: '0xd1', latestBlockNumber: 100 })
+    expect(getBlockWithTxHashes.mock.calls.map(([identifier]) => identifier)).toEqual([5])
+
+    expect(details).toMatchObject({ blockNumber: 5, txIndex: 1, status: 'ACCEPTED', fee: { amount: '16', unit: 'FRI' }, executionResources: { steps: 1234 } })
+    expect(details.calls[0].entrypoint).toBe('transfer')
+    expect(details.calls[0].args).toEqual([
+      { name: 'recipient', type: 'core::starknet::contract_address::ContractAddress', value: '0xbeef' },
+      { name: 'amount', type: 'core::integer::u256', value: '5' }
+    ])
+    expect(details.events[0].name).toBe('Transfer')
+    expect(details.events[0].fields?.map((f) => f.value)).toEqual(['0xbeef', '5'])
+    expect(details.callTree[0].label).toBe('execute')
+    expect(details.callTree[0].node.children[0]).toMatchObject({ entrypoint: 'transfer', result: ['0x1'], callType: 'CALL' })
+    expect(details.messages).toEqual([{ direction: 'L2_TO_L1', from: ADDRESS, to: '0x11', payload: ['0x1'] }])
+  })
+})
+
+describe('fetchInteractions event collection', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+    vi.resetModules()
+  })
+
+  it('returns the decoded events of walked transactions', async () => {
+    const { hash } = await import('starknet')
+    const transfer = hash.getSelectorFromName('Transfer')
+    const approval = hash.getSelectorFromName('Approval')
+    const abi = [{
+      type: 'event',
+      name: 'token::Transfer',
+      kind: 'struct',
+      members: [
+        { name: 'from', type: 'core::starknet::contract_address::ContractAddress', kind: 'key' },
+        { name: 'to', type: 'core::starknet::contract_address::ContractAddress', kind: 'key' },
+        { name: 'value', type: 'core::integer::u256', kind: 'data' }
+      ]
+    }]
+
+    mockProviderConfig.factory = () => createProviderImplementation({
+      latestBlock: 3,
+      blockTimestamps: new Map([[0, 1000], [1, 2000], [2, 3000], [3, 4000]]),
+      blockTransactions: new Map(),
+      abi,
+      events: {
+        events: [
+          { transaction_hash: '0xe1', block_number: 2, keys: [transfer, '0xa', '0xb'], data: ['0x7', '0x0'] },
+          { transaction_hash: '0xe1', block_number: 2, keys: [approval], data: ['0x1'] }
+        ],
+        continuation_token: null
+      },
+      receipts: {
+        '0xe1': { block_number: 2, execution_status: 'SUCCEEDED', actual_fee: { amount: '0x1', unit: 'WEI' }, sender_address: '0xa', type: 'INVOKE' }
+      }
+    })
+
+    const { fetchInteractions } = await import('./starknetClient')
+    const result = await fetchInteractions({ address: ADDRESS, network: 'mainnet', page: 1, pageSize: 10, filters: {}, collectEvents: true })
+
+    expect(result.events?.map((e) => e.id)).toEqual(['0xe1:1', '0xe1:0'])
+    expect(result.events?.[1]).toMatchObject({
+      name: 'Transfer',
+      nameResolved: true,
+      blockNumber: 2,
+      timestamp: 3000,
+      fields: [{ name: 'from', value: '0xa' }, { name: 'to', value: '0xb' }, { name: 'value', value: '7' }]
+    })
+    expect(result.events?.[0]).toMatchObject({ nameResolved: false, fields: undefined })
+  })
+})
+
+describe('checkRpcEndpoint', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+    vi.resetModules()
+  })
+
+  it('reports the spec version and chain and warns below v0_8', async () => {
+    mockProviderConfig.factory = () => ({
+      getSpecVersion: vi.fn(async () => '0.7.1'),
+      getChainId: vi.fn(async () => '0x534e5f5345504f4c4941')
+    })
+    const { checkRpcEndpoint } = await import('./starknetClient')
+
+    const result = await checkRpcEndpoint({ endpoint: { url: 'http://127.0.0.1:5050/rpc' } })
+
+    expect(result).toMatchObject({ specVersion: '0.7.1', chainId: '0x534e5f5345504f4c4941', chainName: 'SN_SEPOLIA' })
+    expect(result.warnings).toHaveLength(1)
+
+    mockProviderConfig.factory = () => ({
+      getSpecVersion: vi.fn(async () => '0.8.1'),
+      getChainId: vi.fn(async () => '0x1')
+    })
+    const current = await checkRpcEndpoint({ endpoint: { url: 'http://127.0.0.1:5050/rpc' } })
+    expect(current.warnings).toEqual([])
+    expect(current.chainName).toBeUndefined()
+  })
+})
@@ -1,426 +1,493 @@
-import { RpcProvider, shortString } from 'starknet'
-import { TxRow, Network, TxStatus, TxType, ActivityLogLevel } from '../types'
+import { RpcProvider } from 'starknet'
+import { TxRow, TxCall, TxFee, ContractEvent, Network, TxStatus, TxType, FeeUnit, ActivityLogLevel } from '../types'
+import { DecodedValue, SelectorNames, buildSelectorNames, decodeEvent, decodeFunctionCalldata, emptySelectorNames, flattenDecoded, resolveSelector } from './abi'
+import { decodeMulticall, isSameAddress } from './multicall'
+import { feeAmount, toFee } from './fees'
+import { normalizeRevertReason } from './revert'
+import { RpcCache, RpcCacheKind } from './rpcCache'
+import { RpcEndpointConfig, getNetworkConfig } from './networks'
+import { ScanWatermark, clearScanWatermarks, loadScanWatermark, saveScanWatermark } from './scanWatermarks'
+import { RetryLogger, RpcPriority, getEndpointPool, limiterFor, callRpcWithRetry, parsePositiveNumber } from './rpcTransport'
 
 const DEFAULT_MAX_TRACE_LOOKUPS = 200
-const MAX_RPC_RETRIES = 4
-const BASE_RETRY_DELAY_MS = 500
-const MAX_RETRY_DELAY_MS = 10_000
-const DEFAULT_RPC_REQUESTS_PER_SECOND = 3
-const DEFAULT_RPC_MAX_CONCURRENCY = 2
+const DEFAULT_FALLBACK_PARALLEL_BLOCKS = 8
+// Skipped transactions listed in a coverage report; the count covers all of them.
+const MAX_REPORTED_SKIPS = 50
+const DEFAULT_RPC_CACHE_MAX_ENTRIES = 20_000
+const DEFAULT_RPC_CACHE_MAX_MB = 100
+// Blocks this close to the chain head can still be reorged, so their responses are not cached.
+const CACHE_CONFIRMATION_DEPTH = 10
+const METHOD_NOT_FOUND = -32601
 
-type RetryLogEntry = { level: ActivityLogLevel; message: string }
-type RetryLogger = (entry: RetryLogEntry) => void
+const env = (import.meta as any)?.env ?? {}
 
-type RateLimiterLogger = RetryLogger
+const rpcCache = new RpcCache({
+  maxEntries: Math.floor(parsePositiveNumber(env?.VITE_RPC_CACHE_MAX_ENTRIES, DEFAULT_RPC_CACHE_MAX_ENTRIES, 1)),
+  maxBytes: parsePositiveNumber(env?.VITE_RPC_CACHE_MAX_MB, DEFAULT_RPC_CACHE_MAX_MB, 1) * 1024 * 1024
+})
 
-const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms))
+export const clearRpcCache = (): Promise<void> => rpcCache.clear()
 
-interface RateLimiterTask {
-  factory: () => Promise<unknown>
-  resolve: (value: unknown) => void
-  reject: (reason: unknown) => void
-  method: string
-  log?: RateLimiterLogger
+/** Forgets what was cached and scanned for one network, once its id may refer to a different chain. */
+export async function clearNetworkData(network: Network): Promise<void> {
+  clearScanWatermarks(network)
+  await rpcCache.clearNetwork(network)
 }
 
-interface RateLimiterOptions {
-  requestsPerSecond: number
-  maxConcurrency: number
+// Raw JSON-RPC form of the cacheable calls whose provider helpers return the node response as is, so they can be batched.
+const BATCHED_CALLS: Partial<Record<RpcCacheKind, (id: string | number) => { method: string; params: object }>> = {
+  block: (id) => ({ method: 'starknet_getBlockWithTxHashes', params: { block_id: { block_number: Number(id) } } }),
+  blockWithTxs: (id) => ({ method: 'starknet_getBlockWithTxs', params: { block_id: { block_number: Number(id) } } }),
+  blockTraces: (id) => ({ method: 'starknet_traceBlockTransactions', params: { block_id: { block_number: Number(id) } } }),
+  receipt: (id) => ({ method: 'starknet_getTransactionReceipt', params: { transaction_hash: id } }),
+  transaction: (id) => ({ method: 'starknet_getTransactionByHash', params: { transaction_hash: id } }),
+  trace: (id) => ({ method: 'starknet_traceTransaction', params: { transaction_hash: id } })
 }
 
-class RpcRateLimiter {
-  private readonly requestsPerSecond: number
-
-  private readonly maxConcurrency: number
-
-  private readonly queue: RateLimiterTask[] = []
-
-  private active = 0
-
-  private tokens: number
-
-  private lastRefill = Date.now()
-
-  private timer?: ReturnType<typeof setTimeout>
-
-  constructor(options: RateLimiterOptions) {
-    this.requestsPerSecond = Math.max(0.1, options.requestsPerSecond)
-    this.maxConcurrency = Math.max(1, Math.floor(options.maxConcurrency))
-    this.tokens = this.requestsPerSecond
-  }
-
-  get config(): RateLimiterOptions {
-    return { requestsPerSecond: this.requestsPerSecond, maxConcurrency: this.maxConcurrency }
-  }
-
-  schedule<T>(factory: () => Promise<T>, metadata: { method: string; log?: RateLimiterLogger }): Promise<T> {
-    return new Promise<T>((resolve, reject) => {
-      const task: RateLimiterTask = {
-        factory: () => factory(),
-        resolve: (value) => {
-          resolve(value as T)
-        },
-        reject,
-        method: metadata.method,
-        log: metadata.log
-      }
-
-      this.refillTokens()
-
-      if (this.canRunImmediately()) {
-        this.runTask(task)
-        return
-      }
-
-      this.queue.push(task)
-
-      const reasons: string[] = []
-      if (this.active >= this.maxConcurrency) reasons.push('concurrency')
-      if (this.tokens < 1) reasons.push('rate')
-      const reasonText = reasons.length > 0 ? reasons.join(' & ') : 'pending'
-      const waitEstimate = this.tokens < 1 ? Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000) : 0
-      const waitLabel = waitEstimate > 0 ? ` (~${waitEstimate}ms)` : ''
-
-      metadata.log?.({
-        level: 'warn',
-        message: `[limiter] Throttling ${metadata.method} (${reasonText}). Queue length: ${this.queue.length}${waitLabel}`
-      })
-
-      this.ensureTimer()
-    })
-  }
-
-  private canRunImmediately(): boolean {
-    return this.active < this.maxConcurrency && this.tokens >= 1
-  }
-
-  private runTask(task: RateLimiterTask): void {
-    this.active += 1
-    this.tokens = Math.max(0, this.tokens - 1)
-
-    const finalize = () => {
-      this.active = Math.max(0, this.active - 1)
-      this.processQueue()
-    }
-
-    Promise.resolve()
-      .then(() => task.factory())
-      .then(
-        (value) => {
-          task.resolve(value)
-        },
-        (error) => {
-          task.reject(error)
-        }
-      )
-      .finally(finalize)
-  }
-
-  private processQueue(): void {
-    this.refillTokens()
-
-    while (this.canRunImmediately() && this.queue.length > 0) {
-      const next = this.queue.shift()!
-      this.runTask(next)
-    }
+// Only responses `isFinal` accepts are stored, so nothing that a reorg could still change ends up in the cache.
+interface CachedCallOptions<T> {
+  network: Network
+  kind: RpcCacheKind
+  id: string | number
+  factory: (provider: RpcProvider) => Promise<T>
+  method: string
+  isFinal: (value: T) => boolean
+  priority?: RpcPriority
+  log: RetryLogger
+  signal?: AbortSignal
+}
 
-    this.ensureTimer()
-  }
+/** Reads through the persistent cache; `cached` tells whether the value was served without an RPC call. */
+async function cachedRpcLookup<T>(options: CachedCallOptions<T>): Promise<{ value: T; cached: boolean }> {
+  const { network, kind, id, factory, method, isFinal, priority, log, signal } = options
+  const cached = await rpcCache.get<T>(network, kind, id)
+  if (cached !== undefined) return { value: cached, cached: true }
+  const batched = BATCHED_CALLS[kind]?.(id)
+  const pool = getEndpointPool(network)
+  const value = batched
+    ? await pool.request(batched.method, batched.params, factory, { method, priority, log, signal })
+    : await pool.call(factory, { method, priority, log, signal })
+  if (isFinal(value)) void rpcCache.set(network, kind, id, value)
+  return { value, cached: false }
+}
 
-  private ensureTimer(): void {
-    if (this.queue.length === 0) {
-      if (this.timer) {
-        clearTimeout(this.timer)
-        this.timer = undefined
-      }
-      return
-    }
+const cachedRpcCall = async <T>(options: CachedCallOptions<T>): Promise<T> => (await cachedRpcLookup(options)).value
 
-    if (this.canRunImmediately()) {
-      if (this.timer) {
-        clearTimeout(this.timer)
-        this.timer = undefined
-      }
-      this.processQueue()
-      return
-    }
+export const getRpcCacheStats = () => rpcCache.stats()
 
-    if (this.tokens >= 1 || this.timer) {
-      return
-    }
+const configuredLookupLimit = Number(
+  (import.meta as any)?.env?.VITE_MAX_TRACE_LOOKUPS ?? DEFAULT_MAX_TRACE_LOOKUPS
+)
+export const MAX_TRACE_LOOKUPS = Number.isFinite(configuredLookupLimit) && configuredLookupLimit > 0
+  ? configuredLookupLimit
+  : DEFAULT_MAX_TRACE_LOOKUPS
 
-    const waitMs = this.timeUntilNextToken()
-    this.timer = setTimeout(() => {
-      this.timer = undefined
-      this.processQueue()
-    }, waitMs)
-  }
+export const FALLBACK_PARALLEL_BLOCKS = Math.floor(
+  parsePositiveNumber(env?.VITE_FALLBACK_PARALLEL_BLOCKS, DEFAULT_FALLBACK_PARALLEL_BLOCKS, 1)
+)
 
-  private timeUntilNextToken(): number {
-    if (this.tokens >= 1) return 0
-    const deficit = 1 - this.tokens
-    const waitMs = Math.ceil((deficit / this.requestsPerSecond) * 1000)
-    return Math.max(10, waitMs)
-  }
+// WebSocket endpoints are optional; without one, follow mode polls over HTTP.
+export const getWebSocketUrl = (network: Network): string | undefined => getNetworkConfig(network)?.wsUrl
 
-  private refillTokens(): void {
-    const now = Date.now()
-    const elapsedMs = now - this.lastRefill
-    if (elapsedMs <= 0) return
+/** Oldest JSON-RPC spec version the scanner is written against. */
+export const MIN_RPC_SPEC_VERSION = '0.8.0'
 
-    const tokensToAdd = (elapsedMs / 1000) * this.requestsPerSecond
-    this.tokens = Math.min(this.requestsPerSecond, this.tokens + tokensToAdd)
-    this.lastRefill = now
-  }
+export interface EndpointCheck {
+  specVersion: string
+  chainId: string
+  /** The chain id decoded as a short string (e.g. `SN_MAIN`), when it is printable. */
+  chainName?: string
+  warnings: string[]
 }
 
-const parseRetryAfterHeader = (value: unknown): number | undefined => {
-  if (value == null) return undefined
-  if (typeof value === 'number' && Number.isFinite(value)) {
-    return Math.max(0, value) * 1000
+const compareVersions = (a: string, b: string): number => {
+  const parse = (value: string) => value.replace(/^v/i, '').split(/[._-]/).map((part) => Number.parseInt(part, 10) || 0)
+  const left = parse(a), right = parse(b)
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0)
+    if (diff) return diff
   }
+  return 0
+}
 
-  const stringValue = Array.isArray(value) ? String(value[0]) : String(value)
-  if (!stringValue) return undefined
-
-  const seconds = Number(stringValue)
-  if (Number.isFinite(seconds)) {
-    return Math.max(0, seconds) * 1000
+// Nodes without a method answer -32601; some proxies only say so in the message.
+const isUnsupportedMethodError = (error: unknown): boolean => (error as any)?.code === METHOD_NOT_FOUND
+  || /-32601|method not found|not supported|unsupported/i.test(String((error as any)?.message ?? error))
+
+const decodeChainName = (chainId: string): string | undefined => {
+  try {
+    let hex = BigInt(chainId).toString(16)
+    if (hex.length % 2) hex = `0${hex}`
+    const text = hex.match(/../g)?.map((byte) => String.fromCharCode(Number.parseInt(byte, 16))).join('') ?? ''
+    return /^[\x20-\x7e]+$/.test(text) ? text : undefined
+  } catch {
+    return undefined
   }
+}
 
-  const asDate = Date.parse(stringValue)
-  if (!Number.isNaN(asDate)) {
-    const diff = asDate - Date.now()
-    return diff > 0 ? diff : 0
+/**
+ * Calls `starknet_specVersion` and `starknet_chainId` on one endpoint, bypassing the network's pool so the
+ * check neither fails over to another endpoint nor counts against the endpoint's health.
+ */
+export async function checkRpcEndpoint(p: { endpoint: RpcEndpointConfig; headers?: Record<string, string>; log?: RetryLogger; signal?: AbortSignal }): Promise<EndpointCheck> {
+  const provider = new RpcProvider({ nodeUrl: p.endpoint.url, headers: p.headers })
+  const log = p.log ?? (() => {})
+  const call = <T>(factory: (provider: RpcProvider) => Promise<T>, method: string) =>
+    callRpcWithRetry(() => limiterFor(p.endpoint).schedule(() => factory(provider), { method, priority: 'high', log, signal: p.signal }), { method, log, signal: p.signal })
+  const specVersion = await call((provider) => provider.getSpecVersion(), 'starknet_specVersion')
+  const chainId = String(await call((provider) => provider.getChainId(), 'starknet_chainId'))
+  const warnings: string[] = []
+  if (compareVersions(specVersion, MIN_RPC_SPEC_VERSION) < 0) {
+    warnings.push(`Endpoint implements JSON-RPC ${specVersion}; the dashboard requires at least v0_8.`)
   }
-
-  return undefined
+  return { specVersion, chainId, chainName: decodeChainName(chainId), warnings }
 }
 
-const getRetryDelayMs = (error: unknown, attempt: number): number => {
-  const headers = (error as any)?.response?.headers ?? {}
-  const retryAfterHeader = headers['retry-after'] ?? headers['Retry-After']
-  const retryAfterMs = parseRetryAfterHeader(retryAfterHeader)
-  if (retryAfterMs != null) return retryAfterMs
-  const exponential = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1)
-  return Math.min(exponential, MAX_RETRY_DELAY_MS)
+export interface FetchParams {
+  address: string; network: Network; from?: number; to?: number; page: number; pageSize: number;
+  filters: Partial<{ type: TxType | 'ALL'; method: string; status: TxStatus | 'ALL'; feeUnit: FeeUnit; minFee: bigint; maxFee: bigint }>
+  log?: RetryLogger
+  cursor?: FetchCursor
+  /** Aborting stops the scan between RPC calls, drops its queued limiter tasks and cuts retry sleeps short. */
+  signal?: AbortSignal
+  /** Receives matching rows as soon as they are found, before the final sorted page is returned. */
+  onBatch?: (rows: TxRow[]) => void
+  onProgress?: (progress: FetchProgress) => void
+  /** Scans an explicit block range instead of resolving `from`/`to` timestamps; `to` defaults to the latest block. */
+  blockRange?: { from: number; to?: number }
+  /** Enriches exactly these transactions (e.g. pushed by a subscription) instead of scanning a block range. */
+  transactions?: { txHash: string; blockNumber?: number }[]
+  /** Also returns the decoded events of the transactions found through the events walk. */
+  collectEvents?: boolean
 }
 
-const isRateLimitError = (error: unknown): boolean => {
-  if (!error || typeof error !== 'object') return false
-  const status = (error as any)?.response?.status ?? (error as any)?.status
-  if (status === 429) return true
-  const code = (error as any)?.code
-  if (code === 429 || Number(code) === 429) return true
-  const message = String((error as any)?.message ?? '')
-  return message.includes('429') || message.toLowerCase().includes('rate limit')
+export interface FetchProgress {
+  phase: 'range' | 'events' | 'fallback' | 'done'
+  eventsPages: number
+  /** Fallback blocks scanned so far, including blocks covered by earlier pages of the same cursor. */
+  blocksScanned: number
+  /** Part of `blocksScanned` skipped because an earlier load had already traced those blocks. */
+  blocksSkipped: number
+  blocksTotal: number
+  remainingTraceLookups: number
+  traceBudget: number
+  etaMs?: number
 }
 
-interface RetryOptions {
-  method: string
-  maxAttempts?: number
-  log?: RetryLogger
+/**
+ * Resumable scan position returned by `fetchInteractions`. Passing it back continues the scan where the
+ * previous page stopped instead of resolving the block range and walking events again. The trace budget
+ * is granted per call, so every page can advance the fallback scan further.
+ */
+export interface FetchCursor {
+  fromBlock: number
+  toBlock: number
+  latestBlockNumber: number
+  /** Continuation token of the events chunk being walked; undefined for the first chunk. */
+  eventsToken?: string
+  eventsDone: boolean
+  /** Next block of the fallback scan, which walks from `toBlock` down to `fromBlock`. */
+  fallbackBlock: number
+  fallbackTxIndex: number
+  /**
+   * Hits an earlier page found in `fallbackBlock` before stopping inside it, and whether it skipped one of its
+   * transactions; the watermark only takes them in once the block is finished.
+   */
+  fallbackBlockHits?: ScanWatermark['hits']
+  fallbackBlockIncomplete?: boolean
+  /** Fallback blocks skipped thanks to the saved watermark by earlier pages of this cursor. */
+  fallbackBlocksSkipped?: number
+  /** Running totals of the coverage report across the pages of this cursor. */
+  eventsPagesRead?: number
+  eventsCoveredTo?: number
+  matchedRows?: number
+  skipped?: ScanSkip[]
+  skippedCount?: number
+  seenTxHashes: string[]
+  selectorNames: { functions: [string, string][]; events: [string, string][] }
 }
 
-async function callRpcWithRetry<T>(factory: () => Promise<T>, options: RetryOptions): Promise<T> {
-  const { method, maxAttempts = MAX_RPC_RETRIES, log } = options
-
-  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
-    try {
-      return await factory()
-    } catch (error) {
-      if (!isRateLimitError(error)) {
-        throw error
-      }
-
-      if (attempt >= maxAttempts) {
-        log?.({ level: 'error', message: `[${method}] Rate limit exceeded after ${attempt} attempts.` })
-        throw error
-      }
-
-      const delayMs = getRetryDelayMs(error, attempt)
-      const delaySeconds = delayMs >= 1000 ? `${(delayMs / 1000).toFixed(1)}s` : `${delayMs}ms`
-      log?.({ level: 'warn', message: `[${method}] Rate limited (attempt ${attempt}). Retrying in ${delaySeconds}.` })
-      await sleep(delayMs)
-    }
-  }
-
-  throw new Error(`[${method}] RPC retry exhausted`)
+export interface FetchRange { fromBlock: number; toBlock: number; latestBlockNumber: number }
+
+/** How far the fallback scan, which walks from `toBlock` down to `fromBlock`, has got through the range. */
+export interface FallbackCoverage {
+  fromBlock: number
+  toBlock: number
+  /** Next block the scan would trace; below `fromBlock` once the range is covered. */
+  nextBlock: number
+  blocksTotal: number
+  /** Blocks from `toBlock` down to `nextBlock`, traced by this or earlier pages or skipped via the watermark. */
+  blocksCovered: number
+  blocksSkipped: number
+  complete: boolean
 }
 
-const parsePositiveNumber = (value: unknown, fallback: number, minimum = 0.0001): number => {
-  const parsed = Number(value)
-  if (Number.isFinite(parsed) && parsed >= minimum) {
-    return parsed
-  }
-  return fallback
+export interface BlockSpan { fromBlock: number; toBlock: number }
+
+/** A transaction (or, without `txHash`, a whole fallback block) left out of the results after an RPC error. */
+export interface ScanSkip { txHash?: string; blockNumber?: number; reason: string }
+
+/**
+ * What a scan has actually looked at, including the earlier pages of its cursor. The events walk covers the
+ * range upwards from `fromBlock`; the fallback scan then traces it downwards from `toBlock`.
+ */
+export interface CoverageReport {
+  requested: BlockSpan
+  /** Undefined until the events walk has read an event. */
+  eventsCovered?: BlockSpan
+  eventsPages: number
+  /** False while an events continuation token is still open. */
+  eventsComplete: boolean
+  fallback: FallbackCoverage
+  /** Trace lookups of this call; every page gets a fresh budget. */
+  traceBudget: { used: number; total: number }
+  skipped: ScanSkip[]
+  skippedCount: number
+  /** Why this call stopped before the end of the range: the page filled up or the trace budget ran out. */
+  stoppedBy?: 'page-limit' | 'trace-budget'
+  /** More matching rows were already found than fit on the returned page. */
+  morePages: boolean
+  /** Matching rows found so far, over all pages. */
+  matched: number
+  /** `matched` is the final total: the whole range was scanned and nothing was skipped. */
+  exact: boolean
 }
 
-const env = (import.meta as any)?.env ?? {}
-
-export const RPC_REQUESTS_PER_SECOND = parsePositiveNumber(
-  env?.VITE_RPC_REQUESTS_PER_SECOND,
-  DEFAULT_RPC_REQUESTS_PER_SECOND,
-  0.0001
-)
-
-export const RPC_MAX_CONCURRENCY = Math.max(
-  1,
-  Math.floor(parsePositiveNumber(env?.VITE_RPC_MAX_CONCURRENCY, DEFAULT_RPC_MAX_CONCURRENCY, 1))
-)
-
-const rpcRateLimiter = new RpcRateLimiter({
-  requestsPerSecond: RPC_REQUESTS_PER_SECOND,
-  maxConcurrency: RPC_MAX_CONCURRENCY
-})
-const configuredLookupLimit = Number(
-  (import.meta as any)?.env?.VITE_MAX_TRACE_LOOKUPS ?? DEFAULT_MAX_TRACE_LOOKUPS
-)
-export const MAX_TRACE_LOOKUPS = Number.isFinite(configuredLookupLimit) && configuredLookupLimit > 0
-  ? configuredLookupLimit
-  : DEFAULT_MAX_TRACE_LOOKUPS
-
-const RPCS: Record<Network, string> = {
-  mainnet: import.meta.env.VITE_STARKNET_RPC_MAINNET || 'https://starknet-mainnet.public.blastapi.io/rpc/v0_8',
-  sepolia: import.meta.env.VITE_STARKNET_RPC_SEPOLIA || 'https://starknet-sepolia.public.blastapi.io/rpc/v0_8'
+export interface FetchResult {
+  rows: TxRow[]; totalEstimated?: number; hasMore?: boolean; cursor?: FetchCursor; range?: FetchRange;
+  /** The fallback scan stopped early because this call's trace lookup budget ran out. */
+  traceBudgetExhausted?: boolean
+  coverage?: CoverageReport
+  /** Events the contract emitted in the transactions walked by this call, newest first. */
+  events?: ContractEvent[]
 }
 
-export interface FetchParams {
-  address: string; network: Network; from?: number; to?: number; page: number; pageSize: number;
-  filters: Partial<{ type: TxType | 'ALL'; method: string; status: TxStatus | 'ALL'; minFee: number; maxFee: number }>
-  log?: RetryLogger
+const toTxType = (value?: string): TxType => {
+  const normalized = (value || 'INVOKE').toUpperCase()
+  if (normalized === 'DECLARE') return 'DECLARE'
+  if (normalized === 'DEPLOY' || normalized === 'DEPLOY_ACCOUNT') return 'DEPLOY'
+  if (normalized === 'L1_HANDLER') return 'L1_HANDLER'
+  return 'INVOKE'
 }
-export interface FetchResult { rows: TxRow[]; totalEstimated?: number; hasMore?: boolean }
 
 export async function fetchInteractions(p: FetchParams): Promise<FetchResult> {
-  const provider = new RpcProvider({ nodeUrl: RPCS[p.network] })
+  const pool = getEndpointPool(p.network)
   const allRows: TxRow[] = []
-  const seenTx = new Set<string>()
+  const seenTx = new Set<string>(p.cursor?.seenTxHashes ?? [])
   const blockTimestampCache = new Map<number, number>()
   const addressLower = p.address.toLowerCase()
   const noopLog: RetryLogger = () => {}
   const log = p.log ?? noopLog
-  const callWithLimiter = <T>(factory: () => Promise<T>, method: string) =>
-    rpcRateLimiter.schedule(() => callRpcWithRetry(factory, { method, log }), { method, log })
+  const { signal } = p
+  const throwIfAborted = () => signal?.throwIfAborted()
+  const callWithLimiter = <T>(factory: (provider: RpcProvider) => Promise<T>, method: string, priority?: RpcPriority) =>
+    pool.call(factory, { method, priority, log, signal })
+
+  let latestKnownBlock: number | undefined = p.cursor?.latestBlockNumber
+  const isFinalBlock = (blockNumber?: number): boolean => blockNumber != null
+    && latestKnownBlock != null
+    && blockNumber <= latestKnownBlock - CACHE_CONFIRMATION_DEPTH
+
+  // Shares in-flight and finished responses within this scan, so prefetched calls are not sent again.
+  const responses = new Map<string, Promise<{ value: unknown; cached: boolean }>>()
+  const lookupWithCache = <T>(
+    kind: RpcCacheKind,
+    id: string | number,
+    factory: (provider: RpcProvider) => Promise<T>,
+    method: string,
+    isFinal: (value: T) => boolean,
+    priority?: RpcPriority
+  ): Promise<{ value: T; cached: boolean }> => {
+    const key = `${kind}:${id}`
+    let response = responses.get(key) as Promise<{ value: T; cached: boolean }> | undefined
+    if (!response) {
+      response = cachedRpcLookup({ network: p.network, kind, id, factory, method, isFinal, priority, log, signal })
+      responses.set(key, response)
+      response.catch(() => responses.delete(key))
+    }
+    return response
+  }
+  const callWithCache = <T>(
+    kind: RpcCacheKind,
+    id: string | number,
+    factory: (provider: RpcProvider) => Promise<T>,
+    method: string,
+    isFinal: (value: T) => boolean,
+    priority?: RpcPriority
+  ): Promise<T> => lookupWithCache(kind, id, factory, method, isFinal, priority).then(({ value }) => value)
 
   log({
     level: 'info',
-    message: `[limiter] RPC limiter configured: ${RPC_REQUESTS_PER_SECOND} req/s, concurrency ${RPC_MAX_CONCURRENCY}`
+    message: `[limiter] RPC endpoints: ${pool.describe()}`
   })
 
-  const decodeSelector = (value?: string): string | undefined => {
-    if (!value) return undefined
-    if (!value.startsWith('0x')) return value
-    try {
-      return shortString.decodeShortString(value)
-    } catch {
-      return value
-    }
-  }
-
-  const toTxType = (value?: string): TxType => {
-    const normalized = (value || 'INVOKE').toUpperCase()
-    if (normalized === 'DECLARE') return 'DECLARE'
-    if (normalized === 'DEPLOY' || normalized === 'DEPLOY_ACCOUNT') return 'DEPLOY'
-    if (normalized === 'L1_HANDLER') return 'L1_HANDLER'
-    return 'INVOKE'
+  let contractAbi: Promise<{ classHash: string; abi: unknown }> | undefined
+  const loadContractAbi = () => {
+    contractAbi ??= (async () => {
+      const classHash = await callWithLimiter((provider) => provider.getClassHashAt(p.address), 'getClassHashAt')
+      const contractClass = await callWithCache('class', classHash, (provider) => provider.getClass(classHash), 'getClass', () => true)
+      return { classHash, abi: (contractClass as any)?.abi }
+    })()
+    return contractAbi
   }
 
-  const toFee = (amount?: string): number => {
-    if (!amount) return 0
+  const loadSelectorNames = async (): Promise<SelectorNames> => {
     try {
-      return Number(BigInt(amount))
-    } catch {
-      return 0
+      const { classHash, abi } = await loadContractAbi()
+      const names = buildSelectorNames(abi)
+      log({
+        level: 'info',
+        message: `[abi] Resolved ${names.functions.size} functions and ${names.events.size} events from class ${classHash}`
+      })
+      return names
+    } catch (error) {
+      throwIfAborted()
+      const reason = (error as any)?.message ?? String(error)
+      log({ level: 'warn', message: `[abi] Could not load contract ABI, selectors stay unresolved: ${reason}` })
+      return emptySelectorNames()
     }
   }
 
+  const rowMethods = (row: TxRow): string[] => row.calls?.length
+    ? row.calls.map((call) => call.entrypoint)
+    : [row.entrypoint || '—']
+
   const matchesFilters = (row: TxRow): boolean => {
     if (p.filters.type && p.filters.type !== 'ALL' && row.type !== p.filters.type) return false
-    if (p.filters.method && (row.entrypoint || '—') !== p.filters.method) return false
+    if (p.filters.method && !rowMethods(row).includes(p.filters.method)) return false
     if (p.filters.status && p.filters.status !== 'ALL' && row.status !== p.filters.status) return false
-    if (p.filters.minFee != null && row.fee < p.filters.minFee) return false
-    if (p.filters.maxFee != null && row.fee > p.filters.maxFee) return false
+    if (p.filters.feeUnit && row.fee.unit !== p.filters.feeUnit) return false
+    if (p.filters.minFee != null && feeAmount(row.fee) < p.filters.minFee) return false
+    if (p.filters.maxFee != null && feeAmount(row.fee) > p.filters.maxFee) return false
     return true
   }
 
+  const callsToContract = (tx: any): TxCall[] | undefined => {
+    if (!tx || toTxType(tx.type) !== 'INVOKE') return undefined
+    const decoded = decodeMulticall(tx.calldata)
+    if (!decoded) return undefined
+
+    const calls = decoded
+      .filter((call) => isSameAddress(call.to, p.address))
+      .map((call) => {
+        const resolved = resolveSelector(selectorNames, call.selector, 'function')!
+        return { entrypoint: resolved.name, entrypointResolved: resolved.resolved, calldata: call.calldata }
+      })
+
+    return calls.length > 0 ? calls : undefined
+  }
+
   const getBlockTimestamp = async (blockNumber?: number): Promise<number> => {
     if (blockNumber == null) return Math.floor(Date.now() / 1000)
     if (blockTimestampCache.has(blockNumber)) return blockTimestampCache.get(blockNumber)!
-    const block = await callWithLimiter(() => provider.getBlockWithTxHashes(blockNumber), 'getBlockWithTxHashes')
+    const block = await callWithCache(
+      'block',
+      blockNumber,
+      (provider) => provider.getBlockWithTxHashes(blockNumber),
+      'getBlockWithTxHashes',
+      () => isFinalBlock(blockNumber)
+    )
     const timestamp = Number((block as any).timestamp ?? Math.floor(Date.now() / 1000))
     blockTimestampCache.set(blockNumber, timestamp)
     return timestamp
   }
 
-  const latestBlock = await callWithLimiter(() => provider.getBlockWithTxHashes('latest' as any), 'getBlockWithTxHashes')
-  const latestBlockNumber = Number((latestBlock as any).block_number ?? 0)
-  const latestTimestamp = Number((latestBlock as any).timestamp ?? Math.floor(Date.now() / 1000))
-  blockTimestampCache.set(latestBlockNumber, latestTimestamp)
-  const earliestTimestamp = await getBlockTimestamp(0)
-
-  const findBoundaryBlock = async (
-    targetTimestamp: number | undefined,
-    type: 'from' | 'to'
-  ): Promise<number | undefined> => {
-    if (targetTimestamp == null) {
-      return type === 'from' ? 0 : latestBlockNumber
+  const resolveBlockRange = async (): Promise<FetchRange | undefined> => {
+    const latestBlock = await callWithLimiter((provider) => provider.getBlockWithTxHashes('latest' as any), 'getBlockWithTxHashes', 'high')
+    const latestBlockNumber = Number((latestBlock as any).block_number ?? 0)
+    latestKnownBlock = latestBlockNumber
+    const latestTimestamp = Number((latestBlock as any).timestamp ?? Math.floor(Date.now() / 1000))
+    blockTimestampCache.set(latestBlockNumber, latestTimestamp)
+
+    if (p.blockRange) {
+      const toBlock = Math.min(p.blockRange.to ?? latestBlockNumber, latestBlockNumber)
+      if (p.blockRange.from > toBlock) return undefined
+      return { fromBlock: p.blockRange.from, toBlock, latestBlockNumber }
     }
 
-    if (type === 'from') {
-      if (targetTimestamp > latestTimestamp) return undefined
-      if (targetTimestamp <= earliestTimestamp) return 0
-    } else {
-      if (targetTimestamp < earliestTimestamp) return undefined
-      if (targetTimestamp >= latestTimestamp) return latestBlockNumber
-    }
-
-    let low = 0
-    let high = latestBlockNumber
-    let result = type === 'from' ? latestBlockNumber : 0
+    const earliestTimestamp = await getBlockTimestamp(0)
 
-    while (low <= high) {
-      const mid = Math.floor((low + high) / 2)
-      const timestamp = await getBlockTimestamp(mid)
+    const findBoundaryBlock = async (
+      targetTimestamp: number | undefined,
+      type: 'from' | 'to'
+    ): Promise<number | undefined> => {
+      if (targetTimestamp == null) {
+        return type === 'from' ? 0 : latestBlockNumber
+      }
 
       if (type === 'from') {
-        if (timestamp >= targetTimestamp) {
-          result = mid
-          high = mid - 1
-        } else {
-          low = mid + 1
-        }
+        if (targetTimestamp > latestTimestamp) return undefined
+        if (targetTimestamp <= earliestTimestamp) return 0
       } else {
-        if (timestamp <= targetTimestamp) {
-          result = mid
-          low = mid + 1
+        if (targetTimestamp < earliestTimestamp) return undefined
+        if (targetTimestamp >= latestTimestamp) return latestBlockNumber
+      }
+
+      const boundaryKey = `${type}:${targetTimestamp}`
+      const cachedBoundary = await rpcCache.get<number>(p.network, 'boundary', boundaryKey)
+      if (cachedBoundary !== undefined) return cachedBoundary
+
+      let low = 0
+      let high = latestBlockNumber
+      let result = type === 'from' ? latestBlockNumber : 0
+
+      while (low <= high) {
+        const mid = Math.floor((low + high) / 2)
+        const timestamp = await getBlockTimestamp(mid)
+
+        if (type === 'from') {
+          if (timestamp >= targetTimestamp) {
+            result = mid
+            high = mid - 1
+          } else {
+            low = mid + 1
+          }
         } else {
-          high = mid - 1
+          if (timestamp <= targetTimestamp) {
+            result = mid
+            low = mid + 1
+          } else {
+            high = mid - 1
+          }
         }
       }
-    }
 
-    return result
-  }
+      if (isFinalBlock(result + 1)) void rpcCache.set(p.network, 'boundary', boundaryKey, result)
+      return result
+    }
 
-  const fromBlock = await findBoundaryBlock(p.from, 'from')
-  const toBlock = await findBoundaryBlock(p.to, 'to')
+    const fromBlock = await findBoundaryBlock(p.from, 'from')
+    const toBlock = await findBoundaryBlock(p.to, 'to')
 
-  if ((p.from != null && fromBlock == null) || (p.to != null && toBlock == null)) {
-    return { rows: [], totalEstimated: 0 }
+    if (fromBlock == null || toBlock == null || fromBlock > toBlock) return undefined
+    return { fromBlock, toBlock, latestBlockNumber }
   }
 
-  if (fromBlock != null && toBlock != null && fromBlock > toBlock) {
-    return { rows: [], totalEstimated: 0 }
-  }
-
-  let continuation: string | undefined
-  const chunkSize = Math.max(100, p.pageSize)
+  const selectorNames: SelectorNames = p.cursor
+    ? { functions: new Map(p.cursor.selectorNames.functions), events: new Map(p.cursor.selectorNames.events) }
+    : await loadSelectorNames()
 
   let matchingRowCount = 0
+
+  const skipped: ScanSkip[] = [...(p.cursor?.skipped ?? [])]
+  let skippedCount = p.cursor?.skippedCount ?? 0
+  const recordSkip = (skip: ScanSkip) => {
+    skippedCount += 1
+    if (skipped.length < MAX_REPORTED_SKIPS) skipped.push(skip)
+    log({ level: 'warn', message: `[scan] Skipped ${skip.txHash ?? `block ${skip.blockNumber}`}: ${skip.reason}` })
+  }
+  const skipReason = (error: unknown): string => String((error as any)?.message ?? error).split('\n')[0]
   let reachedLimit = false
-  const limit = p.page * p.pageSize
-  let nextContinuationToken: string | undefined
+  // A resumed scan only needs the next page; a fresh one keeps the legacy `page` semantics.
+  const limit = p.cursor ? p.pageSize : p.page * p.pageSize
+
+  let pendingBatch: TxRow[] = []
+  const flushBatch = () => {
+    if (pendingBatch.length === 0) return
+    const batch = pendingBatch
+    pendingBatch = []
+    p.onBatch?.(batch)
+  }
 
   const addRow = (row: TxRow): boolean => {
     if (seenTx.has(row.txHash)) return false
@@ -432,6 +499,7 @@ export async function fetchInteractions(p: FetchParams): Promise<FetchResult> {
       && (p.to == null || row.timestamp <= p.to)
 
     if (matches) {
+      pendingBatch.push(row)
       matchingRowCount += 1
       if (limit > 0 && matchingRowCount >= limit) {
         reachedLimit = true
@@ -494,90 +562,357 @@ export async function fetchInteractions(p: FetchParams): Promise<FetchResult> {
     return undefined
   }
 
-  do {
-    const { events, continuation_token } = await callWithLimiter(() => provider.getEvents({
+  const loadReceipt = (txHash: string, priority?: RpcPriority): Promise<any> => callWithCache(
+    'receipt',
+    txHash,
+    (provider) => provider.getTransactionReceipt(txHash),
+    'getTransactionReceipt',
+    (value: any) => isFinalBlock(value?.block_number),
+    priority
+  )
+
+  const loadTransaction = (txHash: string, blockNumber?: number): Promise<any> => callWithCache(
+    'transaction',
+    txHash,
+    (provider) => provider.getTransactionByHash(txHash),
+    'getTransactionByHash',
+    () => isFinalBlock(blockNumber)
+  )
+
+  // Issues the receipt, transaction and block calls for the rows the page still needs together, so the transport can
+  // batch them; the walk below then reads the responses in order.
+  const prefetchEnrichment = async (events: any[]): Promise<void> => {
+    const txBlocks = new Map<string, number | undefined>()
+    for (const event of events) {
+      if (limit > 0 && txBlocks.size >= limit - matchingRowCount) break
+      if (event.transaction_hash && !seenTx.has(event.transaction_hash)) txBlocks.set(event.transaction_hash, event.block_number)
+    }
+    const blockNumbers = new Set([...txBlocks.values()].filter((blockNumber): blockNumber is number => blockNumber != null))
+    await Promise.all([
+      ...[...txBlocks].flatMap(([txHash, blockNumber]) => [loadReceipt(txHash), loadTransaction(txHash, blockNumber)]),
+      ...[...blockNumbers].map((blockNumber) => getBlockTimestamp(blockNumber))
+    ].map((call) => call.catch(() => undefined)))
+  }
+
+  // Builds a row from the receipt and transaction, as done for every transaction found through events.
+  const enrichTransaction = async (txHash: string, blockNumberHint?: number): Promise<void> => {
+    const receipt = await loadReceipt(txHash)
+    if (!receipt) {
+      recordSkip({ txHash, blockNumber: blockNumberHint, reason: 'receipt not found' })
+      return
+    }
+
+    const rowBlockNumber = receipt.block_number ?? blockNumberHint
+    const timestamp = await getBlockTimestamp(rowBlockNumber)
+
+    const tx = await loadTransaction(txHash, rowBlockNumber)
+    const eventForContract = Array.isArray(receipt.events)
+      ? receipt.events.find((e: any) => String(e.from_address || '').toLowerCase() === addressLower)
+      : undefined
+
+    const calls = callsToContract(tx)
+    const txSelector = tx && (tx.entry_point_selector_name || tx.entry_point_selector)
+    const resolved = calls
+      ? { name: calls[0].entrypoint, resolved: calls[0].entrypointResolved }
+      : txSelector
+        ? resolveSelector(selectorNames, txSelector, 'function')
+        : resolveSelector(selectorNames, eventForContract?.keys?.[0], 'event')
+
+    const caller = (receipt.sender_address || tx?.sender_address || tx?.contract_address || '0x0') as string
+    const type = toTxType(receipt.type || tx?.type)
+    const status: TxStatus = (receipt.execution_status === 'REVERTED' || receipt.revert_reason) ? 'REJECTED' : 'ACCEPTED'
+    const fee = toFee(receipt.actual_fee)
+
+    const row: TxRow = {
+      timestamp,
+      txHash,
+      blockNumber: rowBlockNumber,
+      type,
+      entrypoint: resolved?.name,
+      entrypointResolved: resolved?.resolved,
+      calls,
+      caller,
+      to: p.address,
+      fee,
+      status,
+      revertReason: normalizeRevertReason(receipt.revert_reason),
+      network: p.network
+    }
+
+    addRow(row)
+  }
+
+  if (p.transactions) {
+    for (const { txHash, blockNumber } of p.transactions) {
+      if (seenTx.has(txHash)) continue
+      try {
+        await enrichTransaction(txHash, blockNumber)
+      } catch (error) {
+        throwIfAborted()
+        recordSkip({ txHash, blockNumber, reason: skipReason(error) })
+        continue
+      }
+    }
+
+    flushBatch()
+    const rows = allRows.filter(matchesFilters).sort((a, b) => b.timestamp - a.timestamp)
+    return { rows, totalEstimated: rows.length, hasMore: false }
+  }
+
+  const blockRange: FetchRange | undefined = p.cursor
+    ? { fromBlock: p.cursor.fromBlock, toBlock: p.cursor.toBlock, latestBlockNumber: p.cursor.latestBlockNumber }
+    : await resolveBlockRange()
+
+  if (!blockRange) {
+    return { rows: [], totalEstimated: 0 }
+  }
+
+  const { fromBlock, toBlock } = blockRange
+
+  const walkedTx = new Set<string>()
+  const collectedEvents: ContractEvent[] = []
+  const eventCounters = new Map<string, number>()
+  let eventAbi: unknown
+  let eventAbiLoaded = false
+
+  const collectEvent = async (event: any) => {
+    if (!eventAbiLoaded) {
+      eventAbiLoaded = true
+      eventAbi = await loadContractAbi().then(({ abi }) => abi, () => {
+        throwIfAborted()
+        return undefined
+      })
+    }
+
+    const txHash = String(event.transaction_hash)
+    const index = eventCounters.get(txHash) ?? 0
+    eventCounters.set(txHash, index + 1)
+    const keys: string[] = (event.keys ?? []).map(String)
+    const data: string[] = (event.data ?? []).map(String)
+    const decoded = decodeEvent(eventAbi, keys, data)
+    const resolved = decoded ? { name: decoded.name, resolved: true } : resolveSelector(selectorNames, keys[0], 'event')
+    const blockNumber = event.block_number != null ? Number(event.block_number) : undefined
+
+    collectedEvents.push({
+      id: `${txHash}:${index}`,
+      txHash,
+      blockNumber,
+      name: resolved?.name ?? '—',
+      nameResolved: resolved?.resolved ?? false,
+      keys,
+      data,
+      fields: decoded ? flattenDecoded(decoded.fields) : undefined,
+      network: p.network
+    })
+  }
+
+  let continuation: string | undefined = p.cursor?.eventsToken
+  let eventsDone = p.cursor?.eventsDone ?? false
+  const chunkSize = Math.max(100, p.pageSize)
+
+  let eventsPages = 0
+  let eventsCoveredTo = p.cursor?.eventsCoveredTo
+  let remainingTraceLookups = MAX_TRACE_LOOKUPS
+  let fallbackBlock = p.cursor?.fallbackBlock ?? toBlock
+  let fallbackBlocksSkipped = p.cursor?.fallbackBlocksSkipped ?? 0
+  const fallbackStartBlock = fallbackBlock
+  let fallbackStartedAt: number | undefined
+
+  const reportProgress = (phase: FetchProgress['phase']) => {
+    flushBatch()
+    if (!p.onProgress) return
+
+    const blocksTotal = toBlock - fromBlock + 1
+    const blocksScanned = toBlock - fallbackBlock
+    const blocksThisCall = fallbackStartBlock - fallbackBlock
+    const lookupsUsed = MAX_TRACE_LOOKUPS - remainingTraceLookups
+    let etaMs: number | undefined
+
+    if (phase === 'fallback' && fallbackStartedAt != null && blocksThisCall > 0 && lookupsUsed > 0) {
+      const msPerBlock = (Date.now() - fallbackStartedAt) / blocksThisCall
+      // The scan stops at whichever comes first: the end of the range or the end of the trace budget.
+      const blocksWithinBudget = remainingTraceLookups / (lookupsUsed / blocksThisCall)
+      etaMs = Math.round(msPerBlock * Math.min(blocksTotal - blocksScanned, blocksWithinBudget))
+    }
+
+    p.onProgress({
+      phase,
+      eventsPages,
+      blocksScanned,
+      blocksSkipped: fallbackBlocksSkipped,
+      blocksTotal,
+      remainingTraceLookups,
+      traceBudget: MAX_TRACE_LOOKUPS,
+      etaMs
+    })
+  }
+
+  reportProgress('range')
+
+  while (!eventsDone && !reachedLimit) {
+    const chunkToken = continuation
+    const { events, continuation_token } = await callWithLimiter((provider) => provider.getEvents({
       address: p.address,
       chunk_size: chunkSize,
-      continuation_token: continuation,
-      ...(fromBlock != null ? { from_block: { block_number: fromBlock } } : {}),
-      ...(toBlock != null ? { to_block: { block_number: toBlock } } : {})
+      continuation_token: chunkToken,
+      from_block: { block_number: fromBlock },
+      to_block: { block_number: toBlock }
     }), 'getEvents')
 
     continuation = continuation_token ?? undefined
-    nextContinuationToken = continuation
+    eventsPages += 1
+    await prefetchEnrichment(events)
 
     for (const event of events) {
       const txHash = (event as any).transaction_hash as string | undefined
-      if (!txHash || seenTx.has(txHash)) continue
+      if (!txHash) continue
 
-      try {
-        const receipt = await callWithLimiter(() => provider.getTransactionReceipt(txHash), 'getTransactionReceipt') as any
-        if (!receipt) continue
+      if (!seenTx.has(txHash)) {
+        // Past the limit, keep going only to collect the remaining events of transactions already walked.
+        if (reachedLimit) continue
+        try {
+          await enrichTransaction(txHash, (event as any).block_number)
+          if (seenTx.has(txHash)) walkedTx.add(txHash)
+        } catch (error) {
+          throwIfAborted()
+          recordSkip({ txHash, blockNumber: (event as any).block_number, reason: skipReason(error) })
+          continue
+        }
+      }
 
-        const timestamp = await getBlockTimestamp(receipt.block_number ?? (event as any).block_number)
+      if ((event as any).block_number != null) eventsCoveredTo = Math.max(eventsCoveredTo ?? fromBlock, Number((event as any).block_number))
 
-        const tx = await callWithLimiter(() => provider.getTransactionByHash(txHash), 'getTransactionByHash') as any
-        const eventForContract = Array.isArray(receipt.events)
-          ? receipt.events.find((e: any) => String(e.from_address || '').toLowerCase() === addressLower)
-          : undefined
+      if (p.collectEvents && walkedTx.has(txHash)) await collectEvent(event)
+    }
 
-        const entrypoint = decodeSelector(
-          (tx && (tx.entry_point_selector_name || tx.entry_point_selector))
-            || (eventForContract && eventForContract.keys && eventForContract.keys[0])
-        )
+    if (reachedLimit) {
+      // Re-read the same chunk on the next page; already processed transactions are skipped via seenTx.
+      continuation = chunkToken
+    } else if (!continuation) {
+      eventsDone = true
+      eventsCoveredTo = toBlock
+    }
 
-        const caller = (receipt.sender_address || tx?.sender_address || tx?.contract_address || '0x0') as string
-        const type = toTxType(receipt.type || tx?.type)
-        const status: TxStatus = (receipt.execution_status === 'REVERTED' || receipt.revert_reason) ? 'REJECTED' : 'ACCEPTED'
-        const fee = toFee(receipt.actual_fee?.amount)
+    reportProgress('events')
+  }
 
-        const row: TxRow = {
-          timestamp,
-          txHash,
-          type,
-          entrypoint,
-          caller,
-          to: p.address,
-          fee,
-          status,
-          network: p.network
-        }
+  const blockRangeStart = fromBlock
+  let fallbackTxIndex = p.cursor?.fallbackTxIndex ?? 0
+  let fallbackBudgetExhausted = false
+  fallbackStartedAt = Date.now()
+
+  const watermark = loadScanWatermark(p.network, p.address)
+  const watermarkHitBlocks = [...new Set(watermark?.hits.map((hit) => hit.blockNumber))].sort((a, b) => b - a)
+  const fallbackHits: ScanWatermark['hits'] = [...(p.cursor?.fallbackBlockHits ?? [])]
+  // The scan walks downwards, so the first block it could not trace completely is the highest one; the watermark
+  // only covers the blocks above it.
+  let highestIncompleteBlock: number | undefined = p.cursor?.fallbackBlockIncomplete ? p.cursor.fallbackBlock : undefined
+  // Whether `fallbackBlock` has a skipped transaction, for the next page when this one stops inside it.
+  let fallbackBlockIncomplete = p.cursor?.fallbackBlockIncomplete ?? false
+
+  // Blocks an earlier load already traced are skipped, except those holding its hits, which are scanned again for their rows.
+  const nextBlockToScan = (blockNumber: number): number => {
+    if (!watermark || blockNumber > watermark.toBlock || blockNumber < watermark.fromBlock) return blockNumber
+    return watermarkHitBlocks.find((hitBlock) => hitBlock <= blockNumber && hitBlock >= watermark.fromBlock) ?? watermark.fromBlock - 1
+  }
 
-        const added = addRow(row)
-        if (added && reachedLimit) {
-          continuation = undefined
-          break
-        }
-      } catch {
-        continue
-      }
+  let blockTracesSupported = true
+  // Reserves a lookup for the block and one for its traces up front, and gives back the second when it is not needed.
+  // Responses served from the persistent cache cost no RPC call, so their lookups are given back too.
+  const scanBlock = async (blockNumber: number): Promise<[any, Map<string, any> | undefined]> => {
+    const { value: block, cached: blockCached } = await lookupWithCache(
+      'blockWithTxs',
+      blockNumber,
+      (provider) => provider.getBlockWithTxs(blockNumber),
+      'getBlockWithTxs',
+      () => isFinalBlock(blockNumber),
+      'bulk'
+    ).catch((error) => {
+      remainingTraceLookups += 1
+      throw error
+    })
+    if (blockCached) remainingTraceLookups += 1
+    const transactions: any[] = Array.isArray((block as any)?.transactions) ? (block as any).transactions : []
+    const pending = transactions.some((tx) => {
+      const txHash = tx?.transaction_hash || tx?.hash
+      return txHash && !seenTx.has(txHash)
+    })
+    if (!pending || !blockTracesSupported) {
+      remainingTraceLookups += 1
+      return [block, undefined]
     }
-  } while (continuation)
 
-  const blockRangeStart = fromBlock ?? 0
-  const blockRangeEnd = toBlock ?? latestBlockNumber
-  let txScanComplete = true
-  let fallbackBudgetExhausted = false
-  let remainingTraceLookups = MAX_TRACE_LOOKUPS
+    // One trace call covers the whole block; nodes without it are traced one transaction at a time.
+    try {
+      const { value: traces, cached: tracesCached } = await lookupWithCache(
+        'blockTraces',
+        blockNumber,
+        (provider) => provider.getBlockTransactionsTraces(blockNumber),
+        'getBlockTransactionsTraces',
+        () => isFinalBlock(blockNumber),
+        'bulk'
+      )
+      if (tracesCached) remainingTraceLookups += 1
+      return [block, new Map((traces as any[]).map((entry) => [entry.transaction_hash as string, entry.trace_root]))]
+    } catch (error) {
+      throwIfAborted()
+      // Any other failure (a timeout, a 429 past its retries) only loses this block, which is reported as skipped.
+      if (!isUnsupportedMethodError(error)) throw error
+      blockTracesSupported = false
+      return [block, undefined]
+    }
+  }
 
-  for (let blockNumber = blockRangeEnd; blockNumber >= blockRangeStart; blockNumber -= 1) {
-    if (reachedLimit) {
-      txScanComplete = false
-      break
+  // Keeps up to FALLBACK_PARALLEL_BLOCKS block scans in flight ahead of the block being processed, as far as the
+  // budget goes; the limiter paces them and the transport batches their calls.
+  const scans = new Map<number, ReturnType<typeof scanBlock>>()
+  let nextScanBlock = fallbackBlock
+  const startScans = () => {
+    nextScanBlock = Math.min(nextScanBlock, fallbackBlock)
+    while (scans.size < FALLBACK_PARALLEL_BLOCKS) {
+      nextScanBlock = nextBlockToScan(nextScanBlock)
+      if (nextScanBlock < blockRangeStart || remainingTraceLookups < 2) return
+      remainingTraceLookups -= 2
+      const scan = scanBlock(nextScanBlock)
+      scan.catch(() => undefined)
+      scans.set(nextScanBlock, scan)
+      nextScanBlock -= 1
     }
+  }
+
+  while (fallbackBlock >= blockRangeStart) {
+    reportProgress('fallback')
 
-    if (remainingTraceLookups <= 0) {
-      txScanComplete = false
+    if (reachedLimit) break
+
+    const target = nextBlockToScan(fallbackBlock)
+    if (target !== fallbackBlock) {
+      log({ level: 'info', message: `[fallback] Skipping blocks ${Math.max(target + 1, blockRangeStart)}–${fallbackBlock}, already traced by an earlier load` })
+      fallbackBlocksSkipped += fallbackBlock - Math.max(target, blockRangeStart - 1)
+      fallbackBlock = target
+      fallbackTxIndex = 0
+      continue
+    }
+
+    startScans()
+    const blockNumber = fallbackBlock
+    const scan = scans.get(blockNumber)
+    if (!scan) {
       fallbackBudgetExhausted = true
       break
     }
+    scans.delete(blockNumber)
 
     let block: any
-
+    let blockTraces: Map<string, any> | undefined
     try {
-      block = await callWithLimiter(() => provider.getBlockWithTxs(blockNumber), 'getBlockWithTxs')
-      remainingTraceLookups -= 1
-    } catch {
+      [block, blockTraces] = await scan
+    } catch (error) {
+      throwIfAborted()
+      recordSkip({ blockNumber, reason: skipReason(error) })
+      highestIncompleteBlock ??= blockNumber
+      fallbackBlock -= 1
+      fallbackTxIndex = 0
       continue
     }
 
@@ -585,51 +920,69 @@ export async function fetchInteractions(p: FetchParams): Promise<FetchResult> {
     blockTimestampCache.set(blockNumber, blockTimestamp)
 
     const transactions: any[] = Array.isArray((block as any)?.transactions) ? (block as any).transactions : []
-    const unseenTransactions = transactions.filter((tx: any) => {
-      const hash = (tx as any)?.transaction_hash || (tx as any)?.hash
-      return Boolean(hash) && !seenTx.has(hash)
-    })
-
-    if (unseenTransactions.length === 0) {
-      continue
+    if (blockTraces) {
+      await Promise.all(transactions.slice(fallbackTxIndex)
+        .map((tx) => tx?.transaction_hash || tx?.hash)
+        .filter((txHash) => txHash && !seenTx.has(txHash)
+          && String(extractInvocationFromTrace(blockTraces!.get(txHash))?.contract_address || '').toLowerCase() === addressLower)
+        .map((txHash) => loadReceipt(txHash, 'bulk').catch(() => undefined)))
     }
 
-    for (const tx of unseenTransactions) {
-      if (reachedLimit) {
-        txScanComplete = false
-        break
-      }
+    let blockComplete = true
+    for (; fallbackTxIndex < transactions.length; fallbackTxIndex += 1) {
+      if (reachedLimit) break
 
-      if (remainingTraceLookups <= 0) {
-        txScanComplete = false
+      if (!blockTraces && remainingTraceLookups <= 0) {
         fallbackBudgetExhausted = true
         break
       }
 
+      const tx = transactions[fallbackTxIndex]
       const txHash = (tx as any)?.transaction_hash || (tx as any)?.hash
-      if (!txHash) continue
+      if (!txHash || seenTx.has(txHash)) continue
 
       try {
-        const trace = await callWithLimiter(() => provider.getTransactionTrace(txHash), 'getTransactionTrace')
-        remainingTraceLookups -= 1
+        let trace = blockTraces?.get(txHash)
+        if (!trace) {
+          const lookup = await lookupWithCache(
+            'trace',
+            txHash,
+            (provider) => provider.getTransactionTrace(txHash),
+            'getTransactionTrace',
+            () => isFinalBlock(blockNumber),
+            'bulk'
+          )
+          trace = lookup.value
+          if (!lookup.cached) remainingTraceLookups -= 1
+        }
         const invocation = extractInvocationFromTrace(trace)
         if (!invocation) continue
 
         const contractAddress = String(invocation.contract_address || '').toLowerCase()
         if (contractAddress !== addressLower) continue
 
-        const receipt = await callWithLimiter(() => provider.getTransactionReceipt(txHash), 'getTransactionReceipt') as any
-        if (!receipt) continue
+        const receipt = await loadReceipt(txHash, 'bulk')
+        if (!receipt) {
+          recordSkip({ txHash, blockNumber, reason: 'receipt not found' })
+          blockComplete = false
+          continue
+        }
 
-        const timestamp = await getBlockTimestamp(receipt.block_number ?? blockNumber)
+        const rowBlockNumber = receipt.block_number ?? blockNumber
+        const timestamp = await getBlockTimestamp(rowBlockNumber)
         const type = toTxType(receipt.type || (tx as any)?.type)
         const status: TxStatus = (receipt.execution_status === 'REVERTED' || receipt.revert_reason) ? 'REJECTED' : 'ACCEPTED'
-        const fee = toFee(receipt.actual_fee?.amount)
-        const entrypoint = decodeSelector(
-          invocation.entry_point_selector_name
-            || invocation.entry_point_selector
-            || invocation.selector
-        )
+        const fee = toFee(receipt.actual_fee)
+        const calls = callsToContract(tx)
+        const resolved = calls
+          ? { name: calls[0].entrypoint, resolved: calls[0].entrypointResolved }
+          : resolveSelector(
+            selectorNames,
+            invocation.entry_point_selector_name
+              || invocation.entry_point_selector
+              || invocation.selector,
+            'function'
+          )
         const caller = (invocation.caller_address
           || receipt.sender_address
           || (tx as any)?.sender_address
@@ -639,28 +992,65 @@ export async function fetchInteractions(p: FetchParams): Promise<FetchResult> {
         const row: TxRow = {
           timestamp,
           txHash,
+          blockNumber: rowBlockNumber,
           type,
-          entrypoint,
+          entrypoint: resolved?.name,
+          entrypointResolved: resolved?.resolved,
+          calls,
           caller,
           to: invocation.contract_address || p.address,
           fee,
           status,
+          revertReason: normalizeRevertReason(receipt.revert_reason),
           network: p.network
         }
 
+        fallbackHits.push({ txHash, blockNumber })
         addRow(row)
-      } catch {
+      } catch (error) {
+        throwIfAborted()
+        recordSkip({ txHash, blockNumber, reason: skipReason(error) })
+        blockComplete = false
         continue
       }
     }
 
-    if (!txScanComplete || fallbackBudgetExhausted) break
+    if (reachedLimit || fallbackBudgetExhausted) {
+      fallbackBlockIncomplete = !blockComplete || highestIncompleteBlock === blockNumber
+      break
+    }
+    if (!blockComplete) highestIncompleteBlock ??= blockNumber
+    fallbackBlock -= 1
+    fallbackTxIndex = 0
+  }
+
+  const fallbackCoverage: FallbackCoverage = {
+    fromBlock,
+    toBlock,
+    nextBlock: fallbackBlock,
+    blocksTotal: toBlock - fromBlock + 1,
+    blocksCovered: toBlock - Math.max(fallbackBlock, fromBlock - 1),
+    blocksSkipped: fallbackBlocksSkipped,
+    complete: fallbackBlock < fromBlock
   }
 
   if (fallbackBudgetExhausted) {
-    console.warn('[starknetClient] Trace lookup budget exhausted during fallback scan')
+    log({
+      level: 'warn',
+      message: `[fallback] Trace budget (${MAX_TRACE_LOOKUPS} lookups) used up at block ${fallbackBlock}: ${fallbackCoverage.blocksCovered} of ${fallbackCoverage.blocksTotal} blocks covered. Loading more continues the scan.`
+    })
+  }
+
+  // Only final blocks traced completely by this call extend the watermark: from where it started down to where it
+  // stopped or to just above the first incomplete block, whichever is higher.
+  const watermarkTo = Math.min(fallbackStartBlock, (latestKnownBlock ?? -Infinity) - CACHE_CONFIRMATION_DEPTH)
+  const watermarkFrom = Math.max(fallbackBlock + 1, (highestIncompleteBlock ?? -Infinity) + 1, fromBlock)
+  if (watermarkFrom <= watermarkTo) {
+    saveScanWatermark(p.network, p.address, { fromBlock: watermarkFrom, toBlock: watermarkTo, hits: fallbackHits })
   }
 
+  reportProgress('done')
+
   const filteredRows = allRows.filter((row) => {
     if (!matchesFilters(row)) return false
     if (p.from != null && row.timestamp < p.from) return false
@@ -670,16 +1060,285 @@ export async function fetchInteractions(p: FetchParams): Promise<FetchResult> {
 
   filteredRows.sort((a, b) => b.timestamp - a.timestamp)
 
-  const start = (p.page - 1) * p.pageSize
+  const walkedEvents = collectedEvents
+    .map((event) => ({ ...event, timestamp: event.blockNumber != null ? blockTimestampCache.get(event.blockNumber) : undefined }))
+    .filter((event) => event.timestamp == null
+      || ((p.from == null || event.timestamp >= p.from) && (p.to == null || event.timestamp <= p.to)))
+    .reverse()
+
+  const start = p.cursor ? 0 : (p.page - 1) * p.pageSize
   const paged = filteredRows.slice(start, start + p.pageSize)
+  const scanComplete = eventsDone && fallbackBlock < blockRangeStart
+  const eventsPagesRead = (p.cursor?.eventsPagesRead ?? 0) + eventsPages
+  const matchedRows = (p.cursor?.matchedRows ?? 0) + filteredRows.length
+
+  const coverage: CoverageReport = {
+    requested: { fromBlock, toBlock },
+    eventsCovered: eventsCoveredTo != null ? { fromBlock, toBlock: eventsCoveredTo } : undefined,
+    eventsPages: eventsPagesRead,
+    eventsComplete: eventsDone,
+    fallback: fallbackCoverage,
+    traceBudget: { used: MAX_TRACE_LOOKUPS - remainingTraceLookups, total: MAX_TRACE_LOOKUPS },
+    skipped,
+    skippedCount,
+    stoppedBy: reachedLimit ? 'page-limit' : fallbackBudgetExhausted ? 'trace-budget' : undefined,
+    morePages: start + p.pageSize < filteredRows.length,
+    matched: matchedRows,
+    exact: scanComplete && skippedCount === 0
+  }
+
+  const cursor: FetchCursor | undefined = scanComplete
+    ? undefined
+    : {
+      ...blockRange,
+      eventsToken: continuation,
+      eventsDone,
+      fallbackBlock,
+      fallbackTxIndex,
+      // The next page resumes inside `fallbackBlock` and skips its earlier transactions via seenTxHashes.
+      fallbackBlockHits: fallbackTxIndex > 0 ? fallbackHits.filter((hit) => hit.blockNumber === fallbackBlock) : undefined,
+      fallbackBlockIncomplete: (fallbackTxIndex > 0 && fallbackBlockIncomplete) || undefined,
+      fallbackBlocksSkipped,
+      eventsPagesRead,
+      eventsCoveredTo,
+      matchedRows,
+      skipped,
+      skippedCount,
+      seenTxHashes: [...seenTx],
+      selectorNames: { functions: [...selectorNames.functions], events: [...selectorNames.events] }
+    }
 
   return {
     rows: paged,
     totalEstimated: filteredRows.length,
-    hasMore:
-      (start + p.pageSize < filteredRows.length)
-      || reachedLimit
-      || Boolean(nextContinuationToken)
-      || !txScanComplete
+    hasMore: coverage.morePages || !scanComplete,
+    cursor,
+    range: blockRange,
+    traceBudgetExhausted: fallbackBudgetExhausted,
+    coverage,
+    events: p.collectEvents ? walkedEvents : undefined
+  }
+}
+
+/** Looks up block hashes, e.g. to detect reorgs of recently scanned blocks. Missing blocks are omitted. */
+export async function fetchBlockHashes(p: {
+  network: Network
+  blockNumbers: number[]
+  log?: RetryLogger
+  signal?: AbortSignal
+}): Promise<Record<number, string>> {
+  const pool = getEndpointPool(p.network)
+  const log = p.log ?? (() => {})
+  const hashes: Record<number, string> = {}
+
+  for (const blockNumber of p.blockNumbers) {
+    const method = 'getBlockWithTxHashes'
+    try {
+      const block = await pool.call((provider) => provider.getBlockWithTxHashes(blockNumber), { method, log, signal: p.signal })
+      const hash = (block as any)?.block_hash
+      if (hash) hashes[blockNumber] = String(hash)
+    } catch {
+      p.signal?.throwIfAborted()
+      continue
+    }
+  }
+
+  return hashes
+}
+
+// Contract ABIs loaded for one transaction detail view; each costs two RPC calls.
+const MAX_DETAIL_ABIS = 8
+
+export interface TxDetailCall {
+  to: string
+  selector: string
+  entrypoint: string
+  entrypointResolved: boolean
+  calldata: string[]
+  args?: DecodedValue[]
+}
+
+export interface TxDetailEvent {
+  from: string
+  keys: string[]
+  data: string[]
+  name?: string
+  fields?: DecodedValue[]
+}
+
+export interface TxCallNode extends TxDetailCall {
+  callType?: string
+  result: string[]
+  children: TxCallNode[]
+}
+
+export interface TxMessage {
+  direction: 'L1_TO_L2' | 'L2_TO_L1'
+  from: string
+  to: string
+  payload: string[]
+}
+
+export interface TxDetails {
+  txHash: string
+  type: TxType
+  status: TxStatus
+  finality?: string
+  blockNumber?: number
+  blockHash?: string
+  /** Position of the transaction within its block. */
+  txIndex?: number
+  fee: TxFee
+  revertReason?: string
+  sender?: string
+  calls: TxDetailCall[]
+  events: TxDetailEvent[]
+  /** Top-level invocations of the trace: validation, execution and the fee transfer. */
+  callTree: { label: string; node: TxCallNode }[]
+  messages: TxMessage[]
+  executionResources?: Record<string, unknown>
+}
+
+/** Loads the receipt, transaction and trace of one transaction and decodes them with the ABIs of the contracts involved. */
+export async function fetchTransactionDetails(p: {
+  network: Network
+  txHash: string
+  /** Chain head of the loaded range; only when it is missing is the latest block fetched to tell final blocks apart. */
+  latestBlockNumber?: number
+  log?: RetryLogger
+  signal?: AbortSignal
+}): Promise<TxDetails> {
+  const pool = getEndpointPool(p.network)
+  const log = p.log ?? (() => {})
+  const { network, txHash, signal } = p
+  // The drawer is waiting on these calls, so they go ahead of any scan still running.
+  const priority: RpcPriority = 'high'
+  const call = <T>(factory: (provider: RpcProvider) => Promise<T>, method: string) =>
+    pool.call(factory, { method, priority, log, signal })
+
+  const latestBlockNumber = p.latestBlockNumber
+    ?? Number((await call((provider) => provider.getBlockWithTxHashes('latest' as any), 'getBlockWithTxHashes') as any)?.block_number ?? 0)
+  const isFinalBlock = (blockNumber?: number) => blockNumber != null && blockNumber <= latestBlockNumber - CACHE_CONFIRMATION_DEPTH
+
+  const receipt = await cachedRpcCall({
+    network, kind: 'receipt', id: txHash, method: 'getTransactionReceipt', priority, log, signal,
+    factory: (provider) => provider.getTransactionReceipt(txHash),
+    isFinal: (value: any) => isFinalBlock(value?.block_number)
+  }) as any
+  if (!receipt) throw new Error(`Transaction ${txHash} not found`)
+
+  const blockNumber = receipt.block_number != null ? Number(receipt.block_number) : undefined
+  const final = isFinalBlock(blockNumber)
+  const [transaction, trace, block] = await Promise.all([
+    cachedRpcCall({ network, kind: 'transaction', id: txHash, method: 'getTransactionByHash', priority, log, signal, factory: (provider) => provider.getTransactionByHash(txHash), isFinal: () => final }),
+    cachedRpcCall({ network, kind: 'trace', id: txHash, method: 'getTransactionTrace', priority, log, signal, factory: (provider) => provider.getTransactionTrace(txHash), isFinal: () => final })
+      .catch((error) => {
+        signal?.throwIfAborted()
+        log({ level: 'warn', message: `[details] Trace unavailable: ${(error as any)?.message ?? error}` })
+        return undefined
+      }),
+    blockNumber != null
+      ? cachedRpcCall({ network, kind: 'block', id: blockNumber, method: 'getBlockWithTxHashes', priority, log, signal, factory: (provider) => provider.getBlockWithTxHashes(blockNumber), isFinal: () => final })
+      : Promise.resolve(undefined)
+  ]) as [any, any, any]
+
+  const abis = new Map<string, Promise<unknown>>()
+  const loadAbi = (address: string): Promise<unknown> => {
+    const key = normalizeFelt(address)
+    if (!abis.has(key)) {
+      if (abis.size >= MAX_DETAIL_ABIS) return Promise.resolve(undefined)
+      abis.set(key, (async () => {
+        try {
+          const classHash = await call((provider) => provider.getClassHashAt(address), 'getClassHashAt')
+          const contractClass = await cachedRpcCall({ network, kind: 'class', id: classHash, method: 'getClass', priority, log, signal, factory: (provider) => provider.getClass(classHash), isFinal: () => true })
+          return (contractClass as any)?.abi
+        } catch {
+          signal?.throwIfAborted()
+          return undefined
+        }
+      })())
+    }
+    return abis.get(key)!
+  }
+
+  const describeCall = async (to: string, selector: string, calldata: string[]): Promise<TxDetailCall> => {
+    const abi = await loadAbi(to)
+    const resolved = resolveSelector(buildSelectorNames(abi), selector, 'function') ?? { name: selector, resolved: false }
+    const args = resolved.resolved ? decodeFunctionCalldata(abi, resolved.name, calldata) : undefined
+    return { to, selector, entrypoint: resolved.name, entrypointResolved: resolved.resolved, calldata, args }
+  }
+
+  const type = toTxType(transaction?.type ?? receipt.type)
+  const rawCalldata: string[] = Array.isArray(transaction?.calldata) ? transaction.calldata.map(String) : []
+  const multicall = type === 'INVOKE' ? decodeMulticall(rawCalldata) : undefined
+  const calls = multicall
+    ? await Promise.all(multicall.map((c) => describeCall(c.to, c.selector, c.calldata)))
+    : transaction?.contract_address && transaction?.entry_point_selector
+      ? [await describeCall(transaction.contract_address, transaction.entry_point_selector, rawCalldata)]
+      : []
+
+  const events: TxDetailEvent[] = await Promise.all((Array.isArray(receipt.events) ? receipt.events : []).map(async (event: any) => {
+    const keys = (event.keys ?? []).map(String)
+    const data = (event.data ?? []).map(String)
+    const decoded = decodeEvent(await loadAbi(event.from_address), keys, data)
+    return { from: String(event.from_address), keys, data, name: decoded?.name, fields: decoded?.fields }
+  }))
+
+  const toNode = async (invocation: any): Promise<TxCallNode> => {
+    const described = await describeCall(
+      String(invocation.contract_address),
+      String(invocation.entry_point_selector ?? ''),
+      (invocation.calldata ?? []).map(String)
+    )
+    const children = await Promise.all((Array.isArray(invocation.calls) ? invocation.calls : []).map(toNode))
+    return { ...described, callType: invocation.call_type, result: (invocation.result ?? []).map(String), children }
+  }
+
+  const callTree: TxDetails['callTree'] = []
+  const roots = trace?.invoke_tx_trace ?? trace?.deploy_account_tx_trace ?? trace?.l1_handler_tx_trace ?? trace?.declare_tx_trace ?? trace ?? {}
+  for (const [label, key] of [['validate', 'validate_invocation'], ['execute', 'execute_invocation'], ['constructor', 'constructor_invocation'], ['l1 handler', 'function_invocation'], ['fee transfer', 'fee_transfer_invocation']]) {
+    const invocation = roots[key]
+    if (invocation && typeof invocation === 'object' && 'contract_address' in invocation) callTree.push({ label, node: await toNode(invocation) })
+  }
+
+  const messages: TxMessage[] = (Array.isArray(receipt.messages_sent) ? receipt.messages_sent : []).map((message: any) => ({
+    direction: 'L2_TO_L1' as const,
+    from: String(message.from_address ?? transaction?.contract_address ?? ''),
+    to: String(message.to_address),
+    payload: (message.payload ?? []).map(String)
+  }))
+  // An L1 handler is triggered by a message whose sender is the first calldata element.
+  if (type === 'L1_HANDLER' && rawCalldata.length > 0) {
+    messages.unshift({ direction: 'L1_TO_L2', from: rawCalldata[0], to: String(transaction?.contract_address ?? ''), payload: rawCalldata.slice(1) })
+  }
+
+  const blockTxs: string[] = Array.isArray(block?.transactions) ? block.transactions.map(String) : []
+  const txIndex = blockTxs.findIndex((hash) => normalizeFelt(hash) === normalizeFelt(txHash))
+
+  return {
+    txHash,
+    type,
+    status: (receipt.execution_status === 'REVERTED' || receipt.revert_reason) ? 'REJECTED' : 'ACCEPTED',
+    finality: receipt.finality_status,
+    blockNumber,
+    blockHash: receipt.block_hash,
+    txIndex: txIndex >= 0 ? txIndex : undefined,
+    fee: toFee(receipt.actual_fee),
+    revertReason: receipt.revert_reason || roots.execute_invocation?.revert_reason || undefined,
+    sender: transaction?.sender_address,
+    calls,
+    events,
+    callTree,
+    messages,
+    executionResources: receipt.execution_resources
+  }
+}
+
+// Addresses and hashes are felts, which nodes return with or without leading zeros.
+const normalizeFelt = (felt: string): string => {
+  try {
+    return `0x${BigInt(felt).toString(16)}`
+  } catch {
+    return felt.toLowerCase()
   }
 }
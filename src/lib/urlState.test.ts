@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { Filters } from '../types'
+import { parseUrlState, serializeUrlState, withoutPage } from './urlState'
+
+const ADDRESS = '0x04270219d365d6b017231b52e92b3fb5d7c8378b05e9abc97724537a80e93b0f'
+
+const filters = (overrides: Partial<Filters> = {}): Filters => ({
+  address: '',
+  network: 'mainnet',
+  fromDate: '',
+  toDate: '',
+  type: 'ALL',
+  method: '',
+  status: 'ALL',
+  feeUnit: 'ALL',
+  minFee: '',
+  maxFee: '',
+  ...overrides
+})
+
+describe('parseUrlState', () => {
+  it('reads every parameter of a shared link', () => {
+    const search = `?address=${ADDRESS}&network=sepolia&from=2024-01-01&to=2024-02-01&type=INVOKE&method=swap&status=REJECTED&feeUnit=FRI&minFee=0.5&maxFee=2&page=3&view=events`
+
+    expect(parseUrlState(search)).toEqual({
+      filters: {
+        address: ADDRESS,
+        network: 'sepolia',
+        fromDate: '2024-01-01',
+        toDate: '2024-02-01',
+        type: 'INVOKE',
+        method: 'swap',
+        status: 'REJECTED',
+        feeUnit: 'FRI',
+        minFee: '0.5',
+        maxFee: '2'
+      },
+      page: 3,
+      view: 'events'
+    })
+  })
+
+  it('leaves out missing parameters so the app defaults apply', () => {
+    expect(parseUrlState('')).toEqual({ filters: {}, page: undefined, view: undefined })
+    expect(parseUrlState('?view=failures')).toEqual({ filters: {}, page: undefined, view: 'failures' })
+  })
+
+  it('drops malformed values one by one and keeps the valid ones', () => {
+    const search = '?address=0xnothex&network=nowhere&from=01.02.2024&to=2024-2-1&type=CALL&status=PENDING&feeUnit=BTC&minFee=-1&maxFee=1e3&page=0&view=chart&method=%20%20'
+    expect(parseUrlState(search)).toEqual({ filters: {}, page: undefined, view: undefined })
+
+    expect(parseUrlState(`?address=${'0x'.padEnd(67, 'a')}&to=&page=2.5&minFee=0.1`)).toEqual({ filters: { toDate: '', minFee: '0.1' }, page: undefined, view: undefined })
+    expect(parseUrlState('?page=10001').page).toBeUndefined()
+  })
+})
+
+describe('serializeUrlState', () => {
+  it('leaves out defaults and empty values except empty dates, which mean no bound', () => {
+    const dates = { fromDate: '2024-01-01', toDate: '2024-01-08' }
+    expect(serializeUrlState({ filters: filters(dates), page: 1, view: 'transactions' })).toBe('?from=2024-01-01&to=2024-01-08')
+    expect(serializeUrlState({ filters: filters({ ...dates, address: ADDRESS }), page: 2, view: 'transactions' })).toBe(`?address=${ADDRESS}&from=2024-01-01&to=2024-01-08&page=2`)
+    expect(serializeUrlState({ filters: filters(), page: 1, view: 'transactions' })).toBe('?from=&to=')
+  })
+
+  it('round-trips through parseUrlState', () => {
+    const state = {
+      filters: filters({ address: ADDRESS, network: 'sepolia', fromDate: '2024-01-01', type: 'DECLARE', method: 'transfer from', status: 'ACCEPTED', feeUnit: 'WEI', minFee: '0.001', maxFee: '1' }),
+      page: 4,
+      view: 'failures' as const
+    }
+    const search = serializeUrlState(state)
+
+    expect(search).toContain('to=&')
+    expect(parseUrlState(search)).toEqual(state)
+  })
+})
+
+describe('withoutPage', () => {
+  it('drops only the page parameter', () => {
+    expect(withoutPage('?address=0x1&page=3&view=events')).toBe('address=0x1&view=events')
+    expect(withoutPage('?page=2')).toBe('')
+  })
+})
@@ -0,0 +1,104 @@
+import { z } from 'zod'
+import { Filters } from '../types'
+import { NETWORK_ID, isKnownNetwork } from './networks'
+
+export const VIEWS = ['transactions', 'events', 'failures'] as const
+export type View = typeof VIEWS[number]
+
+export interface UrlState {
+  filters: Partial<Filters>
+  page?: number
+  view?: View
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+const DECIMAL = /^\d+(\.\d+)?$/
+
+// Each query parameter is validated on its own so one malformed value does not discard the rest of a shared link.
+const PARAMS = {
+  address: z.string().regex(/^0x[0-9a-fA-F]{1,64}$/),
+  network: z.string().regex(NETWORK_ID).refine(isKnownNetwork),
+  from: z.union([z.literal(''), z.string().regex(DATE)]),
+  to: z.union([z.literal(''), z.string().regex(DATE)]),
+  type: z.enum(['ALL', 'INVOKE', 'DECLARE', 'DEPLOY', 'L1_HANDLER']),
+  method: z.string().trim().min(1).max(128),
+  status: z.enum(['ALL', 'ACCEPTED', 'REJECTED']),
+  feeUnit: z.enum(['ALL', 'WEI', 'FRI']),
+  minFee: z.string().regex(DECIMAL),
+  maxFee: z.string().regex(DECIMAL),
+  page: z.coerce.number().int().min(1).max(10_000),
+  view: z.enum(VIEWS)
+}
+
+type ParamName = keyof typeof PARAMS
+
+const FILTER_PARAMS: Record<Exclude<ParamName, 'page' | 'view'>, keyof Filters> = {
+  address: 'address',
+  network: 'network',
+  from: 'fromDate',
+  to: 'toDate',
+  type: 'type',
+  method: 'method',
+  status: 'status',
+  feeUnit: 'feeUnit',
+  minFee: 'minFee',
+  maxFee: 'maxFee'
+}
+
+// Values equal to the app defaults are left out to keep links short.
+const DEFAULTS: Partial<Record<ParamName, string>> = {
+  network: 'mainnet',
+  type: 'ALL',
+  status: 'ALL',
+  feeUnit: 'ALL',
+  page: '1',
+  view: 'transactions'
+}
+
+const parseParam = <K extends ParamName>(query: URLSearchParams, name: K): z.infer<typeof PARAMS[K]> | undefined => {
+  const raw = query.get(name)
+  if (raw == null) return undefined
+  const parsed = PARAMS[name].safeParse(raw)
+  return parsed.success ? parsed.data as z.infer<typeof PARAMS[K]> : undefined
+}
+
+/** Reads the dashboard state from a query string; missing or invalid parameters are omitted. */
+export function parseUrlState(search: string): UrlState {
+  const query = new URLSearchParams(search)
+  const filters: Partial<Filters> = {}
+  for (const [param, field] of Object.entries(FILTER_PARAMS) as [keyof typeof FILTER_PARAMS, keyof Filters][]) {
+    const value = parseParam(query, param)
+    if (value !== undefined) (filters as Record<string, unknown>)[field] = value
+  }
+
+  return { filters, page: parseParam(query, 'page'), view: parseParam(query, 'view') }
+}
+
+/** Serializes the dashboard state into a query string (with a leading `?`, or empty when everything is default). */
+export function serializeUrlState(state: { filters: Filters; page: number; view: View }): string {
+  const query = new URLSearchParams()
+  const set = (name: ParamName, value: string | number | undefined) => {
+    if (value == null) return
+    const text = String(value)
+    if (DEFAULTS[name] === text) return
+    // Empty dates are meaningful (no bound), every other empty value is just unset.
+    if (text === '' && name !== 'from' && name !== 'to') return
+    query.set(name, text)
+  }
+
+  for (const [param, field] of Object.entries(FILTER_PARAMS) as [keyof typeof FILTER_PARAMS, keyof Filters][]) {
+    set(param, state.filters[field])
+  }
+  set('page', state.page)
+  set('view', state.view)
+
+  const text = query.toString()
+  return text ? `?${text}` : ''
+}
+
+/** Query string without the page, used to tell filter changes apart from paging. */
+export const withoutPage = (search: string) => {
+  const query = new URLSearchParams(search)
+  query.delete('page')
+  return query.toString()
+}
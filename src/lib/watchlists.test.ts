@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { TxRow } from '../types'
+import { FetchCursor, fetchInteractions } from './starknetClient'
+import { Watchlist, fetchWatchlist, mergeWatchlistRows, parseWatchlistContracts } from './watchlists'
+
+vi.mock('./starknetClient', () => ({
+  fetchInteractions: vi.fn()
+}))
+
+const mockFetch = vi.mocked(fetchInteractions)
+
+const row = (txHash: string, timestamp: number, to: string): TxRow => ({
+  timestamp,
+  txHash,
+  blockNumber: 100,
+  type: 'INVOKE',
+  entrypoint: 'swap',
+  caller: '0x1',
+  to,
+  fee: { amount: '1', unit: 'FRI' },
+  status: 'ACCEPTED',
+  network: 'sepolia'
+})
+
+const cursor = {} as FetchCursor
+const range = { fromBlock: 90, toBlock: 120, latestBlockNumber: 120 }
+
+const watchlist: Watchlist = {
+  id: 'wl-1',
+  name: 'dex',
+  network: 'sepolia',
+  contracts: [{ address: '0xaa', label: 'router' }, { address: '0xbb' }]
+}
+
+beforeEach(() => {
+  mockFetch.mockReset()
+})
+
+describe('parseWatchlistContracts', () => {
+  it('reads one address per line with an optional label and drops duplicates', () => {
+    expect(parseWatchlistContracts('0xAA main router\n\n  0xbb\n0xaa')).toEqual([
+      { address: '0xAA', label: 'main router' },
+      { address: '0xbb', label: undefined }
+    ])
+    expect(parseWatchlistContracts('0xcc pool A')).toEqual([{ address: '0xcc', label: 'pool A' }])
+  })
+
+  it('treats zero-padded addresses as the same contract and keeps the first label', () => {
+    expect(parseWatchlistContracts('0x0aa\n0xAA router\n0x00aa pool')).toEqual([{ address: '0x0aa', label: 'router' }])
+  })
+
+  it('rejects lines without an address', () => {
+    expect(() => parseWatchlistContracts('0xaa\nrouter')).toThrow('Invalid contract address: router')
+  })
+})
+
+describe('fetchWatchlist', () => {
+  it('loads every contract on the watchlist network and keeps going when one fails', async () => {
+    mockFetch.mockImplementation(async ({ address }) => {
+      if (address === '0xbb') throw new Error('RPC down')
+      return { rows: [row('0x1', 10, address)], hasMore: true, cursor, range }
+    })
+    const log = vi.fn()
+
+    const results = await fetchWatchlist({ watchlist, filters: {}, log })
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(mockFetch.mock.calls.every(([params]) => params.network === 'sepolia' && params.page === 1)).toBe(true)
+    expect(results).toEqual([
+      { address: '0xaa', label: 'router', rows: [row('0x1', 10, '0xaa')], cursor, hasMore: true },
+      { address: '0xbb', label: undefined, rows: [], hasMore: false, error: 'RPC down' }
+    ])
+    expect(log).toHaveBeenCalledWith({ level: 'error', message: '[watchlist] 0xbb: RPC down' })
+  })
+
+  it('only resumes contracts that still have a cursor', async () => {
+    mockFetch.mockResolvedValue({ rows: [], hasMore: false, range })
+
+    await fetchWatchlist({ watchlist, filters: {}, cursors: { '0xaa': undefined, '0xbb': cursor } })
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(mockFetch.mock.calls[0][0]).toMatchObject({ address: '0xbb', cursor })
+  })
+})
+
+describe('mergeWatchlistRows', () => {
+  it('interleaves the rows of all contracts newest first', () => {
+    const merged = mergeWatchlistRows([
+      { address: '0xaa', rows: [row('0x1', 30, '0xaa'), row('0x2', 10, '0xaa')], hasMore: false },
+      { address: '0xbb', rows: [row('0x3', 20, '0xbb')], hasMore: false }
+    ])
+    expect(merged.map((r) => r.txHash)).toEqual(['0x1', '0x3', '0x2'])
+  })
+})
@@ -0,0 +1,99 @@
+import { z } from 'zod'
+import { TxRow } from '../types'
+import { addrKey } from './aggregations'
+import { FetchCursor, FetchParams, fetchInteractions } from './starknetClient'
+import { NETWORK_ID } from './networks'
+
+const STORAGE_KEY = 'starknet-dashboard-watchlists'
+
+const watchlistSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  network: z.string().regex(NETWORK_ID),
+  contracts: z.array(z.object({ address: z.string().regex(/^0x[0-9a-fA-F]{1,64}$/), label: z.string().optional() })).min(1)
+})
+
+export type Watchlist = z.infer<typeof watchlistSchema>
+
+const storage = (): Storage | undefined => (typeof localStorage === 'undefined' ? undefined : localStorage)
+
+/** Reads the saved watchlists; entries that no longer match the schema are dropped. */
+export function loadWatchlists(): Watchlist[] {
+  const raw = storage()?.getItem(STORAGE_KEY)
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed.flatMap((entry) => {
+      const result = watchlistSchema.safeParse(entry)
+      return result.success ? [result.data] : []
+    }) : []
+  } catch {
+    return []
+  }
+}
+
+export function saveWatchlists(watchlists: Watchlist[]): void {
+  storage()?.setItem(STORAGE_KEY, JSON.stringify(watchlists))
+}
+
+/**
+ * Parses one contract per line: an address optionally followed by a label, e.g. `0x04… router`.
+ * Throws on the first line that does not start with an address. Repeated addresses (compared after
+ * normalisation, so `0x0aa` equals `0xAA`) keep the first line, taking a later label if it had none.
+ */
+export function parseWatchlistContracts(text: string): Watchlist['contracts'] {
+  const contracts = text.split('\n').map((line) => line.trim()).filter(Boolean).map((line) => {
+    const [address, ...label] = line.split(/\s+/)
+    if (!/^0x[0-9a-fA-F]{1,64}$/.test(address)) throw new Error(`Invalid contract address: ${address}`)
+    return { address, label: label.join(' ') || undefined }
+  })
+  const unique = new Map<string, Watchlist['contracts'][number]>()
+  for (const contract of contracts) {
+    const first = unique.get(addrKey(contract.address))
+    if (!first) unique.set(addrKey(contract.address), contract)
+    else first.label ??= contract.label
+  }
+  return [...unique.values()]
+}
+
+export interface WatchlistContractResult {
+  address: string
+  label?: string
+  rows: TxRow[]
+  cursor?: FetchCursor
+  hasMore: boolean
+  error?: string
+}
+
+export type WatchlistFetchParams = Omit<FetchParams, 'address' | 'network' | 'page' | 'cursor' | 'onBatch' | 'blockRange' | 'transactions'> & {
+  watchlist: Watchlist
+  /** Cursors of a previous call; contracts without one are skipped as already complete. */
+  cursors?: Record<string, FetchCursor | undefined>
+}
+
+/**
+ * Loads every contract of the watchlist at once. All scans go through the shared RPC limiter, so running
+ * them concurrently does not exceed the configured request rate. A failing contract does not fail the rest.
+ */
+export async function fetchWatchlist(p: WatchlistFetchParams): Promise<WatchlistContractResult[]> {
+  const { watchlist, cursors, ...params } = p
+  const contracts = cursors ? watchlist.contracts.filter((contract) => cursors[contract.address]) : watchlist.contracts
+
+  return Promise.all(contracts.map(async ({ address, label }) => {
+    try {
+      const result = await fetchInteractions({ ...params, address, network: watchlist.network, page: 1, cursor: cursors?.[address] })
+      return { address, label, rows: result.rows, cursor: result.cursor, hasMore: Boolean(result.hasMore && result.cursor) }
+    } catch (error) {
+      p.signal?.throwIfAborted()
+      const reason = (error as any)?.message ?? String(error)
+      p.log?.({ level: 'error', message: `[watchlist] ${label ?? address}: ${reason}` })
+      return { address, label, rows: [], hasMore: false, error: reason }
+    }
+  }))
+}
+
+export const mergeWatchlistRows = (results: WatchlistContractResult[]): TxRow[] => (
+  results.flatMap((result) => result.rows).sort((a, b) => b.timestamp - a.timestamp)
+)
+
+export const newWatchlistId = () => `wl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
@@ -1,14 +1,32 @@
-export type Network = 'mainnet' | 'sepolia'
+export type BuiltinNetwork = 'mainnet' | 'sepolia'
+// Custom networks are identified by the slug they were saved under in the network settings.
+export type Network = BuiltinNetwork | (string & {})
 export type TxType = 'INVOKE' | 'DECLARE' | 'DEPLOY' | 'L1_HANDLER'
 export type TxStatus = 'ACCEPTED' | 'REJECTED'
-export interface TxRow { timestamp:number; txHash:string; type:TxType; entrypoint?:string; caller:string; to:string; fee:number; status:TxStatus; network:Network }
-export interface Filters { address:string; network:Network; fromDate:string; toDate:string; type?:TxType|'ALL'; method?:string; status?:TxStatus|'ALL'; minFee?:number; maxFee?:number }
+export type FeeUnit = 'WEI' | 'FRI'
+export interface TxFee { amount:string; unit:FeeUnit }
+export interface TxCall { entrypoint:string; entrypointResolved:boolean; calldata:string[] }
+export interface TxRow { timestamp:number; txHash:string; blockNumber?:number; type:TxType; entrypoint?:string; entrypointResolved?:boolean; calls?:TxCall[]; caller:string; to:string; fee:TxFee; status:TxStatus; revertReason?:string; network:Network }
+export interface Filters { address:string; network:Network; fromDate:string; toDate:string; type?:TxType|'ALL'; method?:string; status?:TxStatus|'ALL'; feeUnit?:FeeUnit|'ALL'; minFee?:string; maxFee?:string }
+
+export interface EventField { name:string; value:string }
+export interface ContractEvent { id:string; txHash:string; blockNumber?:number; timestamp?:number; name:string; nameResolved:boolean; keys:string[]; data:string[]; fields?:EventField[]; network:Network }
 
 export type ActivityLogLevel = 'info' | 'warn' | 'error'
 
+export type ActivityLogCategory = 'app' | 'rpc' | 'retry' | 'limiter'
+
 export type ActivityLogEntry = {
   id:string
   level:ActivityLogLevel
+  category:ActivityLogCategory
   message:string
   timestamp:number
+  /** RPC method the entry is about; `rpc` entries carry the duration of one call on one endpoint. */
+  method?:string
+  durationMs?:number
+  attempt?:number
+  endpoint?:string
+  /** Groups the entries of one load, watchlist load, export or follow session. */
+  loadId?:string
 }